@@ -1,13 +1,60 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Layout } from './components/Layout';
 import { Player } from './components/Player';
-import { Project, Scene, AVAILABLE_VOICES } from './types';
-import { generateScript, parseUserScript, generateSceneAudio, generateSceneVideo, generateSceneImage } from './services/geminiService';
-import { saveProjectToStorage, getProjectsFromStorage, deleteProjectFromStorage } from './services/storageService';
+import { ProviderSettings } from './components/ProviderSettings';
+import { RateLimitSettings } from './components/RateLimitSettings';
+import { JobQueuePanel, JobStateBadge } from './components/JobQueuePanel';
+import { TakePicker } from './components/TakePicker';
+import { CastEditor } from './components/CastEditor';
+import { KenBurnsEditor } from './components/KenBurnsEditor';
+import { BgmPanel } from './components/BgmPanel';
+import { SubtitleStylePanel } from './components/SubtitleStylePanel';
+import { LexiconPanel } from './components/LexiconPanel';
+import { NarrationField } from './components/NarrationField';
+import { SutraCorpusPanel } from './components/SutraCorpusPanel';
+import { ReviewNotes } from './components/ReviewNotes';
+import { Project, Scene, MediaKind, AssetTake, CastMember, AspectRatio, SceneTransition, TransitionType, KenBurnsConfig, ProjectBgm, SubtitleStyle, NarrationLanguage, ProjectProviders, ProductionJob, AVAILABLE_VOICES } from './types';
+import { GEMINI_MODELS } from './services/geminiService';
+import { DEFAULT_PROVIDERS, getProjectProviders, resolveProviders, needsGeminiKey } from './services/providers';
+import { saveProjectToStorage, getProjectsFromStorage, deleteProjectFromStorage, hydrateProjectMedia, updateStoredScene, mergeSceneUpdates, getSutraTexts } from './services/storageService';
+import { getQueueState, subscribeQueue, startJobRunner, enqueueJobs, isJobPending, JobRequest, pauseSceneJobs, resumeSceneJobs, cancelSceneJobs, prioritizeSceneJobs, cancelProjectJobs, clearFinishedJobs, removeProjectJobs, setQueuePaused, switchDeferredToImage, retryDeferredNow } from './services/jobQueue';
+import { runProductionJob, attachSceneMedia, alignSceneSubtitles, recordSceneError, takeSource, selectTakeUpdates, deleteTakes, getProjectVoice, getSceneVoice, getAudioVoice, hasVoiceMismatch, SceneUpdater } from './services/productionService';
+import { isQuotaError, clearExhausted, QuotaExhaustedError } from './services/rateLimiter';
+import { ERROR_KIND_LABELS, GenerationError } from './services/errors';
+import { synthesizeNarration } from './services/dialogue';
+import { insertSceneCommand, deleteSceneCommand, splitSceneCommand, mergeWithNextCommand, moveSceneCommand } from './services/sceneStructure';
+import { EditCommand, recordEdit, undoEdit, redoEdit, getHistoryState, subscribeHistory, clearHistory, forgetAssets, sceneFieldsCommand, projectFieldsCommand, pickSceneFields } from './services/editHistory';
+import { exportSubtitles, hasCurrentTimings, hasCurrentTranslation, getSubtitleLines, getProjectSubtitleStyle, buildSubtitleTimeline, SubtitleFormat } from './services/subtitles';
+import { LANGUAGES, DEFAULT_LANGUAGE, getProjectLanguage } from './services/languages';
+import { translateScenes, setTranslationsCommand, needsTranslation } from './services/translation';
+import { LexiconEntry, loadLexicon, saveLexicon } from './services/lexicon';
+import { reviewScenes, recheckQuotes, setReviewsCommand, needsReview, getReviewStatus } from './services/doctrinalReview';
+import { measureSubtitleTimings } from './services/subtitleTiming';
+import { ASPECT_RATIOS, DEFAULT_ASPECT_RATIO, getProjectAspectRatio } from './services/aspectRatio';
+import { MOTION_LABELS, resolveKenBurns, getAutoKenBurns } from './services/kenBurns';
+import { getProjectBgm } from './services/bgmLibrary';
+import { TRANSITION_LABELS, TRANSITION_DURATIONS, DEFAULT_TRANSITION, setAllTransitionsCommand } from './services/transitions';
+import { exportProjectBundle, importProjectBundle, isBundleFile, BundleIssue, BundleFormatError } from './services/bundleService';
 
 type InputMode = 'TOPIC' | 'SCRIPT';
 type ProductionMode = 'VIDEO' | 'IMAGE';
 
+const takeCount = (scene: Scene, kinds: MediaKind[]) =>
+  kinds.reduce((sum, kind) => sum + (scene.takes?.[kind]?.length || 0), 0);
+
+const SCENE_ERROR_LABELS: Record<MediaKind, string> = {
+  audio: '配音失败',
+  video: '视频失败',
+  image: '图片失败',
+};
+
+interface ImportReport {
+  fileName: string;
+  title?: string;
+  error?: string;
+  issues: BundleIssue[];
+}
+
 const App: React.FC = () => {
   const [project, setProject] = useState<Project | null>(null);
   const [savedProjects, setSavedProjects] = useState<Project[]>([]);
@@ -22,25 +69,87 @@ const App: React.FC = () => {
   // Consistency Inputs
   const [characterDesc, setCharacterDesc] = useState('');
   const [artStyle, setArtStyle] = useState('');
+  const [cast, setCast] = useState<CastMember[]>([]);
 
   const [targetAudience, setTargetAudience] = useState('Children');
   const [selectedVoice, setSelectedVoice] = useState(AVAILABLE_VOICES[0].name);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
+  const [language, setLanguage] = useState<NarrationLanguage>(DEFAULT_LANGUAGE);
   const [targetDuration, setTargetDuration] = useState(1); 
   
   // Production Settings
   const [productionMode, setProductionMode] = useState<ProductionMode>('VIDEO');
-  const [videoModel, setVideoModel] = useState('veo-3.1-fast-generate-preview');
+  const [providerSettings, setProviderSettings] = useState<ProjectProviders>(DEFAULT_PROVIDERS);
+  const [showProviderPanel, setShowProviderPanel] = useState(false);
+  const [showCastPanel, setShowCastPanel] = useState(false);
+  const [showBgmPanel, setShowBgmPanel] = useState(false);
+  const [showSubtitlePanel, setShowSubtitlePanel] = useState(false);
+  const [showLexiconPanel, setShowLexiconPanel] = useState(false);
+  const [lexicon, setLexicon] = useState<LexiconEntry[]>(loadLexicon);
+  const [isAligningSubtitles, setIsAligningSubtitles] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [showCorpusPanel, setShowCorpusPanel] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false);
 
   const [showPlayer, setShowPlayer] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [queue, setQueue] = useState(getQueueState());
+  const [takePicker, setTakePicker] = useState<{ sceneId: string; kinds: MediaKind[] } | null>(null);
+  const [, setHistoryVersion] = useState(0);
+  const [draggingSceneId, setDraggingSceneId] = useState<string | null>(null);
+  const narrationCursorRef = useRef(new Map<string, number>()); // sceneId -> caret position, for split
 
   // --- Init ---
   useEffect(() => {
     loadHistory();
   }, []);
 
+  // Background production: picks up queued (and interrupted) jobs from previous sessions automatically
+  const executeJobRef = useRef<(job: ProductionJob) => Promise<void>>();
+  executeJobRef.current = (job) => runProductionJob(job, {
+    apiKey: process.env.API_KEY || '',
+    updateScene: updateSceneStatus,
+  });
+
+  useEffect(() => {
+    const unsubscribe = subscribeQueue(setQueue);
+    const stop = startJobRunner(job => executeJobRef.current!(job));
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, []);
+
+  useEffect(() => subscribeHistory(() => setHistoryVersion(v => v + 1)), []);
+
+  // Undo / Redo shortcuts (plain inputs such as model names keep the browser's own undo)
+  const shortcutRef = useRef<(e: KeyboardEvent) => void>();
+  shortcutRef.current = (e) => {
+    if (!project || showPlayer || !(e.ctrlKey || e.metaKey)) return;
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      handleUndo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      handleRedo();
+    }
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutRef.current!(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
   const loadHistory = () => {
     const history = getProjectsFromStorage();
     setSavedProjects(history);
+    // Rebuild media URLs from IndexedDB (thumbnails)
+    Promise.all(history.map(hydrateProjectMedia))
+      .then(setSavedProjects)
+      .catch(e => console.error("Failed to load project media", e));
   };
 
   // --- Helpers ---
@@ -67,7 +176,10 @@ const App: React.FC = () => {
     return false;
   };
 
-  const checkApiKeyBeforeAction = async (): Promise<boolean> => {
+  const checkApiKeyBeforeAction = async (providers: ProjectProviders): Promise<boolean> => {
+      // Self-hosted HTTP backends don't need the Gemini key
+      if (!needsGeminiKey(providers)) return true;
+
       const ready = await ensureApiKey();
       const currentKey = process.env.API_KEY;
       
@@ -89,8 +201,10 @@ const App: React.FC = () => {
     }))
   });
 
-  const handleSelectProject = (p: Project) => {
-    setProject(cleanupProjectState(p));
+  const handleSelectProject = async (p: Project) => {
+    flushPendingSave();
+    const hydrated = await hydrateProjectMedia(p);
+    setProject(cleanupProjectState(hydrated));
   };
 
   // Save current project state to local storage wrapper
@@ -100,18 +214,94 @@ const App: React.FC = () => {
     loadHistory(); // Refresh list
   };
 
-  const updateSceneStatus = (sceneId: string, updates: Partial<Scene>) => {
+  // --- Editing (undoable) ---
+  // Edits update the editor immediately; storage is written once typing pauses.
+  // The timer saves whatever the editor holds by then, including scene updates from jobs.
+
+  const latestProjectRef = useRef<Project | null>(null);
+  latestProjectRef.current = project;
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const flushPendingSave = () => {
+    if (saveTimerRef.current === undefined) return;
+    clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = undefined;
+    if (latestProjectRef.current) saveProjectToStorage(latestProjectRef.current);
+    loadHistory();
+  };
+
+  const scheduleSave = () => {
+    clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(flushPendingSave, 400);
+  };
+
+  useEffect(() => {
+    const onUnload = () => flushPendingSave();
+    window.addEventListener('beforeunload', onUnload);
+    return () => window.removeEventListener('beforeunload', onUnload);
+  }, []);
+
+  // Last chance to catch misquoted scripture before quota is spent on it; true to go ahead
+  const confirmReviewedScenes = (sceneIds: string[]): boolean => {
+    const scenes = latestProjectRef.current?.scenes.filter(s => sceneIds.includes(s.id)) || [];
+    const unreviewed = scenes.filter(s => getReviewStatus(s) === 'pending').length;
+    const flagged = scenes.filter(s => getReviewStatus(s) === 'flagged').length;
+    if (unreviewed + flagged === 0) return true;
+    const issues = [
+      flagged > 0 ? `${flagged} 个分镜有出处有误或未找到出处的引文` : '',
+      unreviewed > 0 ? `${unreviewed} 个分镜尚未完成经文核查` : '',
+    ].filter(Boolean).join('，');
+    return confirm(`${issues}。\n仍要生成素材吗？`);
+  };
+
+  // Jobs read the project back from storage, so edits still waiting on the debounce are saved first.
+  // False when the user stopped at the review check.
+  const queueJobs = (projectId: string, requests: JobRequest[]): boolean => {
+    if (!confirmReviewedScenes(requests.map(r => r.sceneId))) return false;
+    flushPendingSave();
+    enqueueJobs(projectId, requests);
+    return true;
+  };
+
+  const runEdit = (command: EditCommand) => {
+    if (!project) return;
+    setProject(command.apply(project));
+    scheduleSave();
+    recordEdit(project.id, command);
+  };
+
+  const handleUndo = () => {
+    if (!project) return;
+    const command = undoEdit(project.id);
+    if (!command) return;
+    setProject(command.revert(project));
+    scheduleSave();
+  };
+
+  const handleRedo = () => {
+    if (!project) return;
+    const command = redoEdit(project.id);
+    if (!command) return;
+    setProject(command.apply(project));
+    scheduleSave();
+  };
+
+  const handleCloseProject = () => {
+    flushPendingSave();
+    setProject(null);
+  };
+
+  // Jobs may finish for a project that isn't open, so persistent changes go straight to storage
+  const updateSceneStatus: SceneUpdater = (projectId, sceneId, updates) => {
     setProject(prev => {
-      if (!prev) return null;
-      const updatedScenes = prev.scenes.map(s => s.id === sceneId ? { ...s, ...updates } : s);
-      const updatedProject = { ...prev, scenes: updatedScenes };
-      // Save on significant status updates
-      if (updates.audioUrl || updates.videoUrl || updates.imageUrl) {
-         saveProjectToStorage(updatedProject);
-         loadHistory();
-      }
-      return updatedProject;
+      if (!prev || prev.id !== projectId) return prev;
+      return { ...prev, scenes: prev.scenes.map(s => s.id === sceneId ? mergeSceneUpdates(s, updates) : s) };
     });
+    // Save on significant status updates
+    if (updates.audioAssetId || updates.videoAssetId || updates.imageAssetId || updates.errors || updates.takes || updates.subtitleTimings) {
+      updateStoredScene(projectId, sceneId, updates);
+      loadHistory();
+    }
   };
 
   const getAudienceLabel = (aud: string) => {
@@ -138,61 +328,87 @@ const App: React.FC = () => {
   const handleDeleteProject = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     if(confirm('确定要删除这个作品吗？')) {
-      const updated = deleteProjectFromStorage(id);
-      setSavedProjects(updated);
+      removeProjectJobs(id);
+      clearHistory(id);
+      deleteProjectFromStorage(id);
+      loadHistory();
     }
   };
 
   // --- Export / Import Functions ---
 
-  const handleExportProject = (e: React.MouseEvent, p: Project) => {
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const downloadAnchorNode = document.createElement('a');
+    downloadAnchorNode.setAttribute("href", url);
+    downloadAnchorNode.setAttribute("download", filename);
+    document.body.appendChild(downloadAnchorNode);
+    downloadAnchorNode.click();
+    downloadAnchorNode.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleExportProject = async (e: React.MouseEvent, p: Project) => {
     e.stopPropagation();
     try {
-      const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(p));
-      const downloadAnchorNode = document.createElement('a');
-      downloadAnchorNode.setAttribute("href", dataStr);
-      downloadAnchorNode.setAttribute("download", `${p.title || 'ZenProject'}_${new Date().toISOString().slice(0,10)}.json`);
-      document.body.appendChild(downloadAnchorNode);
-      downloadAnchorNode.click();
-      downloadAnchorNode.remove();
+      const bundle = await exportProjectBundle(p);
+      downloadBlob(bundle, `${p.title || 'ZenProject'}_${new Date().toISOString().slice(0,10)}.zip`);
     } catch (err) {
       console.error(err);
       alert("导出失败");
     }
   };
 
-  const handleImportProject = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const handleExportSubtitles = (format: SubtitleFormat) => {
+    if (!project) return;
+    const title = project.title || 'ZenProject';
+    downloadBlob(exportSubtitles(project.scenes, format, title, project.cast, getProjectAspectRatio(project), getProjectSubtitleStyle(project), project.secondaryLanguage), `${title}.${format}`);
+  };
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const json = JSON.parse(event.target?.result as string);
-        // Basic Validation
-        if (!json.scenes || !Array.isArray(json.scenes)) {
-          alert("文件格式错误：这不是一个有效的 ZenCreate 项目文件。");
-          return;
-        }
+  // Legacy format: bare project JSON without media
+  const importProjectJson = async (file: File): Promise<Project> => {
+    let json: any;
+    try {
+      json = JSON.parse(await file.text());
+    } catch (err) {
+      throw new BundleFormatError("文件解析错误。");
+    }
+    // Basic Validation
+    if (!json.scenes || !Array.isArray(json.scenes)) {
+      throw new BundleFormatError("文件格式错误：这不是一个有效的 ZenCreate 项目文件。");
+    }
 
-        // Create a new ID to avoid collisions, but keep content
-        const newProject: Project = {
-          ...json,
-          id: `proj-${Date.now()}-${Math.floor(Math.random()*1000)}`,
-          updatedAt: Date.now()
-        };
-
-        saveProjectToStorage(newProject);
-        loadHistory();
-        alert(`成功导入作品："${newProject.title}"`);
-      } catch (err) {
-        console.error(err);
-        alert("导入失败：文件解析错误。");
-      }
+    // Create a new ID to avoid collisions, but keep content
+    return {
+      ...json,
+      id: `proj-${Date.now()}-${Math.floor(Math.random()*1000)}`,
+      updatedAt: Date.now()
     };
-    reader.readAsText(file);
+  };
+
+  const handleImportProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
     // Reset value to allow re-importing same file
     e.target.value = '';
+
+    try {
+      let newProject: Project;
+      let issues: BundleIssue[] = [];
+      if (await isBundleFile(file)) {
+        ({ project: newProject, issues } = await importProjectBundle(file));
+      } else {
+        newProject = await importProjectJson(file);
+      }
+
+      saveProjectToStorage(newProject);
+      loadHistory();
+      setImportReport({ fileName: file.name, title: newProject.title, issues });
+    } catch (err: any) {
+      console.error(err);
+      const reason = err instanceof BundleFormatError ? err.message : "文件解析错误。";
+      setImportReport({ fileName: file.name, error: reason, issues: [] });
+    }
   };
 
   // --- Automation Workflow ---
@@ -202,7 +418,7 @@ const App: React.FC = () => {
     if (inputMode === 'TOPIC' && !inputTopic) return;
     if (inputMode === 'SCRIPT' && !inputScript) return;
     
-    if (!(await checkApiKeyBeforeAction())) return;
+    if (!(await checkApiKeyBeforeAction(providerSettings))) return;
     const currentApiKey = process.env.API_KEY || '';
 
     setIsBusy(true);
@@ -210,11 +426,16 @@ const App: React.FC = () => {
     setAutoProgress({ current: 0, total: 1, status: `${modeLabel} (Processing Script)...` });
 
     try {
+      const { script } = resolveProviders(providerSettings, currentApiKey);
+      const namedCast = cast.filter(c => c.name.trim());
+      const scriptCast = namedCast.length > 0 ? namedCast.map(({ name, description }) => ({ name, description })) : undefined;
+      // Left out for the default language so earlier recordings still replay
+      const scriptLanguage = language === DEFAULT_LANGUAGE ? undefined : language;
       let result;
       if (inputMode === 'TOPIC') {
-         result = await generateScript(inputTopic, targetAudience, targetDuration, characterDesc, artStyle, currentApiKey);
+         result = await script.generateScript({ topic: inputTopic, audience: targetAudience, durationMinutes: targetDuration, globalCharacter: characterDesc, globalStyle: artStyle, cast: scriptCast, language: scriptLanguage });
       } else {
-         result = await parseUserScript(inputScript, characterDesc, artStyle, currentApiKey);
+         result = await script.parseUserScript({ rawScript: inputScript, globalCharacter: characterDesc, globalStyle: artStyle, cast: scriptCast, language: scriptLanguage });
       }
       
       const newScenes: Scene[] = result.scenes.map((s, idx) => ({
@@ -235,17 +456,33 @@ const App: React.FC = () => {
         coreValue: 'Compassion',
         globalCharacter: characterDesc,
         globalStyle: artStyle,
+        narratorVoice: selectedVoice,
+        aspectRatio,
+        language,
+        cast: namedCast.length > 0 ? namedCast : undefined,
+        providers: providerSettings,
         scenes: newScenes
       };
       
-      persistProject(newProject);
+      // Quotations are checked before anything is produced; the script is kept if the review fails
+      setAutoProgress({ current: 0, total: 1, status: '正在核查经文引用 (Reviewing)...' });
+      let reviewedProject = newProject;
+      try {
+        const reviews = await reviewScenes(script, newProject, await getSutraTexts());
+        reviewedProject = setReviewsCommand(newProject, reviews).apply(newProject);
+      } catch (e) {
+        console.warn("Doctrinal review failed; it can be run again from the editor", e);
+      }
+
+      persistProject(reviewedProject);
       
       setAutoProgress(null);
       // We stop here to let user edit.
 
     } catch (error) {
       console.error(error);
-      alert("脚本处理失败，请检查网络或 API Key 设置。");
+      const detail = error instanceof GenerationError ? `\n\n${ERROR_KIND_LABELS[error.kind]}：${error.message}` : '';
+      alert(`脚本处理失败，请检查网络或 API Key 设置。${detail}`);
       setAutoProgress(null);
     } finally {
       setIsBusy(false);
@@ -254,171 +491,347 @@ const App: React.FC = () => {
 
   /**
    * STEP 2 & 3: Production Phase
+   * Queues per-scene jobs; the background runner does the work so the editor stays usable.
    */
   const handleStartProduction = async () => {
     if (!project) return;
 
-    if (!(await checkApiKeyBeforeAction())) return;
-    const currentApiKey = process.env.API_KEY || '';
-    
-    setIsBusy(true);
-    
-    const audioTasks = project.scenes.filter(s => !s.audioUrl);
-    const visualTasks = project.scenes.filter(s => !s.videoUrl && !s.imageUrl);
-    
-    const totalSteps = audioTasks.length + visualTasks.length;
-    let currentStep = 0;
-    
-    let failedCount = 0;
-    let lastError = '';
-    let videoQuotaExhausted = false; 
-    
-    // --- PHASE 1: AUDIO GENERATION ---
-    for (let i = 0; i < audioTasks.length; i++) {
-        const s = audioTasks[i];
-        const sceneId = s.id;
-        const sceneNum = project.scenes.findIndex(sc => sc.id === s.id) + 1;
+    if (!(await checkApiKeyBeforeAction(getProjectProviders(project)))) return;
 
-        currentStep++;
-        setAutoProgress({ current: currentStep, total: totalSteps, status: `[1/2 配音制作] 场景 ${sceneNum}...` });
-        updateSceneStatus(sceneId, { isGeneratingAudio: true });
+    const requests: JobRequest[] = [
+      // Blank scenes (just inserted) wait until they have text
+      ...project.scenes.filter(s => !s.audioUrl && s.narration.trim()).map(s => ({ sceneId: s.id, kind: 'AUDIO' as const })),
+      ...project.scenes.filter(s => !s.videoUrl && !s.imageUrl && s.visualPrompt.trim()).map(s => ({ sceneId: s.id, kind: 'VISUAL' as const, visualMode: productionMode })),
+    ];
+    if (requests.length === 0) {
+      setShowPlayer(true);
+      return;
+    }
 
-        try {
-             if (i > 0) await new Promise(r => setTimeout(r, 500));
-             const res = await generateSceneAudio(s.narration, selectedVoice, currentApiKey);
-             updateSceneStatus(sceneId, { audioUrl: res.url, audioDuration: res.duration, isGeneratingAudio: false });
-        } catch(e: any) {
-             console.error("Audio Failed", e);
-             lastError = e.message || 'Unknown Audio Error';
-             updateSceneStatus(sceneId, { isGeneratingAudio: false });
-             failedCount++;
-        }
+    if (queueJobs(project.id, requests)) setQueuePaused(false);
+  };
+
+  const handleRetryJob = (job: ProductionJob) => {
+    queueJobs(job.projectId, [{ sceneId: job.sceneId, kind: job.kind, visualMode: job.visualMode }]);
+  };
+
+  // --- Voices ---
+
+  const handleSetProjectVoice = (voiceName: string) => {
+    if (!project) return;
+    runEdit(projectFieldsCommand('更改旁白声音', { narratorVoice: project.narratorVoice }, { narratorVoice: voiceName }));
+  };
+
+  // Existing visuals keep their framing (they're cropped to the new frame); new ones follow it
+  const handleSetAspectRatio = (next: AspectRatio) => {
+    if (!project) return;
+    runEdit(projectFieldsCommand('更改画面比例', { aspectRatio: project.aspectRatio }, { aspectRatio: next }));
+  };
+
+  const handleUpdateCast = (next: CastMember[]) => {
+    if (!project) return;
+    runEdit(projectFieldsCommand('编辑角色', { cast: project.cast }, { cast: next }, { coalesceKey: 'cast' }));
+  };
+
+  const handleUpdateBgm = (next: ProjectBgm) => {
+    if (!project) return;
+    runEdit(projectFieldsCommand('更改背景音乐', { bgm: project.bgm }, { bgm: next }, { coalesceKey: 'bgm' }));
+  };
+
+  const handleUpdateSubtitleStyle = (next: SubtitleStyle) => {
+    if (!project) return;
+    runEdit(projectFieldsCommand('更改字幕样式', { subtitleStyle: project.subtitleStyle }, { subtitleStyle: next }, { coalesceKey: 'subtitleStyle' }));
+  };
+
+  const handleSetSceneVoice = (sceneId: string, voiceName: string | undefined) => {
+    const scene = project?.scenes.find(s => s.id === sceneId);
+    if (!scene) return;
+    runEdit(sceneFieldsCommand('更改分镜声音', sceneId, { voiceName: scene.voiceName }, { voiceName }));
+  };
+
+  // --- Transitions ---
+
+  const handleSetTransition = (sceneId: string, transition: SceneTransition | undefined) => {
+    const scene = project?.scenes.find(s => s.id === sceneId);
+    if (!scene) return;
+    runEdit(sceneFieldsCommand('更改转场', sceneId, { transition: scene.transition }, { transition }));
+  };
+
+  const handleSetAllTransitions = (type: TransitionType) => {
+    if (!project) return;
+    runEdit(setAllTransitionsCommand(project, { ...DEFAULT_TRANSITION, type }));
+  };
+
+  // --- Ken Burns ---
+
+  const handleSetKenBurns = (sceneId: string, kenBurns: KenBurnsConfig | undefined) => {
+    const scene = project?.scenes.find(s => s.id === sceneId);
+    if (!scene) return;
+    runEdit(sceneFieldsCommand('更改镜头运动', sceneId, { kenBurns: scene.kenBurns }, { kenBurns }));
+  };
+
+  const handleToggleAutoVaryMotion = () => {
+    if (!project) return;
+    runEdit(projectFieldsCommand(
+      project.autoVaryMotion ? '关闭镜头自动变换' : '开启镜头自动变换',
+      { autoVaryMotion: project.autoVaryMotion },
+      { autoVaryMotion: !project.autoVaryMotion }
+    ));
+  };
+
+  // Re-voice every scene whose audio wasn't made with the voice it should have now
+  const handleRevoiceMismatched = () => {
+    if (!project) return;
+    const mismatched = project.scenes.filter(s => hasVoiceMismatch(project, s) && s.narration.trim());
+    if (mismatched.length === 0) return;
+    if (!confirm(`将用当前设定的声音重新生成 ${mismatched.length} 个分镜的配音（旧配音保留为历史版本）。继续吗？`)) return;
+    if (queueJobs(project.id, mismatched.map(s => ({ sceneId: s.id, kind: 'AUDIO' as const })))) setQueuePaused(false);
+  };
+
+  // Measure subtitle timings for audio that predates them or whose text was edited since
+  const handleAlignSubtitles = async () => {
+    if (!project) return;
+    const unaligned = project.scenes.filter(s => s.audioUrl && !hasCurrentTimings(s, project.cast));
+    setIsAligningSubtitles(true);
+    try {
+      for (const scene of unaligned) {
+        await alignSceneSubtitles(project.id, scene, project.cast, updateSceneStatus);
+      }
+    } finally {
+      setIsAligningSubtitles(false);
     }
+  };
 
-    // --- PHASE 2: VISUAL GENERATION ---
-    for (let i = 0; i < visualTasks.length; i++) {
-       const s = visualTasks[i];
-       const sceneId = s.id;
-       const sceneNum = project.scenes.findIndex(sc => sc.id === s.id) + 1;
-       
-       currentStep++;
-       
-       // Determine mode: Video or Image?
-       // If Video mode selected BUT quota exhausted, force Image.
-       const useVideo = productionMode === 'VIDEO' && !videoQuotaExhausted;
-       const statusMode = useVideo ? '视频' : '图片';
-
-       setAutoProgress({ current: currentStep, total: totalSteps, status: `[2/2 ${statusMode}制作] 场景 ${sceneNum}...` });
-       
-       if (useVideo) {
-           // --- TRY VIDEO GENERATION ---
-           updateSceneStatus(sceneId, { isGeneratingVideo: true });
-           try {
-             if (i > 0) await new Promise(r => setTimeout(r, 4000));
-             const url = await generateSceneVideo(s.visualPrompt, currentApiKey, videoModel);
-             updateSceneStatus(sceneId, { videoUrl: url, isGeneratingVideo: false });
-           } catch(e: any) {
-             const errStr = (e.message || '') + JSON.stringify(e);
-             if (errStr.includes('429') || errStr.includes('RESOURCE_EXHAUSTED')) {
-                 console.warn("Veo Quota Exhausted during fix. Switching to Image.");
-                 videoQuotaExhausted = true;
-             }
-             
-             console.warn("Fix Video Failed, trying Image fallback...");
-             try {
-                const imgUrl = await generateSceneImage(s.visualPrompt, currentApiKey);
-                updateSceneStatus(sceneId, { imageUrl: imgUrl, isGeneratingVideo: false });
-             } catch(imgE: any) {
-                lastError = imgE.message || 'Unknown Visual Error';
-                updateSceneStatus(sceneId, { isGeneratingVideo: false });
-                failedCount++;
-             }
-           }
-       } else {
-           // --- IMAGE ONLY MODE ---
-           updateSceneStatus(sceneId, { isGeneratingImage: true });
-           try {
-              if (i > 0) await new Promise(r => setTimeout(r, 1000)); // Lighter delay
-              const imgUrl = await generateSceneImage(s.visualPrompt, currentApiKey);
-              updateSceneStatus(sceneId, { imageUrl: imgUrl, isGeneratingImage: false });
-           } catch (imgE: any) {
-              lastError = imgE.message || 'Unknown Visual Error';
-              updateSceneStatus(sceneId, { isGeneratingImage: false });
-              failedCount++;
-           }
-       }
+  const handleUpdateLexicon = (entries: LexiconEntry[]) => {
+    setLexicon(entries);
+    saveLexicon(entries);
+  };
+
+  const handleSetSecondaryLanguage = (secondaryLanguage: NarrationLanguage | undefined) => {
+    if (!project) return;
+    runEdit(projectFieldsCommand('设置双语字幕', { secondaryLanguage: project.secondaryLanguage }, { secondaryLanguage }));
+  };
+
+  const handleTranslate = async () => {
+    if (!project?.secondaryLanguage) return;
+    const projectProviders = getProjectProviders(project);
+    if (!(await checkApiKeyBeforeAction(projectProviders))) return;
+    setIsTranslating(true);
+    try {
+      const { script } = resolveProviders(projectProviders, process.env.API_KEY || '');
+      const translations = await translateScenes(script, project, project.secondaryLanguage);
+      if (translations.size > 0) runEdit(setTranslationsCommand(project, translations));
+    } catch (error) {
+      console.error(error);
+      const detail = error instanceof GenerationError ? `\n\n${ERROR_KIND_LABELS[error.kind]}：${error.message}` : '';
+      alert(`译文生成失败。${detail}`);
+    } finally {
+      setIsTranslating(false);
     }
+  };
 
-    setIsBusy(false);
-    setAutoProgress(null);
-    
-    if (failedCount > 0) {
-        alert(`生成结束，但仍有 ${failedCount} 个项目失败。\n\n原因: ${lastError}\n\n建议稍作休息后再试。`);
-    } else {
-        // All good, auto play
-        setShowPlayer(true);
+  const handleUpdateTranslation = (scene: Scene, value: string) => {
+    if (!project?.secondaryLanguage) return;
+    const translation = { language: project.secondaryLanguage, narration: scene.narration, lines: value.split('\n') };
+    runEdit(sceneFieldsCommand('编辑译文', scene.id, { translation: scene.translation }, { translation }, { coalesceKey: `${scene.id}:translation` }));
+  };
+
+  const handleReview = async () => {
+    if (!project) return;
+    const projectProviders = getProjectProviders(project);
+    if (!(await checkApiKeyBeforeAction(projectProviders))) return;
+    setIsReviewing(true);
+    try {
+      const { script } = resolveProviders(projectProviders, process.env.API_KEY || '');
+      const reviews = await reviewScenes(script, project, await getSutraTexts());
+      if (reviews.size > 0) runEdit(setReviewsCommand(project, reviews));
+    } catch (error) {
+      console.error(error);
+      const detail = error instanceof GenerationError ? `\n\n${ERROR_KIND_LABELS[error.kind]}：${error.message}` : '';
+      alert(`经文核查失败。${detail}`);
+    } finally {
+      setIsReviewing(false);
     }
   };
 
+  // The corpus changed: match the quotations already found against it again (no model call)
+  const handleCorpusChange = async () => {
+    if (!project) return;
+    const reviews = recheckQuotes(project, await getSutraTexts());
+    if (reviews.size > 0) runEdit(setReviewsCommand(project, reviews, '重新比对引文'));
+  };
+
+  const handleApproveReview = (scene: Scene, approved: boolean) => {
+    if (!scene.review) return;
+    runEdit(sceneFieldsCommand(approved ? '确认经文核查' : '取消经文核查确认', scene.id, { review: scene.review }, { review: { ...scene.review, approved } }));
+  };
+
+  // Re-queue only the assets that failed and are still missing
+  const handleRetryFailed = () => {
+    if (!project) return;
+    const failed = (scene: Scene) => scene.errors || {};
+    const requests: JobRequest[] = [
+      ...project.scenes.filter(s => failed(s).audio && !s.audioUrl)
+        .map(s => ({ sceneId: s.id, kind: 'AUDIO' as const })),
+      ...project.scenes.filter(s => (failed(s).video || failed(s).image) && !s.videoUrl && !s.imageUrl)
+        .map(s => ({ sceneId: s.id, kind: 'VISUAL' as const, visualMode: productionMode })),
+    ];
+    if (requests.length === 0) return;
+    if (queueJobs(project.id, requests)) setQueuePaused(false);
+  };
+
+  const handleRetryDeferredNow = (projectId: string) => {
+    clearExhausted();
+    retryDeferredNow(projectId);
+  };
+
   // --- Manual Actions ---
 
   const handleManualAction = async (sceneId: string, type: 'AUDIO' | 'VIDEO' | 'IMAGE') => {
     if (!project) return;
     
+    const projectProviders = getProjectProviders(project);
     if (type !== 'AUDIO') {
-        if (!(await checkApiKeyBeforeAction())) return;
+        if (!(await checkApiKeyBeforeAction(projectProviders))) return;
     }
     const currentApiKey = process.env.API_KEY || '';
 
     const scene = project.scenes.find(s => s.id === sceneId);
     if (!scene) return;
+    if (!confirmReviewedScenes([sceneId])) return;
 
+    const update = updateSceneStatus;
+    const aspectRatio = getProjectAspectRatio(project);
+    // Which asset a failure belongs to; the video path may switch to an image
+    let failedKind: MediaKind = type === 'AUDIO' ? 'audio' : type === 'VIDEO' ? 'video' : 'image';
     try {
+      const providers = resolveProviders(projectProviders, currentApiKey);
+
       if (type === 'AUDIO') {
-        updateSceneStatus(sceneId, { isGeneratingAudio: true });
-        const res = await generateSceneAudio(scene.narration, selectedVoice, currentApiKey);
-        updateSceneStatus(sceneId, { audioUrl: res.url, audioDuration: res.duration, isGeneratingAudio: false });
+        update(project.id, sceneId, { isGeneratingAudio: true });
+        const voiceName = getSceneVoice(project, scene);
+        const res = await synthesizeNarration(providers.tts, scene.narration, project.cast, voiceName, getProjectLanguage(project));
+        const subtitleTimings = await measureSubtitleTimings(res.url, scene.narration, project.cast);
+        await attachSceneMedia(project.id, scene, 'audio', res.url, { audioDuration: res.duration, subtitleTimings, isGeneratingAudio: false }, update,
+          takeSource(projectProviders.tts, scene.narration, voiceName, res.speakerVoices));
       } 
       else if (type === 'VIDEO') {
-        updateSceneStatus(sceneId, { isGeneratingVideo: true });
+        update(project.id, sceneId, { isGeneratingVideo: true });
         try {
-           const url = await generateSceneVideo(scene.visualPrompt, currentApiKey, videoModel);
-           updateSceneStatus(sceneId, { videoUrl: url, isGeneratingVideo: false });
+           const url = await providers.video.generateVideo(scene.visualPrompt, aspectRatio);
+           await attachSceneMedia(project.id, scene, 'video', url, { isGeneratingVideo: false }, update,
+             takeSource(projectProviders.video, scene.visualPrompt));
         } catch (e: any) {
-           const errStr = (e.message || '') + JSON.stringify(e);
-           const isQuota = errStr.includes('429') || errStr.includes('RESOURCE_EXHAUSTED');
-           
-           const msg = isQuota 
-              ? "视频生成配额已用完 (Quota Exceeded)。\n\n是否切换为生成图片？" 
+           const msg = e instanceof QuotaExhaustedError
+              ? `视频生成配额已用完 (Quota Exceeded)，预计 ${new Date(e.resetAt).toLocaleTimeString()} 恢复。\n\n是否切换为生成图片？`
+              : isQuotaError(e)
+              ? "视频生成配额已用完 (Quota Exceeded)。\n\n是否切换为生成图片？"
               : "视频生成失败。\n\n是否尝试生成图片代替？";
 
            if(confirm(msg)) {
-              const imgUrl = await generateSceneImage(scene.visualPrompt, currentApiKey);
-              updateSceneStatus(sceneId, { imageUrl: imgUrl, isGeneratingVideo: false });
+              recordSceneError(project.id, sceneId, 'video', e, {}, update);
+              failedKind = 'image';
+              const imgUrl = await providers.image.generateImage(scene.visualPrompt, aspectRatio);
+              await attachSceneMedia(project.id, scene, 'image', imgUrl, { isGeneratingVideo: false }, update,
+                takeSource(projectProviders.image, scene.visualPrompt));
            } else {
               throw e;
            }
         }
       }
       else if (type === 'IMAGE') {
-        updateSceneStatus(sceneId, { isGeneratingImage: true });
-        const url = await generateSceneImage(scene.visualPrompt, currentApiKey);
-        updateSceneStatus(sceneId, { imageUrl: url, isGeneratingImage: false });
+        update(project.id, sceneId, { isGeneratingImage: true });
+        const url = await providers.image.generateImage(scene.visualPrompt, aspectRatio);
+        await attachSceneMedia(project.id, scene, 'image', url, { isGeneratingImage: false }, update,
+          takeSource(projectProviders.image, scene.visualPrompt));
       }
     } catch (e: any) {
       console.error(e);
-      alert(`${type} 生成失败: ${e.message}`);
-      updateSceneStatus(sceneId, { isGeneratingAudio: false, isGeneratingVideo: false, isGeneratingImage: false });
+      recordSceneError(project.id, sceneId, failedKind, e, { isGeneratingAudio: false, isGeneratingVideo: false, isGeneratingImage: false }, update);
     }
   };
 
-  const handleUpdateText = (sceneId: string, field: 'narration' | 'visualPrompt', value: string) => {
+  // --- Takes ---
+
+  const handleSelectTake = (sceneId: string, kind: MediaKind, take: AssetTake) => {
+    const scene = project?.scenes.find(s => s.id === sceneId);
+    if (!scene) return;
+    const updates = selectTakeUpdates(kind, take);
+    const before = pickSceneFields(scene, updates);
+    const assetIds = [take.assetId, before.audioAssetId, before.imageAssetId, before.videoAssetId].filter((id): id is string => !!id);
+    runEdit(sceneFieldsCommand('切换素材版本', sceneId, before, updates, { assetIds }));
+  };
+
+  const handleDeleteTakes = (sceneId: string, kind: MediaKind, takeIds: string[]) => {
+    const scene = project?.scenes.find(s => s.id === sceneId);
+    if (!project || !scene) return;
+    const assetIds = (scene.takes?.[kind] || [])
+      .filter(t => takeIds.includes(t.id) && t.assetId)
+      .map(t => t.assetId!);
+    updateSceneStatus(project.id, sceneId, deleteTakes(scene, kind, takeIds));
+    forgetAssets(project.id, assetIds);
+  };
+
+  const handleUpdateProviders = (providers: ProjectProviders) => {
     if (!project) return;
-    const newScenes = project.scenes.map(s => s.id === sceneId ? { ...s, [field]: value } : s);
-    const updatedProject = { ...project, scenes: newScenes };
-    setProject(updatedProject);
-    saveProjectToStorage(updatedProject);
-    loadHistory();
+    persistProject({ ...project, providers });
+  };
+
+  // --- Scene Structure ---
+  // Queued work for text that no longer exists is cancelled; undo does not re-queue it,
+  // the next production run picks up whatever is missing.
+
+  const handleInsertScene = (index: number) => {
+    runEdit(insertSceneCommand(index));
+  };
+
+  const handleDeleteScene = (sceneId: string) => {
+    if (!project) return;
+    const scene = project.scenes.find(s => s.id === sceneId);
+    if (scene && (scene.narration || scene.audioUrl || scene.videoUrl || scene.imageUrl) && !confirm('确定删除这个分镜吗？（可撤销）')) return;
+    cancelSceneJobs(project.id, sceneId);
+    runEdit(deleteSceneCommand(project, sceneId));
+  };
+
+  const handleSplitScene = (sceneId: string) => {
+    if (!project) return;
+    const position = narrationCursorRef.current.get(sceneId);
+    const command = position !== undefined ? splitSceneCommand(project, sceneId, position) : null;
+    if (!command) {
+      alert('请先在旁白文字中点击要拆分的位置（两侧都需要有文字）。');
+      return;
+    }
+    cancelSceneJobs(project.id, sceneId, 'AUDIO');
+    runEdit(command);
+  };
+
+  const handleMergeWithNext = (sceneId: string) => {
+    if (!project) return;
+    const command = mergeWithNextCommand(project, sceneId);
+    if (!command) return;
+    const next = project.scenes[project.scenes.findIndex(s => s.id === sceneId) + 1];
+    cancelSceneJobs(project.id, sceneId, 'AUDIO');
+    cancelSceneJobs(project.id, next.id);
+    runEdit(command);
+  };
+
+  const handleDropScene = (targetIndex: number) => {
+    if (!project || !draggingSceneId) return;
+    const command = moveSceneCommand(project, draggingSceneId, targetIndex);
+    setDraggingSceneId(null);
+    if (command) runEdit(command);
+  };
+
+  const handleUpdateText = (sceneId: string, field: 'narration' | 'visualPrompt', value: string) => {
+    const scene = project?.scenes.find(s => s.id === sceneId);
+    if (!scene) return;
+    runEdit(sceneFieldsCommand(
+      field === 'narration' ? '编辑旁白' : '编辑画面描述',
+      sceneId,
+      { [field]: scene[field] },
+      { [field]: value },
+      { coalesceKey: `${sceneId}:${field}` }
+    ));
   };
 
   // --- Views ---
@@ -445,18 +858,94 @@ const App: React.FC = () => {
 
   // 2. Editor View
   if (project) {
+    const projectJobs = queue.jobs.filter(j => j.projectId === project.id);
+    const editHistory = getHistoryState(project.id);
+    const voiceMismatchCount = project.scenes.filter(s => hasVoiceMismatch(project, s) && s.narration.trim()).length;
+    const unalignedCount = project.scenes.filter(s => s.audioUrl && !hasCurrentTimings(s, project.cast)).length;
+    const secondaryLanguage = project.secondaryLanguage;
+    const untranslatedCount = secondaryLanguage ? project.scenes.filter(s => needsTranslation(s, secondaryLanguage)).length : 0;
+    const unreviewedCount = project.scenes.filter(needsReview).length;
+    const failedSceneCount = project.scenes.filter(s =>
+      (s.errors?.audio && !s.audioUrl) || ((s.errors?.video || s.errors?.image) && !s.videoUrl && !s.imageUrl)
+    ).length;
     return (
         <Layout title={project.title}>
             {showPlayer && (
-                <Player scenes={project.scenes} onClose={() => setShowPlayer(false)} />
+                <Player scenes={project.scenes} cast={project.cast} aspectRatio={getProjectAspectRatio(project)} autoVaryMotion={project.autoVaryMotion} bgm={getProjectBgm(project)} subtitleStyle={getProjectSubtitleStyle(project)} secondaryLanguage={project.secondaryLanguage} onClose={() => setShowPlayer(false)} />
             )}
+            {takePicker && (() => {
+                const sceneIndex = project.scenes.findIndex(s => s.id === takePicker.sceneId);
+                if (sceneIndex < 0) return null;
+                return (
+                    <TakePicker
+                        scene={project.scenes[sceneIndex]}
+                        sceneNumber={sceneIndex + 1}
+                        kinds={takePicker.kinds}
+                        onSelect={(kind, take) => handleSelectTake(takePicker.sceneId, kind, take)}
+                        onDelete={(kind, ids) => handleDeleteTakes(takePicker.sceneId, kind, ids)}
+                        onClose={() => setTakePicker(null)}
+                    />
+                );
+            })()}
 
             <div className="flex flex-wrap items-center justify-between gap-4 mb-6 bg-white p-4 rounded-xl border border-monk-200 shadow-sm">
-                <button onClick={() => setProject(null)} className="text-monk-500 hover:text-monk-800 flex items-center gap-2 text-sm font-bold">
+                <button onClick={handleCloseProject} className="text-monk-500 hover:text-monk-800 flex items-center gap-2 text-sm font-bold">
                     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
                     返回 (Back)
                 </button>
                 <div className="flex gap-3 items-center">
+                    {/* Narrator Voice */}
+                    <div className="relative">
+                        <select
+                            value={getProjectVoice(project)}
+                            onChange={(e) => handleSetProjectVoice(e.target.value)}
+                            className="appearance-none bg-monk-50 border border-monk-200 text-monk-700 text-sm rounded-lg pl-3 pr-8 py-2 focus:ring-monk-500 focus:border-monk-500 font-bold cursor-pointer hover:bg-monk-100"
+                            title="本作品的旁白声音（单个分镜可单独设置）"
+                        >
+                            {AVAILABLE_VOICES.map(voice => (
+                                <option key={voice.name} value={voice.name}>旁白：{getVoiceLabel(voice)}</option>
+                            ))}
+                        </select>
+                        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-monk-500">
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+                        </div>
+                    </div>
+                    {voiceMismatchCount > 0 && (
+                        <button onClick={handleRevoiceMismatched} className="border border-amber-300 text-amber-700 hover:bg-amber-50 px-3 py-2 rounded-lg text-sm font-bold" title="重新生成声音与设定不一致的配音">
+                            统一配音 ({voiceMismatchCount})
+                        </button>
+                    )}
+                    {unalignedCount > 0 && (
+                        <button
+                            onClick={handleAlignSubtitles}
+                            disabled={isAligningSubtitles}
+                            className="border border-monk-200 text-monk-600 hover:bg-monk-50 px-3 py-2 rounded-lg text-sm font-bold disabled:opacity-50"
+                            title="分析配音中的停顿，让字幕切换与语音对齐"
+                        >
+                            {isAligningSubtitles ? '对齐中…' : `对齐字幕 (${unalignedCount})`}
+                        </button>
+                    )}
+                    {untranslatedCount > 0 && (
+                        <button
+                            onClick={handleTranslate}
+                            disabled={isTranslating}
+                            className="border border-monk-200 text-monk-600 hover:bg-monk-50 px-3 py-2 rounded-lg text-sm font-bold disabled:opacity-50"
+                            title="为缺少译文或旁白已修改的分镜生成第二字幕"
+                        >
+                            {isTranslating ? '翻译中…' : `生成译文 (${untranslatedCount})`}
+                        </button>
+                    )}
+                    {unreviewedCount > 0 && (
+                        <button
+                            onClick={handleReview}
+                            disabled={isReviewing}
+                            className="border border-amber-300 text-amber-700 hover:bg-amber-50 px-3 py-2 rounded-lg text-sm font-bold disabled:opacity-50"
+                            title="找出旁白中的引文与教义表述，并与经文库比对出处"
+                        >
+                            {isReviewing ? '核查中…' : `经文核查 (${unreviewedCount})`}
+                        </button>
+                    )}
+
                     {/* Production Mode Selector */}
                     <div className="flex gap-2">
                         <div className="relative">
@@ -474,16 +963,16 @@ const App: React.FC = () => {
                             </div>
                         </div>
 
-                        {productionMode === 'VIDEO' && (
+                        {productionMode === 'VIDEO' && getProjectProviders(project).video.provider === 'gemini' && (
                              <div className="relative">
                                 <select 
-                                    value={videoModel}
-                                    onChange={(e) => setVideoModel(e.target.value)}
+                                    value={getProjectProviders(project).video.model}
+                                    onChange={(e) => handleUpdateProviders({ ...getProjectProviders(project), video: { provider: 'gemini', model: e.target.value } })}
                                     className="appearance-none bg-stone-50 border border-monk-200 text-monk-700 text-sm rounded-lg pl-3 pr-8 py-2 focus:ring-monk-500 focus:border-monk-500 font-bold cursor-pointer hover:bg-stone-100"
                                     title="选择视频模型版本"
                                 >
-                                    <option value="veo-3.1-fast-generate-preview">极速模式 (Veo Fast)</option>
-                                    <option value="veo-3.1-generate-preview">高画质 (Veo Quality)</option>
+                                    <option value={GEMINI_MODELS.video[0]}>极速模式 (Veo Fast)</option>
+                                    <option value={GEMINI_MODELS.video[1]}>高画质 (Veo Quality)</option>
                                 </select>
                                 <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-monk-500">
                                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
@@ -492,10 +981,126 @@ const App: React.FC = () => {
                         )}
                     </div>
 
+                    <div className="flex">
+                        <button
+                            onClick={handleUndo}
+                            disabled={!editHistory.undoLabel}
+                            className="text-sm px-3 py-2 rounded-l-lg border border-monk-200 text-monk-600 hover:bg-monk-50 disabled:text-stone-300 disabled:hover:bg-transparent"
+                            title={editHistory.undoLabel ? `撤销：${editHistory.undoLabel} (Ctrl+Z)` : '没有可撤销的操作'}
+                        >
+                            撤销
+                        </button>
+                        <button
+                            onClick={handleRedo}
+                            disabled={!editHistory.redoLabel}
+                            className="text-sm px-3 py-2 rounded-r-lg border border-l-0 border-monk-200 text-monk-600 hover:bg-monk-50 disabled:text-stone-300 disabled:hover:bg-transparent"
+                            title={editHistory.redoLabel ? `重做：${editHistory.redoLabel} (Ctrl+Shift+Z)` : '没有可重做的操作'}
+                        >
+                            重做
+                        </button>
+                    </div>
+
+                    <select
+                        value={getProjectAspectRatio(project)}
+                        onChange={(e) => handleSetAspectRatio(e.target.value as AspectRatio)}
+                        className="bg-white border border-monk-200 text-monk-600 text-sm rounded-lg px-2 py-2 font-bold"
+                        title="输出画面比例：决定生成的画面构图、预览与导出尺寸、字幕位置"
+                    >
+                        {(Object.keys(ASPECT_RATIOS) as AspectRatio[]).map(ratio => (
+                            <option key={ratio} value={ratio}>{ASPECT_RATIOS[ratio].label}</option>
+                        ))}
+                    </select>
+                    <select
+                        value=""
+                        onChange={(e) => { if (e.target.value) handleSetAllTransitions(e.target.value as TransitionType); }}
+                        className="bg-white border border-monk-200 text-monk-600 text-sm rounded-lg px-2 py-2 font-bold"
+                        title="为所有分镜之间设置同一种转场（可逐个调整）"
+                    >
+                        <option value="">统一转场…</option>
+                        {(Object.keys(TRANSITION_LABELS) as TransitionType[]).map(type => (
+                            <option key={type} value={type}>{TRANSITION_LABELS[type]}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={handleToggleAutoVaryMotion}
+                        className={`text-sm px-3 py-2 rounded-lg border font-bold ${project.autoVaryMotion ? 'bg-monk-100 border-monk-300 text-monk-800' : 'border-monk-200 text-monk-600 hover:bg-monk-50'}`}
+                        title="未单独设置镜头运动的图片分镜，依次使用推近、平移、拉远等不同运动"
+                    >
+                        镜头自动变换
+                    </button>
+                    <button
+                        onClick={() => setShowBgmPanel(v => !v)}
+                        className={`text-sm px-3 py-2 rounded-lg border font-bold ${showBgmPanel ? 'bg-monk-100 border-monk-300 text-monk-800' : 'border-monk-200 text-monk-600 hover:bg-monk-50'}`}
+                        title="本作品的背景音乐与本地音乐库"
+                    >
+                        背景音乐
+                    </button>
+                    <select
+                        value={secondaryLanguage || ''}
+                        onChange={(e) => handleSetSecondaryLanguage((e.target.value || undefined) as NarrationLanguage | undefined)}
+                        className="bg-white border border-monk-200 text-monk-600 text-sm rounded-lg px-2 py-2 font-bold"
+                        title="在旁白字幕下方显示译文，预览、导出视频与字幕文件都会包含"
+                    >
+                        <option value="">无双语字幕</option>
+                        {(Object.keys(LANGUAGES) as NarrationLanguage[]).filter(l => l !== getProjectLanguage(project)).map(l => (
+                            <option key={l} value={l}>双语：{LANGUAGES[l].label}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => setShowSubtitlePanel(v => !v)}
+                        className={`text-sm px-3 py-2 rounded-lg border font-bold ${showSubtitlePanel ? 'bg-monk-100 border-monk-300 text-monk-800' : 'border-monk-200 text-monk-600 hover:bg-monk-50'}`}
+                        title="字体、颜色、背景框、位置、竖排与逐字高亮；预览、导出视频与 ASS 字幕共用"
+                    >
+                        字幕样式
+                    </button>
+                    <button
+                        onClick={() => setShowLexiconPanel(v => !v)}
+                        className={`text-sm px-3 py-2 rounded-lg border font-bold ${showLexiconPanel ? 'bg-monk-100 border-monk-300 text-monk-800' : 'border-monk-200 text-monk-600 hover:bg-monk-50'}`}
+                        title="佛教词汇与多音字的读音，配音前自动替换（所有作品共用）"
+                    >
+                        读音词典
+                    </button>
+                    <button
+                        onClick={() => setShowCorpusPanel(v => !v)}
+                        className={`text-sm px-3 py-2 rounded-lg border font-bold ${showCorpusPanel ? 'bg-monk-100 border-monk-300 text-monk-800' : 'border-monk-200 text-monk-600 hover:bg-monk-50'}`}
+                        title="用于核对引文出处的本地经文（所有作品共用）"
+                    >
+                        经文库
+                    </button>
+                    <button
+                        onClick={() => setShowCastPanel(v => !v)}
+                        className={`text-sm px-3 py-2 rounded-lg border font-bold ${showCastPanel ? 'bg-monk-100 border-monk-300 text-monk-800' : 'border-monk-200 text-monk-600 hover:bg-monk-50'}`}
+                        title="对话角色及其声音"
+                    >
+                        角色{project.cast?.length ? ` (${project.cast.length})` : ''}
+                    </button>
+                    <button
+                        onClick={() => setShowProviderPanel(v => !v)}
+                        className={`text-sm px-3 py-2 rounded-lg border font-bold ${showProviderPanel ? 'bg-monk-100 border-monk-300 text-monk-800' : 'border-monk-200 text-monk-600 hover:bg-monk-50'}`}
+                        title="为本项目选择生成后端与模型"
+                    >
+                        后端设置
+                    </button>
+                    <select
+                        value=""
+                        onChange={(e) => { if (e.target.value) handleExportSubtitles(e.target.value as SubtitleFormat); }}
+                        className="bg-white border border-monk-200 text-monk-600 text-sm rounded-lg px-2 py-2 font-bold"
+                        title="按配音时长导出外挂字幕文件，用于剪映 / Premiere / B站 / YouTube"
+                    >
+                        <option value="">导出字幕…</option>
+                        <option value="srt">SRT (.srt)</option>
+                        <option value="vtt">WebVTT (.vtt)</option>
+                        <option value="ass">ASS (.ass，含样式)</option>
+                    </select>
                     <button onClick={() => setShowPlayer(true)} className="bg-monk-600 hover:bg-monk-700 text-white px-5 py-2 rounded-lg font-bold shadow-sm flex items-center gap-2">
                         <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z"/><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z"/></svg>
                         预览
                     </button>
+                    {failedSceneCount > 0 && (
+                        <button onClick={handleRetryFailed} className="border border-red-200 text-red-600 hover:bg-red-50 px-4 py-2 rounded-lg font-bold" title="只重新生成失败且缺失的素材">
+                            重试失败项 ({failedSceneCount})
+                        </button>
+                    )}
                     <button onClick={handleStartProduction} className="bg-amber-600 hover:bg-amber-700 text-white px-5 py-2 rounded-lg font-bold shadow-sm flex items-center gap-2">
                         <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19.428 15.428a2 2 0 00-1.022-.547l-2.384-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z"/></svg>
                         一键生成素材
@@ -503,9 +1108,109 @@ const App: React.FC = () => {
                 </div>
             </div>
 
+            <JobQueuePanel
+                jobs={projectJobs}
+                scenes={project.scenes}
+                paused={queue.paused}
+                onTogglePaused={() => setQueuePaused(!queue.paused)}
+                onCancelAll={() => cancelProjectJobs(project.id)}
+                onClearFinished={() => clearFinishedJobs(project.id)}
+                onPause={(sceneId) => pauseSceneJobs(project.id, sceneId)}
+                onResume={(sceneId) => resumeSceneJobs(project.id, sceneId)}
+                onCancel={(sceneId) => cancelSceneJobs(project.id, sceneId)}
+                onPrioritize={(sceneId) => prioritizeSceneJobs(project.id, sceneId)}
+                onRetry={handleRetryJob}
+                onSwitchDeferredToImage={() => switchDeferredToImage(project.id)}
+                onRetryDeferredNow={() => handleRetryDeferredNow(project.id)}
+            />
+
+            {showBgmPanel && (
+                <div className="mb-6 bg-white p-4 rounded-xl border border-monk-200 shadow-sm">
+                    <h4 className="text-sm font-bold text-monk-800 mb-3">背景音乐 (Music)</h4>
+                    <BgmPanel value={getProjectBgm(project)} onChange={handleUpdateBgm} />
+                </div>
+            )}
+
+            {showLexiconPanel && (
+                <div className="mb-6 bg-white p-4 rounded-xl border border-monk-200 shadow-sm">
+                    <h4 className="text-sm font-bold text-monk-800 mb-3">读音词典 (Pronunciation)</h4>
+                    <LexiconPanel value={lexicon} language={getProjectLanguage(project)} onChange={handleUpdateLexicon} />
+                </div>
+            )}
+
+            {showCorpusPanel && (
+                <div className="mb-6 bg-white p-4 rounded-xl border border-monk-200 shadow-sm">
+                    <h4 className="text-sm font-bold text-monk-800 mb-3">经文库 (Sutra Corpus)</h4>
+                    <SutraCorpusPanel onChange={handleCorpusChange} />
+                </div>
+            )}
+
+            {showSubtitlePanel && (
+                <div className="mb-6 bg-white p-4 rounded-xl border border-monk-200 shadow-sm">
+                    <h4 className="text-sm font-bold text-monk-800 mb-3">字幕样式 (Subtitles)</h4>
+                    <SubtitleStylePanel
+                        value={getProjectSubtitleStyle(project)}
+                        aspectRatio={getProjectAspectRatio(project)}
+                        sampleText={buildSubtitleTimeline(project.scenes, project.cast)[0]?.text}
+                        onChange={handleUpdateSubtitleStyle}
+                    />
+                </div>
+            )}
+
+            {showCastPanel && (
+                <div className="mb-6 bg-white p-4 rounded-xl border border-monk-200 shadow-sm">
+                    <h4 className="text-sm font-bold text-monk-800 mb-3">角色 (Cast)</h4>
+                    <CastEditor value={project.cast || []} onChange={handleUpdateCast} />
+                </div>
+            )}
+
+            {showProviderPanel && (
+                <div className="mb-6 bg-white p-4 rounded-xl border border-monk-200 shadow-sm">
+                    <h4 className="text-sm font-bold text-monk-800 mb-3">生成后端 (Providers)</h4>
+                    <ProviderSettings value={getProjectProviders(project)} onChange={handleUpdateProviders} />
+                    <h4 className="text-sm font-bold text-monk-800 mt-5 mb-3">速率限制 (Rate Limits)</h4>
+                    <RateLimitSettings />
+                </div>
+            )}
+
             <div className="space-y-6">
                 {project.scenes.map((scene, idx) => (
-                    <div key={scene.id} className="bg-white rounded-xl shadow-sm border border-monk-200 overflow-hidden flex flex-col md:flex-row">
+                    <React.Fragment key={scene.id}>
+                    {idx > 0 && (
+                        <div className="flex items-center justify-center gap-2 -my-3 text-xs text-monk-500">
+                            <span className="h-px w-12 bg-monk-200" />
+                            <span className="font-bold">转场</span>
+                            <select
+                                value={scene.transition?.type || 'cut'}
+                                onChange={(e) => {
+                                    const type = e.target.value as TransitionType;
+                                    handleSetTransition(scene.id, type === 'cut' ? undefined : { type, duration: scene.transition?.duration || DEFAULT_TRANSITION.duration });
+                                }}
+                                className="border border-monk-200 text-monk-600 rounded px-1 py-1 bg-white"
+                                title={`Scene ${idx} → Scene ${idx + 1}`}
+                            >
+                                {(Object.keys(TRANSITION_LABELS) as TransitionType[]).map(type => (
+                                    <option key={type} value={type}>{TRANSITION_LABELS[type]}</option>
+                                ))}
+                            </select>
+                            {scene.transition && scene.transition.type !== 'cut' && (
+                                <select
+                                    value={scene.transition.duration}
+                                    onChange={(e) => handleSetTransition(scene.id, { ...scene.transition!, duration: Number(e.target.value) })}
+                                    className="border border-monk-200 text-monk-600 rounded px-1 py-1 bg-white"
+                                    title="转场时长，前后两个分镜各占一半"
+                                >
+                                    {TRANSITION_DURATIONS.map(d => <option key={d} value={d}>{d} 秒</option>)}
+                                </select>
+                            )}
+                            <span className="h-px w-12 bg-monk-200" />
+                        </div>
+                    )}
+                    <div
+                        onDragOver={(e) => { if (draggingSceneId) e.preventDefault(); }}
+                        onDrop={(e) => { e.preventDefault(); handleDropScene(idx); }}
+                        className={`bg-white rounded-xl shadow-sm border overflow-hidden flex flex-col md:flex-row transition-opacity ${draggingSceneId === scene.id ? 'opacity-40 border-amber-300' : 'border-monk-200'}`}
+                    >
                         <div className="md:w-1/3 bg-stone-100 relative group min-h-[200px]">
                             {scene.videoUrl ? (
                                 <video src={scene.videoUrl} className="w-full h-full object-cover" controls muted />
@@ -526,6 +1231,15 @@ const App: React.FC = () => {
                                 </button>
                             </div>
 
+                            {takeCount(scene, ['video', 'image']) > 1 && (
+                                <button
+                                    onClick={() => setTakePicker({ sceneId: scene.id, kinds: ['video', 'image'] })}
+                                    className="absolute bottom-2 left-2 z-20 bg-black/60 text-white text-[10px] font-bold px-2 py-1 rounded hover:bg-black/80"
+                                >
+                                    画面版本 {takeCount(scene, ['video', 'image'])}
+                                </button>
+                            )}
+
                             {(scene.isGeneratingVideo || scene.isGeneratingImage) && (
                                 <div className="absolute inset-0 bg-black/70 flex items-center justify-center z-10">
                                     <div className="animate-spin rounded-full h-8 w-8 border-2 border-white border-t-transparent"></div>
@@ -535,9 +1249,52 @@ const App: React.FC = () => {
 
                         <div className="md:w-2/3 p-6 flex flex-col gap-4">
                             <div className="flex justify-between items-start">
-                                <span className="bg-monk-100 text-monk-700 text-xs font-bold px-2 py-1 rounded">Scene {idx + 1}</span>
                                 <div className="flex items-center gap-2">
+                                    <span
+                                        draggable
+                                        onDragStart={(e) => { e.dataTransfer.setData('text/plain', scene.id); e.dataTransfer.effectAllowed = 'move'; setDraggingSceneId(scene.id); }}
+                                        onDragEnd={() => setDraggingSceneId(null)}
+                                        className="bg-monk-100 text-monk-700 text-xs font-bold px-2 py-1 rounded cursor-grab active:cursor-grabbing"
+                                        title="拖动以调整顺序"
+                                    >
+                                        ⠿ Scene {idx + 1}
+                                    </span>
+                                    {projectJobs.filter(j => j.sceneId === scene.id && (isJobPending(j) || j.state === 'failed')).map(j => (
+                                        <JobStateBadge key={j.id} state={j.state} label={j.kind === 'AUDIO' ? '配音' : '画面'} />
+                                    ))}
+                                    {getReviewStatus(scene) === 'flagged' && (
+                                        <span className="text-[10px] font-bold px-2 py-0.5 rounded bg-red-100 text-red-600" title="有出处有误或未找到出处的引文，见旁白下方">
+                                            引文存疑
+                                        </span>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <select
+                                        value={scene.voiceName || ''}
+                                        onChange={(e) => handleSetSceneVoice(scene.id, e.target.value || undefined)}
+                                        className="text-xs border border-monk-200 text-monk-600 rounded px-1 py-1 bg-white"
+                                        title="本分镜的配音声音"
+                                    >
+                                        <option value="">默认 ({getProjectVoice(project)})</option>
+                                        {AVAILABLE_VOICES.map(voice => <option key={voice.name} value={voice.name}>{voice.name}</option>)}
+                                    </select>
+                                    {scene.audioUrl && (
+                                        <span
+                                            className={`text-[10px] font-bold px-2 py-0.5 rounded ${hasVoiceMismatch(project, scene) ? 'bg-amber-100 text-amber-700' : 'bg-stone-100 text-stone-500'}`}
+                                            title={hasVoiceMismatch(project, scene) ? `当前配音与设定声音 (${getSceneVoice(project, scene)}) 不一致` : getAudioVoice(scene) ? '当前配音所用声音' : '无法确定当前配音所用声音，如需统一请重新生成配音'}
+                                        >
+                                            声音：{getAudioVoice(scene) || '未知'}
+                                        </span>
+                                    )}
                                     {scene.audioUrl && <audio src={scene.audioUrl} controls className="h-6 w-32" />}
+                                    {takeCount(scene, ['audio']) > 1 && (
+                                        <button
+                                            onClick={() => setTakePicker({ sceneId: scene.id, kinds: ['audio'] })}
+                                            className="text-xs border border-monk-200 text-monk-600 px-2 py-1 rounded hover:bg-monk-50"
+                                        >
+                                            配音版本 {takeCount(scene, ['audio'])}
+                                        </button>
+                                    )}
                                     <button 
                                         onClick={() => handleManualAction(scene.id, 'AUDIO')}
                                         disabled={scene.isGeneratingAudio}
@@ -548,16 +1305,52 @@ const App: React.FC = () => {
                                 </div>
                             </div>
 
+                            {scene.errors && (
+                                <ul className="space-y-1">
+                                    {(['audio', 'video', 'image'] as MediaKind[]).filter(kind => scene.errors?.[kind]).map(kind => {
+                                        const err = scene.errors![kind]!;
+                                        return (
+                                            <li key={kind} className="text-xs bg-red-50 border border-red-100 text-red-600 rounded px-2 py-1 flex gap-2" title={err.message}>
+                                                <span className="font-bold shrink-0">{SCENE_ERROR_LABELS[kind]} · {ERROR_KIND_LABELS[err.kind]}</span>
+                                                <span className="truncate text-red-400">{err.message}</span>
+                                                <span className="shrink-0 text-red-300 ml-auto">{new Date(err.at).toLocaleTimeString()}</span>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            )}
+
                             <div>
                                 <label className="text-[10px] uppercase text-monk-300 font-bold tracking-wider">Narration</label>
-                                <textarea 
-                                    className="w-full border-l-2 border-monk-200 pl-3 py-1 text-lg font-serif text-monk-800 bg-transparent focus:outline-none resize-none"
-                                    rows={2}
+                                <NarrationField
                                     value={scene.narration}
-                                    onChange={(e) => handleUpdateText(scene.id, 'narration', e.target.value)}
+                                    lexicon={lexicon}
+                                    language={getProjectLanguage(project)}
+                                    onChange={(value) => handleUpdateText(scene.id, 'narration', value)}
+                                    onSelect={(caret) => narrationCursorRef.current.set(scene.id, caret)}
                                 />
                             </div>
 
+                            <ReviewNotes scene={scene} onApprove={(approved) => handleApproveReview(scene, approved)} />
+
+                            {secondaryLanguage && scene.narration.trim() && (
+                                <div>
+                                    <label className="text-[10px] uppercase text-monk-300 font-bold tracking-wider">
+                                        Translation · {LANGUAGES[secondaryLanguage].label}
+                                        {scene.translation && !hasCurrentTranslation(scene, secondaryLanguage) && (
+                                            <span className="ml-2 normal-case text-amber-600">旁白已修改，译文未显示，请重新生成或编辑</span>
+                                        )}
+                                    </label>
+                                    <textarea
+                                        className="w-full border-l-2 border-monk-100 pl-3 py-1 text-sm text-monk-600 bg-transparent focus:outline-none resize-none"
+                                        rows={Math.max(2, getSubtitleLines(scene, project.cast).length)}
+                                        placeholder={`每行对应一句字幕（共 ${getSubtitleLines(scene, project.cast).length} 句）`}
+                                        value={scene.translation?.language === secondaryLanguage ? scene.translation.lines.join('\n') : ''}
+                                        onChange={(e) => handleUpdateTranslation(scene, e.target.value)}
+                                    />
+                                </div>
+                            )}
+
                             <div>
                                 <label className="text-[10px] uppercase text-monk-300 font-bold tracking-wider">Visual Prompt</label>
                                 <textarea 
@@ -567,9 +1360,43 @@ const App: React.FC = () => {
                                     onChange={(e) => handleUpdateText(scene.id, 'visualPrompt', e.target.value)}
                                 />
                             </div>
+
+                            {!scene.videoUrl && (
+                                <details className="text-xs">
+                                    <summary className="cursor-pointer text-monk-500 font-bold">
+                                        镜头运动 · {MOTION_LABELS[resolveKenBurns(project.scenes, idx, project.autoVaryMotion).motion]}{scene.kenBurns ? '' : ' (自动)'}
+                                    </summary>
+                                    <div className="mt-2">
+                                        <KenBurnsEditor
+                                            imageUrl={scene.imageUrl}
+                                            value={scene.kenBurns}
+                                            automatic={getAutoKenBurns(idx, project.autoVaryMotion)}
+                                            aspectRatio={getProjectAspectRatio(project)}
+                                            onChange={(kenBurns) => handleSetKenBurns(scene.id, kenBurns)}
+                                        />
+                                    </div>
+                                </details>
+                            )}
+
+                            <div className="flex flex-wrap gap-3 text-xs text-monk-400 border-t border-monk-50 pt-3 mt-auto">
+                                <button onClick={() => handleSplitScene(scene.id)} className="hover:text-monk-700" title="在旁白光标处拆分为两个分镜">拆分</button>
+                                {idx < project.scenes.length - 1 && (
+                                    <button onClick={() => handleMergeWithNext(scene.id)} className="hover:text-monk-700">与下一条合并</button>
+                                )}
+                                <button onClick={() => handleInsertScene(idx + 1)} className="hover:text-monk-700">在下方插入</button>
+                                <span className="flex-grow" />
+                                <button onClick={() => handleDeleteScene(scene.id)} className="text-red-300 hover:text-red-600">删除分镜</button>
+                            </div>
                         </div>
                     </div>
+                    </React.Fragment>
                 ))}
+                <button
+                    onClick={() => handleInsertScene(project.scenes.length)}
+                    className="w-full border-2 border-dashed border-monk-200 text-monk-500 rounded-xl py-4 text-sm font-bold hover:bg-monk-50 hover:border-monk-300"
+                >
+                    + 添加空白分镜
+                </button>
             </div>
             <div className="h-12"></div>
         </Layout>
@@ -616,6 +1443,20 @@ const App: React.FC = () => {
              </div>
           </div>
 
+          <details className="mb-8 bg-stone-50 p-4 rounded-xl border border-monk-200" open={cast.length > 0}>
+             <summary className="text-sm font-bold text-monk-700 cursor-pointer">对话角色 (Cast，可选)</summary>
+             <div className="mt-4">
+               <CastEditor value={cast} onChange={setCast} />
+             </div>
+          </details>
+
+          <details className="mb-8 bg-stone-50 p-4 rounded-xl border border-monk-200">
+             <summary className="text-sm font-bold text-monk-700 cursor-pointer">高级：生成后端 (Providers)</summary>
+             <div className="mt-4">
+               <ProviderSettings value={providerSettings} onChange={setProviderSettings} />
+             </div>
+          </details>
+
           <div className="space-y-6">
             
             {/* 2. Input Mode Tabs */}
@@ -731,6 +1572,44 @@ const App: React.FC = () => {
                       ))}
                   </div>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-bold text-monk-800 mb-2">旁白语言</label>
+                  <div className="flex gap-2 flex-wrap">
+                      {(Object.keys(LANGUAGES) as NarrationLanguage[]).map(lang => (
+                        <button
+                          key={lang}
+                          onClick={() => setLanguage(lang)}
+                          className={`py-2 px-3 rounded-lg border text-xs ${
+                            language === lang
+                              ? 'bg-monk-600 text-white border-monk-600' 
+                              : 'bg-white text-monk-600 border-monk-200'
+                          }`}
+                        >
+                            {LANGUAGES[lang].label}
+                        </button>
+                      ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-bold text-monk-800 mb-2">画面比例</label>
+                  <div className="flex gap-2 flex-wrap">
+                      {(Object.keys(ASPECT_RATIOS) as AspectRatio[]).map(ratio => (
+                        <button
+                          key={ratio}
+                          onClick={() => setAspectRatio(ratio)}
+                          className={`py-2 px-3 rounded-lg border text-xs ${
+                            aspectRatio === ratio
+                              ? 'bg-monk-600 text-white border-monk-600' 
+                              : 'bg-white text-monk-600 border-monk-200'
+                          }`}
+                        >
+                            {ASPECT_RATIOS[ratio].label}
+                        </button>
+                      ))}
+                  </div>
+                </div>
               </div>
             </div>
 
@@ -762,9 +1641,37 @@ const App: React.FC = () => {
                    <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
                  </svg>
                  导入作品
-                 <input type="file" className="hidden" accept=".json" onChange={handleImportProject} />
+                 <input type="file" className="hidden" accept=".zip,.json" onChange={handleImportProject} />
               </label>
            </div>
+
+           {importReport && (
+             <div className={`mb-6 p-4 rounded-xl border text-sm ${importReport.error ? 'bg-red-50 border-red-200 text-red-700' : importReport.issues.length > 0 ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-green-50 border-green-200 text-green-700'}`}>
+                <div className="flex justify-between items-start gap-4">
+                   <div>
+                      {importReport.error ? (
+                        <p className="font-bold">导入失败 ({importReport.fileName})：{importReport.error}</p>
+                      ) : (
+                        <p className="font-bold">
+                          成功导入作品："{importReport.title}"
+                          {importReport.issues.length > 0 && `，但有 ${importReport.issues.length} 个素材需要重新生成`}
+                        </p>
+                      )}
+                      {importReport.issues.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-xs">
+                          {importReport.issues.map((issue, i) => (
+                            <li key={i}>
+                              {issue.kind === 'bgm' ? '背景音乐' : `场景 ${issue.sceneIndex + 1} · ${issue.kind === 'audio' ? '配音' : issue.kind === 'image' ? '图片' : '视频'}`}：
+                              {issue.problem === 'missing' ? '文件缺失' : '文件损坏'} <span className="font-mono opacity-70">({issue.path})</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                   </div>
+                   <button onClick={() => setImportReport(null)} className="opacity-60 hover:opacity-100 font-bold">✕</button>
+                </div>
+             </div>
+           )}
            
            {savedProjects.length === 0 ? (
              <div className="text-center py-12 text-monk-400 bg-white rounded-xl border border-dashed border-monk-300">
@@ -793,6 +1700,9 @@ const App: React.FC = () => {
                           <span className="bg-black/50 text-white text-xs px-2 py-1 rounded backdrop-blur-sm">
                             {p.scenes.length} 镜头
                           </span>
+                          {queue.jobs.some(j => j.projectId === p.id && isJobPending(j)) && (
+                            <span className="ml-1 bg-amber-500/90 text-white text-xs px-2 py-1 rounded">制作中</span>
+                          )}
                        </div>
                     </div>
                     <div className="p-5 flex-grow flex flex-col">
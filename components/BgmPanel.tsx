@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BgmTrack, ProjectBgm } from '../types';
+import { BUILTIN_BGM_ID, BGM_MOODS, addBgmTrack, updateBgmTrackInfo, resolveBgm, BgmTrackInfo } from '../services/bgmLibrary';
+import { listBgmTracks, deleteBgmTrack } from '../services/storageService';
+
+interface BgmPanelProps {
+  value: ProjectBgm;
+  onChange: (bgm: ProjectBgm) => void;
+}
+
+const formatDuration = (seconds?: number) =>
+  seconds === undefined ? '' : `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+// The project's soundtrack settings plus the shared music library they pick from
+export const BgmPanel: React.FC<BgmPanelProps> = ({ value, onChange }) => {
+  const [tracks, setTracks] = useState<BgmTrack[]>([]);
+  const [file, setFile] = useState<File | null>(null);
+  const [info, setInfo] = useState<BgmTrackInfo>({ title: '', mood: BGM_MOODS[0], license: '' });
+  const [isAdding, setIsAdding] = useState(false);
+  const [isAuditioning, setIsAuditioning] = useState(false);
+  const auditionRef = useRef<HTMLAudioElement>(new Audio());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reload = () => listBgmTracks().then(setTracks);
+
+  useEffect(() => {
+    reload();
+    const audio = auditionRef.current;
+    const handleEnded = () => setIsAuditioning(false);
+    audio.addEventListener('ended', handleEnded);
+    return () => {
+      audio.pause();
+      audio.removeEventListener('ended', handleEnded);
+    };
+  }, []);
+
+  // Keep the audition in step with the settings being tuned
+  useEffect(() => { auditionRef.current.volume = value.volume; }, [value.volume]);
+
+  const update = (patch: Partial<ProjectBgm>) => onChange({ ...value, ...patch });
+
+  const toggleAudition = async () => {
+    const audio = auditionRef.current;
+    if (isAuditioning) {
+      audio.pause();
+      setIsAuditioning(false);
+      return;
+    }
+    const music = await resolveBgm(value);
+    if (!music) return;
+    audio.src = music.url;
+    audio.currentTime = music.offset;
+    audio.volume = music.volume;
+    audio.play().then(() => setIsAuditioning(true)).catch(e => {
+      console.warn("Audition failed", e);
+      alert("无法播放此曲目（在线音乐可能被网络或跨域限制拦截）。");
+    });
+  };
+
+  const handleAdd = async () => {
+    if (!file) return;
+    setIsAdding(true);
+    try {
+      const track = await addBgmTrack(file, { ...info, title: info.title.trim() || file.name.replace(/\.[^.]+$/, '') });
+      await reload();
+      update({ trackId: track.id });
+      setFile(null);
+      setInfo({ title: '', mood: info.mood, license: '' });
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (e) {
+      console.error("Failed to add music track", e);
+      alert("添加失败，浏览器存储空间可能不足。");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleDelete = async (track: BgmTrack) => {
+    if (!confirm(`从音乐库删除「${track.title}」？使用它的作品将没有背景音乐。`)) return;
+    await deleteBgmTrack(track.id);
+    if (value.trackId === track.id) update({ trackId: undefined });
+    reload();
+  };
+
+  const handleEditInfo = async (trackId: string, patch: Partial<BgmTrackInfo>) => {
+    await updateBgmTrackInfo(trackId, patch);
+    reload();
+  };
+
+  const isMissing = !!value.trackId && value.trackId !== BUILTIN_BGM_ID && !tracks.some(t => t.id === value.trackId);
+
+  return (
+    <div className="space-y-5 text-sm">
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_7rem_auto_12rem_auto] gap-3 items-end">
+        <label className="text-xs text-monk-500 font-bold">
+          曲目
+          <select
+            value={value.trackId || ''}
+            onChange={(e) => update({ trackId: e.target.value || undefined })}
+            className="mt-1 w-full bg-white border border-monk-200 text-monk-700 rounded p-2 font-normal"
+          >
+            <option value="">无背景音乐</option>
+            <option value={BUILTIN_BGM_ID}>默认禅乐（在线，需联网）</option>
+            {tracks.map(t => (
+              <option key={t.id} value={t.id}>{t.title}{t.mood ? ` · ${t.mood}` : ''}{t.duration ? ` (${formatDuration(t.duration)})` : ''}</option>
+            ))}
+            {isMissing && <option value={value.trackId}>（曲目已从音乐库删除）</option>}
+          </select>
+        </label>
+        <label className="text-xs text-monk-500 font-bold">
+          起始位置 (秒)
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={value.offset}
+            onChange={(e) => update({ offset: Math.max(0, Number(e.target.value) || 0) })}
+            className="mt-1 w-full border border-monk-200 rounded p-2 font-normal"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-monk-600 pb-2">
+          <input type="checkbox" checked={value.loop} onChange={(e) => update({ loop: e.target.checked })} />
+          循环播放
+        </label>
+        <label className="text-xs text-monk-500 font-bold">
+          音量 {Math.round(value.volume * 100)}%
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={value.volume}
+            onChange={(e) => update({ volume: Number(e.target.value) })}
+            className="mt-2 w-full accent-monk-600"
+          />
+        </label>
+        <button
+          onClick={toggleAudition}
+          disabled={!value.trackId || isMissing}
+          className="border border-monk-200 text-monk-600 px-3 py-2 rounded hover:bg-monk-50 font-bold disabled:text-stone-300"
+        >
+          {isAuditioning ? '停止' : '试听'}
+        </button>
+      </div>
+
+      <div className="border-t border-monk-100 pt-4">
+        <h5 className="text-xs font-bold text-monk-700 mb-2">音乐库 (所有作品共用，仅保存在本浏览器)</h5>
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_7rem_1fr_auto] gap-2 items-center mb-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            className="text-xs text-monk-600"
+          />
+          <input
+            value={info.title}
+            onChange={(e) => setInfo({ ...info, title: e.target.value })}
+            placeholder={file ? file.name.replace(/\.[^.]+$/, '') : '曲名'}
+            className="border border-monk-200 rounded p-2"
+          />
+          <input
+            value={info.mood}
+            onChange={(e) => setInfo({ ...info, mood: e.target.value })}
+            list="bgm-moods"
+            placeholder="情绪"
+            className="border border-monk-200 rounded p-2"
+          />
+          <input
+            value={info.license}
+            onChange={(e) => setInfo({ ...info, license: e.target.value })}
+            placeholder="授权说明 (来源 / 是否可商用)"
+            className="border border-monk-200 rounded p-2"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!file || isAdding}
+            className="bg-monk-600 hover:bg-monk-700 text-white px-3 py-2 rounded font-bold disabled:bg-stone-300"
+          >
+            {isAdding ? '添加中…' : '+ 添加'}
+          </button>
+          <datalist id="bgm-moods">
+            {BGM_MOODS.map(m => <option key={m} value={m} />)}
+          </datalist>
+        </div>
+
+        {tracks.length === 0 ? (
+          <p className="text-xs text-monk-400">还没有曲目。上传本地音乐后可离线使用，也可随作品包一起导出。</p>
+        ) : (
+          <ul className="space-y-1">
+            {tracks.map(track => (
+              <li key={track.id} className={`grid grid-cols-1 md:grid-cols-[1fr_7rem_1fr_3rem_auto_auto] gap-2 items-center rounded px-2 py-1 ${value.trackId === track.id ? 'bg-monk-50' : ''}`}>
+                <input
+                  defaultValue={track.title}
+                  onBlur={(e) => e.target.value.trim() && e.target.value !== track.title && handleEditInfo(track.id, { title: e.target.value.trim() })}
+                  className="border border-transparent hover:border-monk-200 rounded px-1 py-0.5 font-bold text-monk-800"
+                />
+                <input
+                  defaultValue={track.mood}
+                  list="bgm-moods"
+                  onBlur={(e) => e.target.value !== track.mood && handleEditInfo(track.id, { mood: e.target.value })}
+                  className="border border-transparent hover:border-monk-200 rounded px-1 py-0.5 text-xs text-monk-600"
+                />
+                <input
+                  defaultValue={track.license}
+                  placeholder="授权说明"
+                  onBlur={(e) => e.target.value !== track.license && handleEditInfo(track.id, { license: e.target.value })}
+                  className="border border-transparent hover:border-monk-200 rounded px-1 py-0.5 text-xs text-monk-500"
+                />
+                <span className="text-xs text-monk-400">{formatDuration(track.duration)}</span>
+                <button
+                  onClick={() => update({ trackId: track.id })}
+                  disabled={value.trackId === track.id}
+                  className="text-xs text-monk-600 hover:text-monk-800 disabled:text-monk-300"
+                >
+                  {value.trackId === track.id ? '使用中' : '使用'}
+                </button>
+                <button onClick={() => handleDelete(track)} className="text-xs text-red-300 hover:text-red-600">删除</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
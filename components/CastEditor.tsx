@@ -0,0 +1,62 @@
+import React from 'react';
+import { CastMember, AVAILABLE_VOICES } from '../types';
+
+interface CastEditorProps {
+  value: CastMember[];
+  onChange: (cast: CastMember[]) => void;
+}
+
+export const CastEditor: React.FC<CastEditorProps> = ({ value, onChange }) => {
+  const update = (id: string, patch: Partial<CastMember>) => {
+    onChange(value.map(c => c.id === id ? { ...c, ...patch } : c));
+  };
+
+  const handleAdd = () => {
+    // Give each new character a different voice than the ones already taken, where possible
+    const used = new Set(value.map(c => c.voiceName));
+    const voice = AVAILABLE_VOICES.find(v => !used.has(v.name)) || AVAILABLE_VOICES[0];
+    onChange([...value, {
+      id: `cast-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+      name: '',
+      description: '',
+      voiceName: voice.name,
+    }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map(member => (
+        <div key={member.id} className="grid grid-cols-1 md:grid-cols-[8rem_1fr_9rem_auto] gap-2 items-center">
+          <input
+            value={member.name}
+            onChange={(e) => update(member.id, { name: e.target.value })}
+            placeholder="角色名 (如：佛陀)"
+            className="border border-monk-200 rounded p-2 text-sm font-bold text-monk-800"
+          />
+          <input
+            value={member.description}
+            onChange={(e) => update(member.id, { description: e.target.value })}
+            placeholder="外貌描述，用于保持画面一致"
+            className="border border-monk-200 rounded p-2 text-sm"
+          />
+          <select
+            value={member.voiceName}
+            onChange={(e) => update(member.id, { voiceName: e.target.value })}
+            className="bg-white border border-monk-200 text-monk-700 text-sm rounded p-2"
+          >
+            {AVAILABLE_VOICES.map(v => <option key={v.name} value={v.name}>{v.name} ({v.gender === 'Male' ? '男' : '女'})</option>)}
+          </select>
+          <button onClick={() => onChange(value.filter(c => c.id !== member.id))} className="text-red-300 hover:text-red-600 text-xs px-2">
+            移除
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-3 text-xs">
+        <button onClick={handleAdd} className="border border-monk-200 text-monk-600 px-3 py-1.5 rounded hover:bg-monk-50 font-bold">
+          + 添加角色
+        </button>
+        <span className="text-monk-400">旁白中以「角色名：台词」开头的一行，会用该角色的声音朗读。</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React from 'react';
+import { ProductionJob, JobState, Scene } from '../types';
+import { isJobDeferred } from '../services/jobQueue';
+
+interface JobQueuePanelProps {
+  jobs: ProductionJob[];
+  scenes: Scene[];
+  paused: boolean;
+  onTogglePaused: () => void;
+  onCancelAll: () => void;
+  onClearFinished: () => void;
+  onPause: (sceneId: string) => void;
+  onResume: (sceneId: string) => void;
+  onCancel: (sceneId: string) => void;
+  onPrioritize: (sceneId: string) => void;
+  onRetry: (job: ProductionJob) => void;
+  onSwitchDeferredToImage: () => void;
+  onRetryDeferredNow: () => void;
+}
+
+const STATE_LABELS: Record<JobState, string> = {
+  queued: '排队中',
+  running: '生成中',
+  paused: '已暂停',
+  failed: '失败',
+  done: '完成',
+  cancelled: '已取消',
+};
+
+const STATE_STYLES: Record<JobState, string> = {
+  queued: 'bg-stone-100 text-stone-600',
+  running: 'bg-amber-100 text-amber-700 animate-pulse',
+  paused: 'bg-blue-50 text-blue-600',
+  failed: 'bg-red-50 text-red-600',
+  done: 'bg-green-50 text-green-700',
+  cancelled: 'bg-stone-50 text-stone-400',
+};
+
+export const JobStateBadge: React.FC<{ state: JobState; label?: string; deferred?: boolean }> = ({ state, label, deferred }) => (
+  <span className={`text-[10px] font-bold px-2 py-0.5 rounded ${deferred ? 'bg-purple-50 text-purple-600' : STATE_STYLES[state]}`}>
+    {label ? `${label} · ` : ''}{deferred ? '等待配额' : STATE_LABELS[state]}
+  </span>
+);
+
+export const JobQueuePanel: React.FC<JobQueuePanelProps> = ({
+  jobs, scenes, paused, onTogglePaused, onCancelAll, onClearFinished, onPause, onResume, onCancel, onPrioritize, onRetry,
+  onSwitchDeferredToImage, onRetryDeferredNow
+}) => {
+  if (jobs.length === 0) return null;
+
+  const sceneNumber = (sceneId: string) => scenes.findIndex(s => s.id === sceneId) + 1;
+  const finished = jobs.filter(j => j.state === 'done' || j.state === 'cancelled').length;
+  const failed = jobs.filter(j => j.state === 'failed').length;
+  const active = jobs.filter(j => j.state !== 'done' && j.state !== 'cancelled')
+    .sort((a, b) => sceneNumber(a.sceneId) - sceneNumber(b.sceneId));
+  const allFinished = active.length === 0 || active.every(j => j.state === 'failed');
+  const deferred = jobs.filter(j => isJobDeferred(j));
+  const resumeAt = deferred.length > 0 ? Math.min(...deferred.map(j => j.notBefore!)) : 0;
+
+  return (
+    <div className="mb-6 bg-white p-4 rounded-xl border border-monk-200 shadow-sm">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-3">
+        <h4 className="text-sm font-bold text-monk-800">
+          制作队列 (Production Queue) · {finished}/{jobs.length}
+          {failed > 0 && <span className="text-red-500 ml-2">{failed} 个失败</span>}
+          {paused && !allFinished && <span className="text-blue-500 ml-2">已暂停</span>}
+        </h4>
+        <div className="flex gap-2 text-xs">
+          {!allFinished && (
+            <>
+              <button onClick={onTogglePaused} className="border border-monk-200 text-monk-600 px-3 py-1 rounded hover:bg-monk-50 font-bold">
+                {paused ? '继续队列' : '暂停队列'}
+              </button>
+              <button onClick={onCancelAll} className="border border-red-200 text-red-500 px-3 py-1 rounded hover:bg-red-50">
+                全部取消
+              </button>
+            </>
+          )}
+          <button onClick={onClearFinished} className="text-monk-400 hover:text-monk-700 px-2 py-1">
+            清除记录
+          </button>
+        </div>
+      </div>
+
+      <div className="w-full bg-monk-100 rounded-full h-2 mb-3">
+        <div className="bg-monk-600 h-2 rounded-full transition-all duration-300" style={{ width: `${(finished / jobs.length) * 100}%` }}></div>
+      </div>
+
+      {deferred.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 mb-3 p-3 bg-purple-50 border border-purple-100 rounded-lg text-xs text-purple-700">
+          <span className="font-bold flex-grow">
+            配额已用尽，{deferred.length} 个任务将于 {new Date(resumeAt).toLocaleTimeString()} 自动继续
+          </span>
+          {deferred.some(j => j.kind === 'VISUAL' && j.visualMode !== 'IMAGE') && (
+            <button onClick={onSwitchDeferredToImage} className="border border-purple-200 px-3 py-1 rounded hover:bg-purple-100 font-bold">
+              立即改用图片
+            </button>
+          )}
+          <button onClick={onRetryDeferredNow} className="border border-purple-200 px-3 py-1 rounded hover:bg-purple-100">
+            立即重试
+          </button>
+        </div>
+      )}
+
+      {active.length > 0 && (
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {active.map(job => (
+            <li key={job.id} className="flex flex-wrap items-center gap-2 text-xs py-1 border-b border-monk-50 last:border-0">
+              <span className="font-bold text-monk-700 w-16">场景 {sceneNumber(job.sceneId)}</span>
+              <span className="text-monk-500 w-20">{job.kind === 'AUDIO' ? '配音' : job.visualMode === 'IMAGE' ? '图片' : '视频'}</span>
+              <JobStateBadge state={job.state} deferred={isJobDeferred(job)} />
+              {job.error && <span className="text-red-500 truncate max-w-xs" title={job.error}>{job.error}</span>}
+              <span className="flex-grow" />
+              {(job.state === 'queued' || job.state === 'paused') && (
+                <button onClick={() => onPrioritize(job.sceneId)} className="text-monk-500 hover:text-monk-800">优先</button>
+              )}
+              {job.state === 'queued' && (
+                <button onClick={() => onPause(job.sceneId)} className="text-monk-500 hover:text-monk-800">暂停</button>
+              )}
+              {job.state === 'paused' && (
+                <button onClick={() => onResume(job.sceneId)} className="text-monk-500 hover:text-monk-800">继续</button>
+              )}
+              {(job.state === 'queued' || job.state === 'paused') && (
+                <button onClick={() => onCancel(job.sceneId)} className="text-red-400 hover:text-red-600">取消</button>
+              )}
+              {job.state === 'failed' && (
+                <button onClick={() => onRetry(job)} className="text-monk-600 hover:text-monk-900 font-bold">重试</button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
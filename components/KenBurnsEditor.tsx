@@ -0,0 +1,112 @@
+import React, { useEffect, useRef } from 'react';
+import { AspectRatio, KenBurnsConfig, KenBurnsEasing, KenBurnsMotion } from '../types';
+import { MOTION_LABELS, EASING_LABELS } from '../services/kenBurns';
+import { drawFrame } from '../services/compositor';
+import { getFrameSize } from '../services/aspectRatio';
+
+const PREVIEW_WIDTH = 192;
+const PREVIEW_SECONDS = 4;
+const PREVIEW_HOLD_SECONDS = 0.6; // Pause on the last frame before looping
+
+// Loops the motion over the scene's image, drawn exactly as the Player will draw it
+const KenBurnsPreview: React.FC<{ imageUrl?: string; config: KenBurnsConfig; aspectRatio: AspectRatio }> = ({ imageUrl, config, aspectRatio }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frame = getFrameSize(aspectRatio);
+  const height = Math.round(PREVIEW_WIDTH * frame.height / frame.width);
+  // The config object is rebuilt on every editor render; restart the loop only when it changes
+  const configKey = JSON.stringify(config);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !imageUrl) return;
+    const img = new Image();
+    img.src = imageUrl;
+    const startedAt = performance.now();
+    let request = 0;
+    const tick = () => {
+      const t = ((performance.now() - startedAt) / 1000) % (PREVIEW_SECONDS + PREVIEW_HOLD_SECONDS);
+      drawFrame(ctx, {
+        visual: img.complete && img.naturalWidth > 0 ? img : undefined,
+        isStill: true,
+        progress: Math.min(1, t / PREVIEW_SECONDS),
+        kenBurns: config,
+      });
+      request = requestAnimationFrame(tick);
+    };
+    request = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(request);
+  }, [imageUrl, configKey]);
+
+  if (!imageUrl) {
+    return (
+      <div className="bg-stone-100 rounded flex items-center justify-center text-[10px] text-stone-400 shrink-0" style={{ width: PREVIEW_WIDTH, height }}>
+        生成图片后可预览
+      </div>
+    );
+  }
+  return <canvas ref={canvasRef} width={PREVIEW_WIDTH} height={height} className="rounded bg-black shrink-0" />;
+};
+
+const FOCUS_STEPS = [0, 0.5, 1];
+
+// 3×3 grid of focus points; clicking the chosen one again returns to the motion's default
+const FocusPicker: React.FC<{ label: string; value?: { x: number; y: number }; onChange: (value?: { x: number; y: number }) => void }> = ({ label, value, onChange }) => (
+  <div>
+    <div className="text-[10px] text-monk-400 mb-1">{label}</div>
+    <div className="grid grid-cols-3 gap-0.5 w-12">
+      {FOCUS_STEPS.map(y => FOCUS_STEPS.map(x => {
+        const selected = value?.x === x && value?.y === y;
+        return (
+          <button
+            key={`${x}-${y}`}
+            onClick={() => onChange(selected ? undefined : { x, y })}
+            className={`h-3.5 rounded-sm border ${selected ? 'bg-monk-600 border-monk-600' : 'bg-white border-monk-200 hover:bg-monk-100'}`}
+          />
+        );
+      }))}
+    </div>
+  </div>
+);
+
+interface KenBurnsEditorProps {
+  imageUrl?: string;
+  value?: KenBurnsConfig;      // The scene's own settings; undefined follows the project
+  automatic: KenBurnsConfig;   // What the scene gets without its own settings
+  aspectRatio: AspectRatio;
+  onChange: (value: KenBurnsConfig | undefined) => void;
+}
+
+export const KenBurnsEditor: React.FC<KenBurnsEditorProps> = ({ imageUrl, value, automatic, aspectRatio, onChange }) => {
+  const config = value || automatic;
+
+  return (
+    <div className="flex flex-wrap gap-4 items-start">
+      <KenBurnsPreview imageUrl={imageUrl} config={config} aspectRatio={aspectRatio} />
+      <div className="space-y-2 text-xs">
+        <div className="flex gap-2">
+          <select
+            value={value?.motion || ''}
+            onChange={(e) => onChange(e.target.value ? { motion: e.target.value as KenBurnsMotion, easing: config.easing } : undefined)}
+            className="border border-monk-200 text-monk-600 rounded px-1 py-1 bg-white"
+          >
+            <option value="">自动 ({MOTION_LABELS[automatic.motion]})</option>
+            {(Object.keys(MOTION_LABELS) as KenBurnsMotion[]).map(m => <option key={m} value={m}>{MOTION_LABELS[m]}</option>)}
+          </select>
+          <select
+            value={config.easing}
+            onChange={(e) => onChange({ ...config, easing: e.target.value as KenBurnsEasing })}
+            className="border border-monk-200 text-monk-600 rounded px-1 py-1 bg-white"
+          >
+            {(Object.keys(EASING_LABELS) as KenBurnsEasing[]).map(e => <option key={e} value={e}>{EASING_LABELS[e]}</option>)}
+          </select>
+        </div>
+        {config.motion !== 'none' && (
+          <div className="flex gap-4">
+            <FocusPicker label="起点焦点" value={config.from} onChange={(from) => onChange({ ...config, from })} />
+            <FocusPicker label="终点焦点" value={config.to} onChange={(to) => onChange({ ...config, to })} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { NarrationLanguage } from '../types';
+import { LexiconEntry, DEFAULT_LEXICON, getEntryLanguage } from '../services/lexicon';
+import { LANGUAGES } from '../services/languages';
+
+interface LexiconPanelProps {
+  value: LexiconEntry[];
+  language: NarrationLanguage; // The project's narration language: the entries shown and added
+  onChange: (entries: LexiconEntry[]) => void;
+}
+
+const EMPTY_ENTRY: LexiconEntry = { term: '', pinyin: '', respelling: '' };
+
+// The pronunciation lexicon applied before every TTS call (see lexicon.ts), for one narration language
+export const LexiconPanel: React.FC<LexiconPanelProps> = ({ value, language, onChange }) => {
+  const [draft, setDraft] = useState<LexiconEntry>(EMPTY_ENTRY);
+  const [filter, setFilter] = useState('');
+
+  const updateEntry = (index: number, patch: Partial<LexiconEntry>) =>
+    onChange(value.map((entry, i) => i === index ? { ...entry, ...patch } : entry));
+
+  const handleAdd = () => {
+    const term = draft.term.trim();
+    if (!term) return;
+    const same = (e: LexiconEntry) => e.term === term && getEntryLanguage(e) === language;
+    if (value.some(same) && !confirm(`「${term}」已在词典中，要替换原有读音吗？`)) return;
+    const entry = { term, pinyin: draft.pinyin.trim(), respelling: draft.respelling?.trim() || undefined, language };
+    onChange([entry, ...value.filter(e => !same(e))]);
+    setDraft(EMPTY_ENTRY);
+  };
+
+  const handleReset = () => {
+    if (!confirm(`恢复${LANGUAGES[language].label}的默认佛教词汇读音？你在该语言下添加或修改的词条将被清除，其他语言的词条不受影响。`)) return;
+    const inLanguage = (e: LexiconEntry) => getEntryLanguage(e) === language;
+    onChange([...DEFAULT_LEXICON.filter(inLanguage), ...value.filter(e => !inLanguage(e))]);
+  };
+
+  const entries = value
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => getEntryLanguage(entry) === language);
+  const visible = entries.filter(({ entry }) => !filter || entry.term.includes(filter) || entry.pinyin.includes(filter));
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="text-xs text-monk-500">
+        配音前，旁白中的词条会被替换为「替换写法」再交给语音模型，字幕仍显示原文。替换写法请用读音唯一、字数相同的同音字；留空则只在编辑器中高亮提示读音。
+        这里只列出本作品旁白语言（{LANGUAGES[language].label}）的词条，其他语言的旁白不受影响。
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-[8rem_1fr_8rem_auto] gap-2 items-center">
+        <input value={draft.term} onChange={(e) => setDraft({ ...draft, term: e.target.value })} placeholder="词条，如 般若" className="border border-monk-200 rounded p-2" />
+        <input value={draft.pinyin} onChange={(e) => setDraft({ ...draft, pinyin: e.target.value })} placeholder="拼音，如 bō rě" className="border border-monk-200 rounded p-2" />
+        <input value={draft.respelling || ''} onChange={(e) => setDraft({ ...draft, respelling: e.target.value })} placeholder="替换写法，如 波惹" className="border border-monk-200 rounded p-2" />
+        <button onClick={handleAdd} disabled={!draft.term.trim()} className="bg-monk-600 hover:bg-monk-700 text-white px-3 py-2 rounded font-bold disabled:bg-stone-300">
+          + 添加
+        </button>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <input value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="搜索词条或拼音" className="border border-monk-200 rounded p-1.5 text-xs w-48" />
+        <span className="text-xs text-monk-400">共 {entries.length} 条</span>
+        <button onClick={handleReset} className="ml-auto text-xs text-monk-500 hover:text-monk-800 underline">恢复默认词典</button>
+      </div>
+
+      <ul className="max-h-72 overflow-y-auto divide-y divide-monk-50">
+        {visible.map(({ entry, index }) => (
+          <li key={`${entry.term}-${index}`} className="grid grid-cols-[8rem_1fr_8rem_auto] gap-2 items-center py-1">
+            <span className="font-bold text-monk-800 px-1">{entry.term}</span>
+            <input
+              value={entry.pinyin}
+              onChange={(e) => updateEntry(index, { pinyin: e.target.value })}
+              className="border border-transparent hover:border-monk-200 rounded px-1 py-0.5 text-monk-600"
+            />
+            <input
+              value={entry.respelling || ''}
+              placeholder="(仅提示)"
+              onChange={(e) => updateEntry(index, { respelling: e.target.value || undefined })}
+              className="border border-transparent hover:border-monk-200 rounded px-1 py-0.5 text-monk-600"
+            />
+            <button onClick={() => onChange(value.filter((_, i) => i !== index))} className="text-xs text-red-300 hover:text-red-600">删除</button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
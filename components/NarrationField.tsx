@@ -0,0 +1,66 @@
+import React, { useRef } from 'react';
+import { NarrationLanguage } from '../types';
+import { LexiconEntry, findLexiconTerms } from '../services/lexicon';
+
+interface NarrationFieldProps {
+  value: string;
+  lexicon: LexiconEntry[];
+  language: NarrationLanguage; // Only this language's entries apply
+  onChange: (value: string) => void;
+  onSelect?: (caret: number) => void;
+}
+
+// Shared by the backdrop and the textarea so their text wraps identically
+const FIELD_CLASS = 'w-full border-l-2 pl-3 py-1 text-lg font-serif whitespace-pre-wrap break-words';
+
+// Narration textarea with pronunciation-lexicon terms marked behind the text, and the readings
+// the TTS will be given listed underneath, so reviewers can check them before voicing
+export const NarrationField: React.FC<NarrationFieldProps> = ({ value, lexicon, language, onChange, onSelect }) => {
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const matches = findLexiconTerms(value, lexicon, language);
+  const entries = [...new Map(matches.map(m => [m.entry.term, m.entry])).values()];
+
+  const marked: React.ReactNode[] = [];
+  let last = 0;
+  matches.forEach(({ start, end, entry }) => {
+    marked.push(value.slice(last, start));
+    marked.push(
+      <mark key={start} className={`rounded-sm text-transparent ${entry.respelling ? 'bg-amber-100' : 'bg-sky-100'}`}>
+        {value.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  marked.push(value.slice(last) + '\n'); // Keeps a trailing line break the same height as in the textarea
+
+  return (
+    <div>
+      <div className="relative">
+        <div ref={backdropRef} aria-hidden className={`${FIELD_CLASS} absolute inset-0 overflow-hidden border-monk-200 text-transparent pointer-events-none`}>
+          {marked}
+        </div>
+        <textarea
+          className={`${FIELD_CLASS} relative block border-transparent text-monk-800 bg-transparent focus:outline-none resize-none`}
+          rows={2}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onSelect={(e) => onSelect?.(e.currentTarget.selectionStart)}
+          onScroll={(e) => { if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop; }}
+        />
+      </div>
+      {entries.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1 pl-3">
+          {entries.map(entry => (
+            <span
+              key={entry.term}
+              className={`text-[10px] rounded px-1.5 py-0.5 ${entry.respelling ? 'bg-amber-50 text-amber-700' : 'bg-sky-50 text-sky-700'}`}
+              title={entry.respelling ? `配音时读作「${entry.respelling}」` : '词典中没有替换写法，仅提示读音'}
+            >
+              {entry.term} {entry.pinyin}{entry.respelling ? ` → ${entry.respelling}` : ''}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,42 +1,111 @@
 import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
-import { Scene } from '../types';
+import { Scene, CastMember, AspectRatio, KenBurnsConfig, ProjectBgm, SubtitleStyle, NarrationLanguage } from '../types';
+import { getSceneSubtitles, getSceneDuration, getChunkProgress, DEFAULT_SCENE_SECONDS } from '../services/subtitles';
+import { drawFrame, loadSubtitleFont, FrameLayer, FrameTransition } from '../services/compositor';
+import { resolveBgm, ResolvedBgm } from '../services/bgmLibrary';
+import { getTransitionPhase, getNarrationFades, getNarrationGain } from '../services/transitions';
+import { resolveKenBurns } from '../services/kenBurns';
+import { createLiveMixer, getNarrationClipGain, LiveMixer } from '../services/audioMix';
+import { ASPECT_RATIOS, DEFAULT_ASPECT_RATIO, getFrameSize } from '../services/aspectRatio';
+import {
+  renderProjectOffline, isOfflineRenderSupported, findCodecs, RenderCancelledError, RenderProgress,
+  ExportSettings, VideoFormat, loadExportSettings, saveExportSettings,
+  FORMAT_LABELS, RESOLUTION_OPTIONS, BITRATE_OPTIONS,
+} from '../services/offlineRenderer';
+
+const RENDER_STAGE_LABELS: Record<RenderProgress['stage'], string> = {
+  audio: '混合音频',
+  video: '渲染画面',
+  finalizing: '封装文件',
+};
+
+// One scene's picture. Besides the playing scene, the next one is loaded ahead and the previous
+// one is held on its last frame, so a transition can show both.
+interface MediaSlot {
+  sceneId?: string;
+  video: HTMLVideoElement;
+  img: HTMLImageElement;
+}
+
+const createSlot = (): MediaSlot => {
+  const video = document.createElement('video');
+  video.crossOrigin = "anonymous";
+  video.playsInline = true;
+  video.muted = true;
+  video.loop = true;
+  video.preload = 'auto';
+  const img = document.createElement('img');
+  img.crossOrigin = "anonymous";
+  return { video, img };
+};
+
+const loadSlot = (slot: MediaSlot, scene?: Scene) => {
+  slot.sceneId = scene?.id;
+  slot.video.pause();
+  if (scene?.videoUrl) {
+    slot.video.src = scene.videoUrl;
+    slot.img.removeAttribute('src');
+  } else {
+    slot.video.removeAttribute('src');
+    slot.video.load();
+    if (scene?.imageUrl) slot.img.src = scene.imageUrl;
+    else slot.img.removeAttribute('src');
+  }
+};
 
-// Gentle Zen Music (Ensure it allows CORS)
-const ZEN_BGM_URL = "https://cdn.pixabay.com/audio/2022/10/18/audio_31c2730e64.mp3"; 
+// Whichever of the slot's video or image is ready (video preferred, image with Ken Burns)
+const slotLayer = (slot: MediaSlot, progress: number, kenBurns: KenBurnsConfig): FrameLayer => {
+  const videoReady = slot.video.readyState >= 2 && slot.video.hasAttribute('src');
+  const imgReady = slot.img.hasAttribute('src') && slot.img.complete && slot.img.naturalWidth > 0;
+  return { visual: videoReady ? slot.video : imgReady ? slot.img : undefined, isStill: !videoReady, progress, kenBurns };
+};
 
 interface PlayerProps {
   scenes: Scene[];
+  cast?: CastMember[];
+  aspectRatio?: AspectRatio;
+  autoVaryMotion?: boolean;
+  bgm?: ProjectBgm;
+  subtitleStyle?: SubtitleStyle;
+  secondaryLanguage?: NarrationLanguage; // Bilingual subtitles
   onClose: () => void;
 }
 
-interface SubtitleChunk {
-  text: string;
-  start: number;
-  end: number;
-}
-
-export const Player: React.FC<PlayerProps> = ({ scenes, onClose }) => {
+export const Player: React.FC<PlayerProps> = ({ scenes, cast, aspectRatio = DEFAULT_ASPECT_RATIO, autoVaryMotion, bgm, subtitleStyle, secondaryLanguage, onClose }) => {
   const [currentSceneIndex, setCurrentSceneIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [statusMsg, setStatusMsg] = useState('');
+  const [renderProgress, setRenderProgress] = useState<RenderProgress | null>(null);
+  const renderAbortRef = useRef<AbortController | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings);
+  // Which formats this browser can encode at the chosen settings (null while checking)
+  const [formatSupport, setFormatSupport] = useState<Record<VideoFormat, boolean> | null>(null);
+  const recordingTypeRef = useRef('video/webm');
+  const [showSafeArea, setShowSafeArea] = useState(false);
+  const frameSize = getFrameSize(aspectRatio);
+  const safeArea = ASPECT_RATIOS[aspectRatio].safeArea;
 
   // Refs for Media
-  const videoRef = useRef<HTMLVideoElement>(document.createElement('video'));
-  const imgRef = useRef<HTMLImageElement>(document.createElement('img'));
+  const slotsRef = useRef<{ prev: MediaSlot; current: MediaSlot; next: MediaSlot } | null>(null);
+  if (!slotsRef.current) slotsRef.current = { prev: createSlot(), current: createSlot(), next: createSlot() };
 
   // Audio Refs 
   const narrationRef = useRef<HTMLAudioElement>(new Audio());
-  const bgmRef = useRef<HTMLAudioElement>(new Audio(ZEN_BGM_URL));
+  const bgmRef = useRef<HTMLAudioElement>(new Audio());
+  const resolvedBgmRef = useRef<ResolvedBgm | undefined>(undefined);
   
   // Refs for Rendering & Recording
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
-  const sceneStartTimeRef = useRef<number>(0); // For Ken Burns calculation
+  const renderFrameRef = useRef<() => void>(() => {});
+  const sceneStartTimeRef = useRef<number>(0); // Scene clock when there's no narration
   
-  // Audio Context for Recording Mix
+  // Audio Context for the Mix (playback and recording)
   const audioCtxRef = useRef<AudioContext | null>(null);
   const destRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  const mixerRef = useRef<LiveMixer | null>(null); // Set once the media elements are routed through audioCtx
+  const clipGainsRef = useRef<Map<string, number>>(new Map()); // Narration loudness normalization by URL
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recordedChunksRef = useRef<Blob[]>([]);
 
@@ -44,65 +113,93 @@ export const Player: React.FC<PlayerProps> = ({ scenes, onClose }) => {
   const currentScene = scenes[currentSceneIndex];
 
   // Calculate Subtitles for current scene
-  const currentSubtitles = useMemo(() => {
-    if (!currentScene) return [];
-    const text = currentScene.narration || '';
-    const duration = currentScene.audioDuration || 5; 
-
-    // Split text by punctuation
-    const parts = text.split(/([，。！？；：,.!?]+)/).reduce((acc, curr, i, arr) => {
-        if (i % 2 === 0 && curr.trim()) {
-            const punct = arr[i+1] || '';
-            acc.push(curr.trim() + punct);
-        }
-        return acc;
-    }, [] as string[]);
-
-    const finalParts = parts.length > 0 ? parts : [text];
-    
-    const totalChars = finalParts.join('').length;
-    const chunks: SubtitleChunk[] = [];
-    let currentTime = 0;
-
-    finalParts.forEach(part => {
-        const partDuration = totalChars > 0 ? (part.length / totalChars) * duration : duration;
-        chunks.push({
-            text: part,
-            start: currentTime,
-            end: currentTime + partDuration
-        });
-        currentTime += partDuration;
+  const currentSubtitles = useMemo(
+    () => currentScene ? getSceneSubtitles(currentScene, cast, secondaryLanguage) : [],
+    [currentScene, cast, secondaryLanguage]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setFormatSupport(null);
+    Promise.all([findCodecs('mp4', exportSettings, aspectRatio), findCodecs('webm', exportSettings, aspectRatio)]).then(([mp4, webm]) => {
+        if (!cancelled) setFormatSupport({ mp4: !!mp4, webm: !!webm });
     });
+    return () => { cancelled = true; };
+  }, [exportSettings.resolution, exportSettings.videoBitrate, aspectRatio]);
+
+  const updateExportSettings = (patch: Partial<ExportSettings>) => {
+    const next = { ...exportSettings, ...patch };
+    setExportSettings(next);
+    saveExportSettings(next);
+  };
 
-    return chunks;
-  }, [currentScene]);
+  // The chosen format, or the other one when this browser can't encode it
+  const offlineFormat: VideoFormat | null = !formatSupport ? null
+    : formatSupport[exportSettings.format] ? exportSettings.format
+    : formatSupport[exportSettings.format === 'mp4' ? 'webm' : 'mp4'] ? (exportSettings.format === 'mp4' ? 'webm' : 'mp4')
+    : null;
 
   // --- Initialization ---
   useEffect(() => {
     // Setup Media Elements
-    bgmRef.current.loop = true;
     bgmRef.current.crossOrigin = "anonymous";
-    bgmRef.current.volume = 0.15;
+    // Loops from the project's start offset rather than from the top of the track
+    const handleBgmEnded = () => {
+        const music = resolvedBgmRef.current;
+        if (!music?.loop) return;
+        bgmRef.current.currentTime = music.offset;
+        bgmRef.current.play().catch(console.warn);
+    };
+    bgmRef.current.addEventListener('ended', handleBgmEnded);
 
     narrationRef.current.crossOrigin = "anonymous";
-    
-    videoRef.current.crossOrigin = "anonymous";
-    videoRef.current.playsInline = true;
-    videoRef.current.muted = true;
-    videoRef.current.loop = true;
-
-    imgRef.current.crossOrigin = "anonymous";
 
     return () => {
         cancelAnimationFrame(requestRef.current);
+        bgmRef.current.removeEventListener('ended', handleBgmEnded);
         bgmRef.current.pause();
         narrationRef.current.pause();
+        Object.values(slotsRef.current!).forEach(slot => slot.video.pause());
         if (audioCtxRef.current && audioCtxRef.current.state !== 'closed') {
             audioCtxRef.current.close();
         }
     };
   }, []);
 
+  // Soundtrack from the library (a missing track just means no music)
+  const bgmKey = JSON.stringify(bgm || null);
+  useEffect(() => {
+    let cancelled = false;
+    (bgm ? resolveBgm(bgm) : Promise.resolve(undefined)).then(music => {
+        if (cancelled) return;
+        resolvedBgmRef.current = music;
+        if (music) {
+            bgmRef.current.src = music.url;
+            // Through the mixer the volume is applied with the ducking
+            bgmRef.current.volume = mixerRef.current ? 1 : music.volume;
+        } else {
+            bgmRef.current.pause();
+            bgmRef.current.removeAttribute('src');
+        }
+    });
+    return () => { cancelled = true; };
+  }, [bgmKey]);
+
+  const subtitleStyleKey = JSON.stringify(subtitleStyle || null);
+  useEffect(() => {
+    if (subtitleStyle) loadSubtitleFont(subtitleStyle, scenes.map(s => (s.narration || '') + (s.translation?.lines.join('') || '')).join(''));
+  }, [subtitleStyleKey, scenes]);
+
+  // Measure each narration ahead of playback so its level is right from the first word
+  useEffect(() => {
+    scenes.forEach(scene => {
+        const url = scene.audioUrl;
+        if (url && !clipGainsRef.current.has(url)) {
+            getNarrationClipGain(url).then(gain => clipGainsRef.current.set(url, gain));
+        }
+    });
+  }, [scenes]);
+
   // --- Rendering Loop ---
   const renderFrame = useCallback(() => {
     const canvas = canvasRef.current;
@@ -110,69 +207,59 @@ export const Player: React.FC<PlayerProps> = ({ scenes, onClose }) => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // 1. Clear Screen
-    ctx.fillStyle = '#000';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // 2. Draw Current Scene (Hard Cut with Fallbacks)
-    const videoReady = videoRef.current.readyState >= 2;
-    const imgReady = imgRef.current.complete && imgRef.current.naturalWidth > 0;
-    
-    // Check if we should use video (preferred) or image (fallback)
-    // We base this on what URL is currently loaded.
-    // However, the `currentScene` object tells us what URLs exist.
-    // The `useEffect` below loads the correct URL into the refs.
-    // Here we just check what's ready to draw.
-    
-    // Prioritize Video if loaded
-    if (videoReady && !videoRef.current.paused) {
-        drawImageProp(ctx, videoRef.current, 0, 0, canvas.width, canvas.height);
-    } 
-    // Otherwise draw image with Ken Burns
-    else if (imgReady) {
-        // Calculate Ken Burns Zoom
-        const now = Date.now();
-        const duration = (currentScene?.audioDuration || 5) * 1000;
-        const elapsed = now - sceneStartTimeRef.current;
-        const progress = Math.min(elapsed / duration, 1.0);
-        
-        // Simple Zoom In: 1.0 -> 1.15
-        const scale = 1.0 + (progress * 0.15);
-        
-        // We can also pan slightly. For now, simple center zoom.
-        drawImageProp(ctx, imgRef.current, 0, 0, canvas.width, canvas.height, 0.5, 0.5, scale);
-    } 
-    else {
-        // Fallback Black
-        ctx.fillStyle = '#111';
-        ctx.fillRect(0,0, canvas.width, canvas.height);
-    }
-
-    // 3. Draw Subtitles
+    // The `useEffect` below loads the scenes' videos or images into the slots; here we just
+    // draw whichever are ready, and both scenes while a transition runs.
+    const slots = slotsRef.current!;
+    const duration = currentScene ? getSceneDuration(currentScene) : DEFAULT_SCENE_SECONDS;
+    const narration = narrationRef.current;
+    // Narration is the scene clock, so transitions line up with the actual cut
+    const sceneTime = currentScene?.audioUrl && !narration.paused
+        ? narration.currentTime
+        : (Date.now() - sceneStartTimeRef.current) / 1000;
+
+    let subtitle: string | undefined;
+    let subtitleProgress: number | undefined;
+    let subtitleSecondary: string | undefined;
+    let transition: FrameTransition | undefined;
+    const motionAt = (index: number) => resolveKenBurns(scenes, index, autoVaryMotion);
+    const layer = slotLayer(slots.current, sceneTime / duration, motionAt(currentSceneIndex));
     if (currentScene && isPlaying) {
-        const audioTime = narrationRef.current.currentTime;
-        const activeSub = currentSubtitles.find(s => audioTime >= s.start && audioTime <= s.end);
-
-        if (activeSub) {
-            ctx.textAlign = 'center';
-            ctx.textBaseline = 'bottom';
-            const fontSize = 48;
-            ctx.font = `bold ${fontSize}px "Merriweather", serif`;
-            
-            const x = canvas.width / 2;
-            const y = canvas.height - 80;
-
-            ctx.lineWidth = 6;
-            ctx.strokeStyle = 'black';
-            ctx.strokeText(activeSub.text, x, y);
+        const audioTime = narration.currentTime;
+        const chunk = currentSubtitles.find(s => audioTime >= s.start && audioTime <= s.end);
+        subtitle = chunk?.text;
+        subtitleProgress = chunk && getChunkProgress(chunk, audioTime);
+        subtitleSecondary = chunk?.secondary;
+
+        const phase = getTransitionPhase(scenes, currentSceneIndex, sceneTime);
+        if (phase?.role === 'incoming') {
+            transition = { type: phase.type, progress: phase.progress, outgoing: slotLayer(slots.prev, 1, motionAt(currentSceneIndex - 1)), incoming: layer };
+        } else if (phase?.role === 'outgoing') {
+            transition = { type: phase.type, progress: phase.progress, outgoing: layer, incoming: slotLayer(slots.next, 0, motionAt(currentSceneIndex + 1)) };
+        }
 
-            ctx.fillStyle = 'white';
-            ctx.fillText(activeSub.text, x, y);
+        const fade = getNarrationGain(getNarrationFades(scenes, currentSceneIndex), sceneTime, duration);
+        const mixer = mixerRef.current;
+        if (mixer) {
+            mixer.narration.gain.value = fade * (clipGainsRef.current.get(currentScene.audioUrl || '') ?? 1);
+            mixer.update(resolvedBgmRef.current?.volume ?? 0);
+        } else {
+            narration.volume = fade;
         }
     }
 
-    requestRef.current = requestAnimationFrame(renderFrame);
-  }, [currentScene, currentSubtitles, isPlaying]);
+    drawFrame(ctx, {
+        ...layer,
+        transition,
+        subtitle,
+        subtitleProgress,
+        subtitleSecondary,
+        subtitleStyle,
+        aspectRatio,
+    });
+
+    requestRef.current = requestAnimationFrame(() => renderFrameRef.current());
+  }, [scenes, currentSceneIndex, currentScene, currentSubtitles, isPlaying, aspectRatio, autoVaryMotion, subtitleStyle]);
+  renderFrameRef.current = renderFrame;
 
   // --- Scene Logic ---
   useEffect(() => {
@@ -180,27 +267,25 @@ export const Player: React.FC<PlayerProps> = ({ scenes, onClose }) => {
 
     const scene = scenes[currentSceneIndex];
     sceneStartTimeRef.current = Date.now(); // Reset timer for animation
-    
-    // Load Visuals
-    // Logic: If Video URL exists, use it. If not, use Image URL.
-    
-    const hasVideo = !!scene.videoUrl;
-    
-    if (hasVideo) {
-        videoRef.current.src = scene.videoUrl!;
-        videoRef.current.play().catch(console.warn);
-        // Clear image
-        imgRef.current.removeAttribute('src');
-    } else if (scene.imageUrl) {
-        imgRef.current.src = scene.imageUrl;
-        // Stop video
-        videoRef.current.pause();
-        videoRef.current.removeAttribute('src');
+
+    // Load Visuals: the next scene's slot was loaded ahead when this one is next in line;
+    // the outgoing scene's slot is kept, paused on its last frame, for the transition.
+    const slots = slotsRef.current!;
+    const recycled = slots.prev;
+    slots.prev = slots.current;
+    slots.prev.video.pause();
+    if (slots.next.sceneId === scene.id) {
+        slots.current = slots.next;
+        slots.next = recycled;
     } else {
-        // Nothing
-        imgRef.current.removeAttribute('src');
-        videoRef.current.pause();
+        slots.current = recycled;
+        loadSlot(slots.current, scene);
+    }
+    if (scene.videoUrl) {
+        slots.current.video.currentTime = 0;
+        slots.current.video.play().catch(console.warn);
     }
+    loadSlot(slots.next, scenes[currentSceneIndex + 1]);
 
     // Play Audio
     if (scene.audioUrl) {
@@ -208,10 +293,10 @@ export const Player: React.FC<PlayerProps> = ({ scenes, onClose }) => {
         narrationRef.current.currentTime = 0;
         narrationRef.current.play().catch(() => {
              // Fallback if audio fails
-             setTimeout(handleNext, (scene.audioDuration || 5) * 1000);
+             setTimeout(handleNext, (scene.audioDuration || DEFAULT_SCENE_SECONDS) * 1000);
         });
     } else {
-        const t = setTimeout(handleNext, 5000);
+        const t = setTimeout(handleNext, DEFAULT_SCENE_SECONDS * 1000);
         return () => clearTimeout(t);
     }
 
@@ -242,7 +327,7 @@ export const Player: React.FC<PlayerProps> = ({ scenes, onClose }) => {
       setIsPlaying(false);
       bgmRef.current.pause();
       narrationRef.current.pause();
-      videoRef.current.pause();
+      slotsRef.current!.current.video.pause();
       cancelAnimationFrame(requestRef.current);
 
       if (isRecording) {
@@ -258,30 +343,31 @@ export const Player: React.FC<PlayerProps> = ({ scenes, onClose }) => {
     setStatusMsg(recording ? "正在录制并合成视频..." : "");
     recordedChunksRef.current = [];
 
-    // Ensure Audio Context
-    if (recording) {
-        const AC = window.AudioContext || (window as any).webkitAudioContext;
-        if (!audioCtxRef.current || audioCtxRef.current.state === 'closed') {
-            audioCtxRef.current = new AC();
-            destRef.current = audioCtxRef.current.createMediaStreamDestination();
-            
-            try {
-                const bgmNode = audioCtxRef.current.createMediaElementSource(bgmRef.current);
-                bgmNode.connect(destRef.current);
-                bgmNode.connect(audioCtxRef.current.destination);
-            } catch (e) { }
-
-            try {
-                const narrNode = audioCtxRef.current.createMediaElementSource(narrationRef.current);
-                narrNode.connect(destRef.current);
-                narrNode.connect(audioCtxRef.current.destination);
-            } catch (e) { }
-        } else {
-             if (audioCtxRef.current.state === 'suspended') {
-                 await audioCtxRef.current.resume();
-             }
+    // Ensure Audio Context: preview and recording both go through the mixer, so what you
+    // hear is what gets recorded (music ducked under narration, peaks limited)
+    const AC = window.AudioContext || (window as any).webkitAudioContext;
+    if (!audioCtxRef.current || audioCtxRef.current.state === 'closed') {
+        audioCtxRef.current = new AC();
+        destRef.current = audioCtxRef.current.createMediaStreamDestination();
+
+        try {
+            const mixer = createLiveMixer(audioCtxRef.current);
+            mixer.music.gain.value = resolvedBgmRef.current?.volume ?? 0;
+            audioCtxRef.current.createMediaElementSource(bgmRef.current).connect(mixer.music);
+            audioCtxRef.current.createMediaElementSource(narrationRef.current).connect(mixer.narration);
+            mixer.output.connect(destRef.current);
+            mixer.output.connect(audioCtxRef.current.destination);
+            bgmRef.current.volume = 1;
+            narrationRef.current.volume = 1;
+            mixerRef.current = mixer;
+        } catch (e) {
+            console.warn("Audio mixer unavailable; playing without ducking", e);
         }
+    } else if (audioCtxRef.current.state === 'suspended') {
+        await audioCtxRef.current.resume();
+    }
 
+    if (recording) {
         const canvas = canvasRef.current;
         if (canvas && destRef.current) {
             const canvasStream = canvas.captureStream(30);
@@ -292,11 +378,13 @@ export const Player: React.FC<PlayerProps> = ({ scenes, onClose }) => {
                 ...audioStream.getAudioTracks()
             ]);
 
-            const options = { mimeType: 'video/webm;codecs=vp9' };
-            if (!MediaRecorder.isTypeSupported(options.mimeType)) {
-                // @ts-ignore
-                options.mimeType = 'video/webm'; 
-            }
+            // Newer Chrome can record MP4 directly; otherwise fall back to WebM
+            const candidates = exportSettings.format === 'mp4'
+                ? ['video/mp4;codecs=avc1,mp4a.40.2', 'video/mp4', 'video/webm;codecs=vp9', 'video/webm']
+                : ['video/webm;codecs=vp9', 'video/webm'];
+            const mimeType = candidates.find(t => MediaRecorder.isTypeSupported(t)) || 'video/webm';
+            recordingTypeRef.current = mimeType.split(';')[0];
+            const options = { mimeType, videoBitsPerSecond: exportSettings.videoBitrate };
 
             try {
                 const recorder = new MediaRecorder(combinedStream, options);
@@ -314,24 +402,51 @@ export const Player: React.FC<PlayerProps> = ({ scenes, onClose }) => {
         }
     }
 
-    requestRef.current = requestAnimationFrame(renderFrame);
-    bgmRef.current.currentTime = 0;
-    bgmRef.current.play().catch(console.error);
+    requestRef.current = requestAnimationFrame(() => renderFrameRef.current());
+    if (resolvedBgmRef.current) {
+        bgmRef.current.currentTime = resolvedBgmRef.current.offset;
+        bgmRef.current.play().catch(console.error);
+    }
+  };
+
+  const downloadVideo = (blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ZenCreate_Video_${Date.now()}.${blob.type.includes('mp4') ? 'mp4' : 'webm'}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // Offline export: renders frame by frame instead of recording playback
+  const startOfflineRender = async () => {
+    if (!offlineFormat) return;
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
+    setRenderProgress({ stage: 'audio', fraction: 0 });
+    try {
+        const blob = await renderProjectOffline(scenes, { settings: { ...exportSettings, format: offlineFormat }, aspectRatio, cast, autoVaryMotion, bgm: resolvedBgmRef.current, subtitleStyle, secondaryLanguage, onProgress: setRenderProgress, signal: controller.signal });
+        downloadVideo(blob);
+        setStatusMsg("下载已开始！");
+        setTimeout(() => setStatusMsg(''), 3000);
+    } catch (e) {
+        if (!(e instanceof RenderCancelledError)) {
+            console.error("Offline render failed", e);
+            alert(`渲染失败：${e instanceof Error ? e.message : e}\n\n可改用“实时录制”导出。`);
+        }
+    } finally {
+        renderAbortRef.current = null;
+        setRenderProgress(null);
+    }
   };
 
   const stopRecording = () => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
         mediaRecorderRef.current.stop();
         mediaRecorderRef.current.onstop = () => {
-            const blob = new Blob(recordedChunksRef.current, { type: 'video/webm' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `ZenCreate_Video_${Date.now()}.webm`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            
+            downloadVideo(new Blob(recordedChunksRef.current, { type: recordingTypeRef.current }));
             setIsRecording(false);
             setStatusMsg("下载已开始！");
             setTimeout(() => setStatusMsg(''), 3000);
@@ -340,56 +455,37 @@ export const Player: React.FC<PlayerProps> = ({ scenes, onClose }) => {
   };
 
   const handleClose = () => {
+      renderAbortRef.current?.abort();
       finishPlayback();
       onClose();
   };
 
-  // Helper: Draw image nicely scaled
-  // Added zoomFactor for Ken Burns
-  function drawImageProp(ctx: CanvasRenderingContext2D, img: HTMLVideoElement | HTMLImageElement, x: number, y: number, w: number, h: number, offsetX = 0.5, offsetY = 0.5, zoomFactor = 1.0) {
-     const imgW = (img instanceof HTMLVideoElement) ? (img.videoWidth) : img.naturalWidth;
-     const imgH = (img instanceof HTMLVideoElement) ? (img.videoHeight) : img.naturalHeight;
-     
-     if (!imgW || !imgH) return;
-
-     // Base Scale to cover the area
-     const baseScale = Math.max(w / imgW, h / imgH);
-     
-     // Apply zoom
-     const scale = baseScale * zoomFactor;
-
-     // Calculate visible dimensions
-     const nw = imgW * scale;
-     const nh = imgH * scale;
-
-     // Calculate offsets to center (or offset) the zoomed image
-     // Default (0.5, 0.5) is center
-     let cx = (w - nw) * offsetX;
-     let cy = (h - nh) * offsetY;
-
-     // Ensure we don't go out of bounds if we want to (optional, but good for "cover")
-     // For simple zoom in from center, just use center coordinates
-     
-     // Correct math for center zoom:
-     // Start X = x + (w - nw) / 2
-     // Start Y = y + (h - nh) / 2
-     
-     const xPos = x + (w - nw) * offsetX;
-     const yPos = y + (h - nh) * offsetY;
-     
-     ctx.drawImage(img, xPos, yPos, nw, nh);
-  }
-
   return (
     <div className="fixed inset-0 z-[100] bg-black flex flex-col justify-center items-center font-sans">
       
       <div className="relative w-full h-full bg-black flex items-center justify-center overflow-hidden">
-        <canvas 
-            ref={canvasRef} 
-            width={1280} 
-            height={720} 
-            className="max-w-full max-h-full aspect-video shadow-2xl border border-stone-800"
-        />
+        <div className="relative">
+            <canvas 
+                ref={canvasRef} 
+                width={frameSize.width} 
+                height={frameSize.height} 
+                className="block max-w-[100vw] max-h-[100vh] shadow-2xl border border-stone-800"
+            />
+            {/* Where platform UI (titles, buttons, captions) covers the frame; not recorded */}
+            {showSafeArea && (
+                <div
+                    className="absolute border-2 border-dashed border-amber-400/80 pointer-events-none"
+                    style={{
+                        top: `${safeArea.top * 100}%`,
+                        bottom: `${safeArea.bottom * 100}%`,
+                        left: `${safeArea.left * 100}%`,
+                        right: `${safeArea.right * 100}%`,
+                    }}
+                >
+                    <span className="absolute top-1 left-2 text-xs text-amber-300">安全区</span>
+                </div>
+            )}
+        </div>
         
         {isRecording && (
             <div className="absolute top-4 left-4 bg-red-600 text-white px-4 py-2 rounded-full flex items-center gap-2 animate-pulse z-50">
@@ -419,12 +515,95 @@ export const Player: React.FC<PlayerProps> = ({ scenes, onClose }) => {
                         仅预览 (Preview Only)
                     </button>
 
-                    <button 
-                        onClick={() => startPlayback(true)}
-                        className="w-full bg-gradient-to-r from-monk-600 to-red-600 hover:from-monk-500 hover:to-red-500 text-white text-xl px-8 py-5 rounded-xl font-bold shadow-2xl transform transition hover:scale-[1.02] flex items-center justify-center gap-3"
-                    >
-                        录制并下载作品 (Download Video)
-                    </button>
+                    {!renderProgress && (
+                        <div className="w-full grid grid-cols-3 gap-2 text-left">
+                            <label className="text-xs text-stone-400">
+                                格式
+                                <select
+                                    value={exportSettings.format}
+                                    onChange={(e) => updateExportSettings({ format: e.target.value as VideoFormat })}
+                                    className="mt-1 w-full bg-stone-800 border border-stone-600 text-white text-sm rounded p-2"
+                                >
+                                    {(Object.keys(FORMAT_LABELS) as VideoFormat[]).map(f => (
+                                        <option key={f} value={f}>{FORMAT_LABELS[f]}{formatSupport && !formatSupport[f] ? ' — 不支持' : ''}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            {isOfflineRenderSupported() && (
+                                <label className="text-xs text-stone-400">
+                                    分辨率
+                                    <select
+                                        value={exportSettings.resolution}
+                                        onChange={(e) => updateExportSettings({ resolution: Number(e.target.value) })}
+                                        className="mt-1 w-full bg-stone-800 border border-stone-600 text-white text-sm rounded p-2"
+                                    >
+                                        {RESOLUTION_OPTIONS.map(h => {
+                                            const size = getFrameSize(aspectRatio, h);
+                                            return <option key={h} value={h}>{h}p ({size.width}×{size.height})</option>;
+                                        })}
+                                    </select>
+                                </label>
+                            )}
+                            <label className="text-xs text-stone-400">
+                                码率
+                                <select
+                                    value={exportSettings.videoBitrate}
+                                    onChange={(e) => updateExportSettings({ videoBitrate: Number(e.target.value) })}
+                                    className="mt-1 w-full bg-stone-800 border border-stone-600 text-white text-sm rounded p-2"
+                                >
+                                    {BITRATE_OPTIONS.map(b => <option key={b.value} value={b.value}>{b.label}</option>)}
+                                </select>
+                            </label>
+                            {formatSupport && offlineFormat && offlineFormat !== exportSettings.format && (
+                                <p className="col-span-3 text-xs text-amber-400">
+                                    此浏览器无法编码 {exportSettings.format.toUpperCase()}，将导出为 {offlineFormat.toUpperCase()}。
+                                </p>
+                            )}
+                            {formatSupport && !offlineFormat && isOfflineRenderSupported() && (
+                                <p className="col-span-3 text-xs text-amber-400">
+                                    此分辨率 / 码率下无可用编码器，请降低分辨率，或改用实时录制。
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    {renderProgress ? (
+                        <div className="w-full bg-stone-800 rounded-xl p-5 text-left">
+                            <div className="flex justify-between text-sm text-stone-300 mb-2">
+                                <span>{RENDER_STAGE_LABELS[renderProgress.stage]}…</span>
+                                <span>{Math.round(renderProgress.fraction * 100)}%</span>
+                            </div>
+                            <div className="h-2 bg-stone-700 rounded-full overflow-hidden">
+                                <div className="h-full bg-monk-500 transition-all" style={{ width: `${renderProgress.fraction * 100}%` }} />
+                            </div>
+                            <button onClick={() => renderAbortRef.current?.abort()} className="mt-3 text-sm text-stone-400 hover:text-white">
+                                取消渲染
+                            </button>
+                        </div>
+                    ) : offlineFormat ? (
+                        <>
+                            <button 
+                                onClick={startOfflineRender}
+                                className="w-full bg-gradient-to-r from-monk-600 to-red-600 hover:from-monk-500 hover:to-red-500 text-white text-xl px-8 py-5 rounded-xl font-bold shadow-2xl transform transition hover:scale-[1.02] flex items-center justify-center gap-3"
+                            >
+                                快速导出 {offlineFormat.toUpperCase()} (Download Video)
+                            </button>
+                            <button 
+                                onClick={() => startPlayback(true)}
+                                className="w-full text-sm text-stone-400 hover:text-white transition"
+                                title="边播放边录制，耗时与视频时长相同"
+                            >
+                                改用实时录制 (Record Playback)
+                            </button>
+                        </>
+                    ) : (
+                        <button 
+                            onClick={() => startPlayback(true)}
+                            className="w-full bg-gradient-to-r from-monk-600 to-red-600 hover:from-monk-500 hover:to-red-500 text-white text-xl px-8 py-5 rounded-xl font-bold shadow-2xl transform transition hover:scale-[1.02] flex items-center justify-center gap-3"
+                        >
+                            录制并下载作品 (Download Video)
+                        </button>
+                    )}
                     
                     <button onClick={handleClose} className="block w-full py-3 text-stone-500 hover:text-white transition">
                         返回编辑 (Back)
@@ -442,6 +621,16 @@ export const Player: React.FC<PlayerProps> = ({ scenes, onClose }) => {
             </svg>
         </button>
 
+        {isPlaying && (
+            <button
+                onClick={() => setShowSafeArea(v => !v)}
+                className={`absolute top-8 right-24 z-40 text-sm px-3 py-2 rounded-full transition-all ${showSafeArea ? 'bg-amber-500/80 text-white' : 'text-white/60 hover:text-white bg-black/20 hover:bg-black/40'}`}
+                title="显示平台界面遮挡区域（不会录入视频）"
+            >
+                安全区
+            </button>
+        )}
+
       </div>
     </div>
   );
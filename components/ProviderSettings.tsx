@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { ProjectProviders, ProviderRole, ProviderKind } from '../types';
+import { GEMINI_MODELS } from '../services/geminiService';
+import { MOCK_MODELS } from '../services/mockProvider';
+import { MOCK_PROVIDERS } from '../services/providers';
+import { BackendMode, getBackendMode, setBackendMode } from '../services/recorder';
+import { countRecordings, clearRecordings } from '../services/storageService';
+
+interface ProviderSettingsProps {
+  value: ProjectProviders;
+  onChange: (value: ProjectProviders) => void;
+}
+
+const ROLE_LABELS: Record<ProviderRole, string> = {
+  script: '脚本 (Script)',
+  image: '图片 (Image)',
+  video: '视频 (Video)',
+  tts: '配音 (TTS)',
+};
+
+const ROLES = Object.keys(ROLE_LABELS) as ProviderRole[];
+
+const KNOWN_MODELS: Partial<Record<ProviderKind, Record<ProviderRole, string[]>>> = {
+  gemini: GEMINI_MODELS,
+  mock: MOCK_MODELS,
+};
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ value, onChange }) => {
+  const [mode, setMode] = useState<BackendMode>(getBackendMode());
+  const [recordingCount, setRecordingCount] = useState(0);
+
+  useEffect(() => {
+    countRecordings().then(setRecordingCount);
+  }, [mode]);
+
+  const handleModeChange = (next: BackendMode) => {
+    setBackendMode(next);
+    setMode(next);
+  };
+
+  const handleClearRecordings = async () => {
+    if (!confirm('确定清空所有录制的接口响应吗？')) return;
+    await clearRecordings();
+    setRecordingCount(0);
+  };
+
+  const update = (role: ProviderRole, patch: Partial<ProjectProviders[ProviderRole]>) => {
+    onChange({ ...value, [role]: { ...value[role], ...patch } });
+  };
+
+  const handleProviderChange = (role: ProviderRole, provider: ProviderKind) => {
+    // Reset the model when switching so a Gemini model name isn't sent to an HTTP server (and vice versa)
+    update(role, { provider, model: KNOWN_MODELS[provider]?.[role][0] || '' });
+  };
+
+  return (
+    <div className="space-y-3">
+      {ROLES.map(role => {
+        const sel = value[role];
+        return (
+          <div key={role} className="grid grid-cols-1 md:grid-cols-[8rem_8rem_1fr_1fr_9rem] gap-2 items-center">
+            <span className="text-xs font-bold text-monk-600">{ROLE_LABELS[role]}</span>
+            <select
+              value={sel.provider}
+              onChange={(e) => handleProviderChange(role, e.target.value as ProviderKind)}
+              className="bg-white border border-monk-200 text-monk-700 text-xs rounded p-2"
+            >
+              <option value="gemini">Gemini</option>
+              <option value="http">HTTP (OpenAI 兼容)</option>
+              <option value="mock">离线模拟 (Mock)</option>
+            </select>
+            <input
+              list={KNOWN_MODELS[sel.provider] ? `${sel.provider}-models-${role}` : undefined}
+              value={sel.model}
+              onChange={(e) => update(role, { model: e.target.value })}
+              placeholder="模型名称 (Model)"
+              className="border border-monk-200 rounded p-2 text-xs font-mono"
+            />
+            {sel.provider === 'http' ? (
+              <>
+                <input
+                  value={sel.endpoint || ''}
+                  onChange={(e) => update(role, { endpoint: e.target.value })}
+                  placeholder="http://localhost:8000/v1"
+                  className="border border-monk-200 rounded p-2 text-xs font-mono"
+                />
+                <input
+                  type="password"
+                  value={sel.apiKey || ''}
+                  onChange={(e) => update(role, { apiKey: e.target.value || undefined })}
+                  placeholder="API Key (可选)"
+                  className="border border-monk-200 rounded p-2 text-xs font-mono"
+                />
+              </>
+            ) : <><span /><span /></>}
+            {(Object.keys(KNOWN_MODELS) as ProviderKind[]).map(kind => (
+              <datalist key={kind} id={`${kind}-models-${role}`}>
+                {KNOWN_MODELS[kind]![role].map(m => <option key={m} value={m} />)}
+              </datalist>
+            ))}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap items-center gap-3 pt-3 border-t border-monk-100 text-xs">
+        <button
+          onClick={() => onChange(MOCK_PROVIDERS)}
+          className="border border-monk-200 text-monk-600 px-3 py-1.5 rounded hover:bg-monk-50 font-bold"
+          title="无需 API Key，使用本地生成的示例脚本、占位图片与提示音"
+        >
+          全部切换为离线模拟
+        </button>
+        <label className="flex items-center gap-2 text-monk-600 font-bold" title="本浏览器的开发设置，对所有项目生效">
+          录制/回放
+          <select
+            value={mode}
+            onChange={(e) => handleModeChange(e.target.value as BackendMode)}
+            className="bg-white border border-monk-200 text-monk-700 rounded p-1.5"
+          >
+            <option value="live">关闭 (Live)</option>
+            <option value="record">录制 (Record)</option>
+            <option value="replay">回放 (Replay)</option>
+          </select>
+        </label>
+        <span className="text-monk-400">已录制 {recordingCount} 条</span>
+        {recordingCount > 0 && (
+          <button onClick={handleClearRecordings} className="text-red-400 hover:text-red-600">清空</button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { ModelFamily, RateLimitConfig, FAMILY_LABELS, DEFAULT_RATE_LIMITS, getRateLimitConfig, saveRateLimitConfig } from '../services/rateLimiter';
+
+const FAMILIES = Object.keys(FAMILY_LABELS) as ModelFamily[];
+
+// Browser-wide setting: quotas belong to the API key, not to a project
+export const RateLimitSettings: React.FC = () => {
+  const [config, setConfig] = useState<RateLimitConfig>(getRateLimitConfig());
+
+  const apply = (next: RateLimitConfig) => {
+    saveRateLimitConfig(next);
+    setConfig(next);
+  };
+
+  const setRpm = (family: ModelFamily, value: number) => {
+    apply({ ...config, rpm: { ...config.rpm, [family]: Math.max(0, value || 0) } });
+  };
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+        {FAMILIES.map(family => (
+          <label key={family} className="flex flex-col gap-1 text-monk-600 font-bold">
+            {FAMILY_LABELS[family]}
+            <input
+              type="number"
+              min={0}
+              value={config.rpm[family]}
+              onChange={(e) => setRpm(family, parseInt(e.target.value))}
+              className="border border-monk-200 rounded p-2 font-mono font-normal"
+              title="每分钟请求数，0 为不限"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-monk-600">
+        <span className="text-monk-400">每分钟请求数 (RPM)，0 为不限</span>
+        <label className="flex items-center gap-2 font-bold">
+          失败重试次数
+          <input
+            type="number"
+            min={0}
+            max={10}
+            value={config.maxRetries}
+            onChange={(e) => apply({ ...config, maxRetries: Math.max(0, parseInt(e.target.value) || 0) })}
+            className="w-16 border border-monk-200 rounded p-1.5 font-mono font-normal"
+          />
+        </label>
+        <button onClick={() => apply(DEFAULT_RATE_LIMITS)} className="text-monk-400 hover:text-monk-700">
+          恢复默认
+        </button>
+      </div>
+    </div>
+  );
+};
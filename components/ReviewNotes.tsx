@@ -0,0 +1,66 @@
+import React from 'react';
+import { Scene, QuoteVerdict } from '../types';
+import { VERDICT_LABELS, needsReview, isFlagged } from '../services/doctrinalReview';
+
+interface ReviewNotesProps {
+  scene: Scene;
+  onApprove: (approved: boolean) => void;
+}
+
+const VERDICT_STYLES: Record<QuoteVerdict, string> = {
+  verified: 'bg-green-50 text-green-700',
+  approximate: 'bg-sky-50 text-sky-700',
+  misattributed: 'bg-red-50 text-red-600',
+  unverified: 'bg-amber-50 text-amber-700',
+};
+
+// A scene's doctrinal review: each quotation with its verdict against the sutra corpus, and the
+// claims a reviewer should confirm before the scene is produced
+export const ReviewNotes: React.FC<ReviewNotesProps> = ({ scene, onApprove }) => {
+  if (!scene.narration.trim()) return null;
+  if (needsReview(scene)) {
+    return (
+      <p className="text-[10px] text-amber-600 pl-3">
+        {scene.review ? '旁白已修改，需重新进行经文核查' : '尚未进行经文核查'}
+      </p>
+    );
+  }
+  const review = scene.review!;
+  if (review.quotes.length === 0 && review.claims.length === 0) return null;
+
+  const flagged = review.quotes.some(isFlagged);
+  return (
+    <div className="text-xs space-y-1">
+      <label className="text-[10px] uppercase text-monk-300 font-bold tracking-wider">Review · 经文核查</label>
+      <ul className="space-y-1">
+        {review.quotes.map((quote, i) => (
+          <li key={i} className="flex flex-wrap items-baseline gap-2">
+            <span className={`shrink-0 font-bold rounded px-1.5 py-0.5 text-[10px] ${VERDICT_STYLES[quote.verdict]}`}>
+              {VERDICT_LABELS[quote.verdict]}
+            </span>
+            <span className="text-monk-700">「{quote.text}」</span>
+            {quote.attributedTo && <span className="text-monk-400">称出自《{quote.attributedTo.replace(/[《》]/g, '')}》</span>}
+            {quote.source && (
+              <span className="text-monk-400" title={quote.passage}>
+                {quote.verdict === 'verified' ? '见' : '相近原文见'}《{quote.source}》
+                {quote.verdict !== 'verified' && quote.passage && `：「${quote.passage}」`}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+      {review.claims.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-monk-500 font-bold">教义表述 {review.claims.length} 条，请人工确认</summary>
+          <ul className="list-disc pl-6 text-monk-600 mt-1">
+            {review.claims.map((claim, i) => <li key={i}>{claim}</li>)}
+          </ul>
+        </details>
+      )}
+      <label className={`inline-flex items-center gap-1 ${flagged && !review.approved ? 'text-red-600 font-bold' : 'text-monk-500'}`}>
+        <input type="checkbox" checked={!!review.approved} onChange={(e) => onApprove(e.target.checked)} />
+        已人工审阅{flagged ? '（保留标记的引文）' : ''}
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useEffect, useRef } from 'react';
+import { AspectRatio, SubtitleLayout, SubtitlePosition, SubtitleStyle } from '../types';
+import { DEFAULT_SUBTITLE_STYLE, SUBTITLE_FONTS } from '../services/subtitles';
+import { drawFrame, loadSubtitleFont } from '../services/compositor';
+import { getFrameSize } from '../services/aspectRatio';
+
+const PREVIEW_HEIGHT = 240;
+const PREVIEW_SECONDS = 3; // Karaoke sweep
+const SAMPLE_TEXT = '诸行无常，是生灭法。生灭灭已，寂灭为乐。';
+
+const POSITION_LABELS: Record<SubtitlePosition, string> = { bottom: '底部', middle: '居中', top: '顶部' };
+const LAYOUT_LABELS: Record<SubtitleLayout, string> = { horizontal: '横排', vertical: '竖排 (从右至左)' };
+
+// The style drawn exactly as the Player and exports will draw it, over a dark frame
+const SubtitlePreview: React.FC<{ style: SubtitleStyle; aspectRatio: AspectRatio; text: string }> = ({ style, aspectRatio, text }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frame = getFrameSize(aspectRatio);
+  const width = Math.round(PREVIEW_HEIGHT * frame.width / frame.height);
+  const styleKey = JSON.stringify(style);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    loadSubtitleFont(style, text);
+    const startedAt = performance.now();
+    let request = 0;
+    const tick = () => {
+      const t = ((performance.now() - startedAt) / 1000) % (PREVIEW_SECONDS + 1);
+      drawFrame(ctx, { subtitle: text, subtitleProgress: Math.min(1, t / PREVIEW_SECONDS), subtitleStyle: style, aspectRatio });
+      request = requestAnimationFrame(tick);
+    };
+    request = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(request);
+  }, [styleKey, aspectRatio, text]);
+
+  return <canvas ref={canvasRef} width={width} height={PREVIEW_HEIGHT} className="rounded bg-black shrink-0" />;
+};
+
+interface SubtitleStylePanelProps {
+  value: SubtitleStyle;
+  aspectRatio: AspectRatio;
+  sampleText?: string; // A line from the project, so the preview uses its real characters
+  onChange: (style: SubtitleStyle) => void;
+}
+
+const labelClass = 'text-xs text-monk-500 font-bold';
+const inputClass = 'mt-1 w-full border border-monk-200 rounded p-1.5 font-normal bg-white text-monk-700';
+
+export const SubtitleStylePanel: React.FC<SubtitleStylePanelProps> = ({ value, aspectRatio, sampleText, onChange }) => {
+  const update = (patch: Partial<SubtitleStyle>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="flex flex-col md:flex-row gap-5 text-sm">
+      <SubtitlePreview style={value} aspectRatio={aspectRatio} text={sampleText || SAMPLE_TEXT} />
+
+      <div className="flex-1 grid grid-cols-2 md:grid-cols-4 gap-3 content-start">
+        <label className={`${labelClass} col-span-2`}>
+          字体
+          <select value={value.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })} className={inputClass}>
+            {SUBTITLE_FONTS.map(f => <option key={f.family} value={f.family}>{f.label}</option>)}
+          </select>
+        </label>
+        <label className={labelClass}>
+          字号 {value.fontSize}
+          <input type="range" min={24} max={96} step={2} value={value.fontSize} onChange={(e) => update({ fontSize: Number(e.target.value) })} className="mt-2 w-full accent-monk-600" />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-monk-600 pt-4">
+          <input type="checkbox" checked={value.bold} onChange={(e) => update({ bold: e.target.checked })} />
+          粗体
+        </label>
+
+        <label className={labelClass}>
+          文字颜色
+          <input type="color" value={value.color} onChange={(e) => update({ color: e.target.value })} className="mt-1 w-full h-8" />
+        </label>
+        <label className={labelClass}>
+          描边颜色
+          <input type="color" value={value.outlineColor} onChange={(e) => update({ outlineColor: e.target.value })} className="mt-1 w-full h-8" />
+        </label>
+        <label className={`${labelClass} col-span-2`}>
+          描边粗细 {value.outlineWidth}
+          <input type="range" min={0} max={16} step={1} value={value.outlineWidth} onChange={(e) => update({ outlineWidth: Number(e.target.value) })} className="mt-2 w-full accent-monk-600" />
+        </label>
+
+        <label className="flex items-center gap-2 text-xs text-monk-600">
+          <input type="checkbox" checked={value.box} onChange={(e) => update({ box: e.target.checked })} />
+          背景框
+        </label>
+        <label className={labelClass}>
+          背景颜色
+          <input type="color" value={value.boxColor} disabled={!value.box} onChange={(e) => update({ boxColor: e.target.value })} className="mt-1 w-full h-8 disabled:opacity-40" />
+        </label>
+        <label className={`${labelClass} col-span-2`}>
+          背景不透明度 {Math.round(value.boxOpacity * 100)}%
+          <input type="range" min={0.1} max={1} step={0.05} value={value.boxOpacity} disabled={!value.box} onChange={(e) => update({ boxOpacity: Number(e.target.value) })} className="mt-2 w-full accent-monk-600" />
+        </label>
+
+        <label className={labelClass}>
+          排列
+          <select value={value.layout} onChange={(e) => update({ layout: e.target.value as SubtitleLayout })} className={inputClass}>
+            {(Object.keys(LAYOUT_LABELS) as SubtitleLayout[]).map(l => <option key={l} value={l}>{LAYOUT_LABELS[l]}</option>)}
+          </select>
+        </label>
+        <label className={labelClass}>
+          位置
+          <select value={value.position} onChange={(e) => update({ position: e.target.value as SubtitlePosition })} className={inputClass}>
+            {(Object.keys(POSITION_LABELS) as SubtitlePosition[]).map(p => <option key={p} value={p}>{POSITION_LABELS[p]}</option>)}
+          </select>
+        </label>
+        <label className={`${labelClass} col-span-2`}>
+          边距 {value.margin}px (不小于平台安全区)
+          <input type="range" min={0} max={240} step={10} value={value.margin} disabled={value.position === 'middle'} onChange={(e) => update({ margin: Number(e.target.value) })} className="mt-2 w-full accent-monk-600" />
+        </label>
+
+        <label className="flex items-center gap-2 text-xs text-monk-600" title="随配音逐字变色；时间来自字幕对齐，未对齐时按字数平均">
+          <input type="checkbox" checked={value.karaoke} onChange={(e) => update({ karaoke: e.target.checked })} />
+          卡拉OK逐字高亮
+        </label>
+        <label className={labelClass}>
+          高亮颜色
+          <input type="color" value={value.highlightColor} disabled={!value.karaoke} onChange={(e) => update({ highlightColor: e.target.value })} className="mt-1 w-full h-8 disabled:opacity-40" />
+        </label>
+        <div className="col-span-2 flex items-end justify-end">
+          <button onClick={() => onChange(DEFAULT_SUBTITLE_STYLE)} className="text-xs text-monk-500 hover:text-monk-800 underline">
+            恢复默认
+          </button>
+        </div>
+        {value.layout === 'vertical' && (
+          <p className="col-span-full text-[11px] text-monk-400">竖排仅用于画面内字幕；导出的 ASS 字幕文件仍为横排。</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SutraText } from '../types';
+import { addSutraText, updateSutraInfo, readTextFile, suggestAliases, parseAliases } from '../services/sutraCorpus';
+import { listSutraTexts, deleteSutraText } from '../services/storageService';
+
+interface SutraCorpusPanelProps {
+  onChange: () => void; // The corpus changed; reviews can be checked against it again
+}
+
+// The local sutra texts that quotations in scripts are checked against (see doctrinalReview.ts)
+export const SutraCorpusPanel: React.FC<SutraCorpusPanelProps> = ({ onChange }) => {
+  const [sutras, setSutras] = useState<SutraText[]>([]);
+  const [file, setFile] = useState<File | null>(null);
+  const [title, setTitle] = useState('');
+  const [aliases, setAliases] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reload = () => listSutraTexts().then(setSutras);
+
+  useEffect(() => { reload(); }, []);
+
+  const handlePickFile = (picked: File | null) => {
+    setFile(picked);
+    if (!picked) return;
+    const name = picked.name.replace(/\.[^.]+$/, '');
+    setTitle(name);
+    setAliases(suggestAliases(name).join('，'));
+  };
+
+  const handleAdd = async () => {
+    if (!file) return;
+    setIsAdding(true);
+    try {
+      const text = await readTextFile(file);
+      if (!text.trim()) {
+        alert("文件中没有文字。");
+        return;
+      }
+      await addSutraText(text, title.trim() || file.name, parseAliases(aliases));
+      await reload();
+      onChange();
+      setFile(null);
+      setTitle('');
+      setAliases('');
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (e) {
+      console.error("Failed to add sutra text", e);
+      alert("添加失败，浏览器存储空间可能不足。");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleUpdateAliases = async (sutra: SutraText, value: string) => {
+    const next = parseAliases(value);
+    if (next.join('，') === sutra.aliases.join('，')) return;
+    await updateSutraInfo(sutra.id, { aliases: next });
+    await reload();
+    onChange();
+  };
+
+  const handleDelete = async (sutra: SutraText) => {
+    if (!confirm(`从经文库删除《${sutra.title}》？引用它的文字将无法核实。`)) return;
+    await deleteSutraText(sutra.id);
+    await reload();
+    onChange();
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="text-xs text-monk-500">
+        上传你信任的经文底本（纯文本 .txt，UTF-8 或 GBK）。生成脚本后，旁白中的引文会与这些经文逐字比对：出处不符或找不到原文的引文会在分镜中标出。请使用与旁白相同的简繁体；别名是旁白里可能使用的简称，如「心经」。
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem_1fr_auto] gap-2 items-center">
+        <input ref={fileInputRef} type="file" accept=".txt,text/plain" onChange={(e) => handlePickFile(e.target.files?.[0] || null)} className="text-xs" />
+        <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="经名，如 般若波罗蜜多心经" className="border border-monk-200 rounded p-2" />
+        <input value={aliases} onChange={(e) => setAliases(e.target.value)} placeholder="别名，用逗号分隔，如 心经，般若心经" className="border border-monk-200 rounded p-2" />
+        <button onClick={handleAdd} disabled={!file || isAdding} className="bg-monk-600 hover:bg-monk-700 text-white px-3 py-2 rounded font-bold disabled:bg-stone-300">
+          {isAdding ? '添加中…' : '+ 添加'}
+        </button>
+      </div>
+
+      {sutras.length === 0 ? (
+        <p className="text-xs text-amber-600">经文库为空：引文都将显示为「未找到出处」。</p>
+      ) : (
+        <ul className="divide-y divide-monk-50">
+          {sutras.map(sutra => (
+            <li key={sutra.id} className="grid grid-cols-[12rem_1fr_5rem_auto] gap-2 items-center py-1">
+              <span className="font-bold text-monk-800 truncate" title={sutra.title}>《{sutra.title}》</span>
+              <input
+                defaultValue={sutra.aliases.join('，')}
+                placeholder="(无别名)"
+                onBlur={(e) => handleUpdateAliases(sutra, e.target.value)}
+                className="border border-transparent hover:border-monk-200 rounded px-1 py-0.5 text-monk-600"
+                title="别名，用逗号分隔"
+              />
+              <span className="text-xs text-monk-400 text-right">{sutra.length.toLocaleString()} 字</span>
+              <button onClick={() => handleDelete(sutra)} className="text-xs text-red-300 hover:text-red-600">删除</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React from 'react';
+import { Scene, MediaKind, AssetTake } from '../types';
+import { isActiveTake } from '../services/productionService';
+
+interface TakePickerProps {
+  scene: Scene;
+  sceneNumber: number;
+  kinds: MediaKind[]; // ['video', 'image'] for visuals, ['audio'] for narration
+  onSelect: (kind: MediaKind, take: AssetTake) => void;
+  onDelete: (kind: MediaKind, takeIds: string[]) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<MediaKind, string> = {
+  audio: '配音',
+  video: '视频',
+  image: '图片',
+};
+
+const TakePreview: React.FC<{ kind: MediaKind; take: AssetTake }> = ({ kind, take }) => {
+  if (!take.url) {
+    return <div className="aspect-video bg-stone-100 flex items-center justify-center text-xs text-stone-400">素材不可用</div>;
+  }
+  if (kind === 'video') return <video src={take.url} className="w-full aspect-video object-cover bg-black" controls muted />;
+  if (kind === 'image') return <img src={take.url} className="w-full aspect-video object-cover" />;
+  return (
+    <div className="aspect-video bg-monk-50 flex items-center justify-center p-3">
+      <audio src={take.url} controls className="w-full" />
+    </div>
+  );
+};
+
+export const TakePicker: React.FC<TakePickerProps> = ({ scene, sceneNumber, kinds, onSelect, onDelete, onClose }) => {
+  const entries = kinds
+    .flatMap(kind => (scene.takes?.[kind] || []).map(take => ({ kind, take })))
+    .sort((a, b) => b.take.createdAt - a.take.createdAt);
+  const inactive = entries.filter(e => !isActiveTake(scene, e.kind, e.take));
+
+  const handleDeleteOthers = () => {
+    if (!confirm(`删除 ${inactive.length} 个未使用的版本？此操作无法撤销。`)) return;
+    kinds.forEach(kind => {
+      const ids = inactive.filter(e => e.kind === kind).map(e => e.take.id);
+      if (ids.length > 0) onDelete(kind, ids);
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center p-4 border-b border-monk-100">
+          <h4 className="font-bold text-monk-800">
+            场景 {sceneNumber} · {kinds.map(k => KIND_LABELS[k]).join(' / ')}版本 ({entries.length})
+          </h4>
+          <div className="flex gap-2 text-xs">
+            {inactive.length > 0 && (
+              <button onClick={handleDeleteOthers} className="border border-red-200 text-red-500 px-3 py-1 rounded hover:bg-red-50">
+                只保留当前版本
+              </button>
+            )}
+            <button onClick={onClose} className="text-monk-500 hover:text-monk-800 px-2 py-1">关闭</button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 p-4 overflow-y-auto">
+          {entries.map(({ kind, take }) => {
+            const active = isActiveTake(scene, kind, take);
+            return (
+              <div key={take.id} className={`rounded-xl border overflow-hidden flex flex-col ${active ? 'border-amber-400 ring-2 ring-amber-200' : 'border-monk-200'}`}>
+                <TakePreview kind={kind} take={take} />
+                <div className="p-3 text-xs space-y-1 flex-grow">
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold text-monk-700">{KIND_LABELS[kind]}</span>
+                    {active && <span className="bg-amber-100 text-amber-700 font-bold px-2 py-0.5 rounded text-[10px]">当前</span>}
+                    <span className="text-monk-400 ml-auto">
+                      {take.createdAt ? new Date(take.createdAt).toLocaleString() : '早期版本'}
+                    </span>
+                  </div>
+                  <div className="font-mono text-monk-500 truncate">
+                    {[take.provider, take.model].filter(Boolean).join(' / ') || '未知模型'}
+                    {take.voiceName && ` · ${take.voiceName}`}
+                    {take.duration !== undefined && ` · ${take.duration.toFixed(1)}s`}
+                  </div>
+                  <p className="text-stone-500 line-clamp-2" title={take.prompt}>{take.prompt}</p>
+                </div>
+                {!active && (
+                  <div className="flex border-t border-monk-100 text-xs">
+                    <button onClick={() => onSelect(kind, take)} disabled={!take.url} className="flex-1 py-2 font-bold text-monk-700 hover:bg-monk-50 disabled:text-stone-300">
+                      设为当前
+                    </button>
+                    <button onClick={() => onDelete(kind, [take.id])} className="flex-1 py-2 text-red-400 hover:bg-red-50 border-l border-monk-100">
+                      删除
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
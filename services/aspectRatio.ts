@@ -0,0 +1,51 @@
+import { AspectRatio, Project } from "../types";
+
+// --- Output Aspect Ratio ---
+// The project's frame shape drives generation (Veo / image framing), the preview and export
+// canvas, and where subtitles sit. Sizes are given at 720p: the short side is 720 px.
+
+export interface AspectRatioPreset {
+  label: string;
+  width: number;
+  height: number;
+  // Fractions of the frame covered by platform UI (titles, like / comment buttons, captions)
+  safeArea: { top: number; bottom: number; left: number; right: number };
+}
+
+export const DEFAULT_ASPECT_RATIO: AspectRatio = '16:9';
+
+export const ASPECT_RATIOS: Record<AspectRatio, AspectRatioPreset> = {
+  '16:9': {
+    label: '横屏 16:9 (B站 / YouTube)',
+    width: 1280, height: 720,
+    safeArea: { top: 0.05, bottom: 0.05, left: 0.05, right: 0.05 },
+  },
+  '9:16': {
+    label: '竖屏 9:16 (抖音 / 快手 / Shorts)',
+    width: 720, height: 1280,
+    // Douyin / Shorts overlay the account name and caption at the bottom, buttons on the right
+    safeArea: { top: 0.1, bottom: 0.22, left: 0.05, right: 0.15 },
+  },
+  '1:1': {
+    label: '方形 1:1',
+    width: 720, height: 720,
+    safeArea: { top: 0.06, bottom: 0.06, left: 0.06, right: 0.06 },
+  },
+};
+
+export const getProjectAspectRatio = (project: Pick<Project, 'aspectRatio'>): AspectRatio =>
+  project.aspectRatio || DEFAULT_ASPECT_RATIO;
+
+// Frame size with the given short side (480 / 720 / 1080); even numbers, as H.264 requires
+export const getFrameSize = (aspectRatio: AspectRatio, shortSide = 720) => {
+  const preset = ASPECT_RATIOS[aspectRatio];
+  const k = shortSide / Math.min(preset.width, preset.height);
+  return {
+    width: Math.round((preset.width * k) / 2) * 2,
+    height: Math.round((preset.height * k) / 2) * 2,
+  };
+};
+
+// Veo only renders 16:9 and 9:16; square projects use landscape clips cropped to the centre
+export const getVideoAspectRatio = (aspectRatio: AspectRatio): '16:9' | '9:16' =>
+  aspectRatio === '9:16' ? '9:16' : '16:9';
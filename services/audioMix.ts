@@ -0,0 +1,260 @@
+import { decodeAudioBlob } from "./audioUtils";
+import { Segment } from "./subtitleTiming";
+
+// --- Mixing: Loudness, Ducking, Limiting ---
+// TTS clips come back at noticeably different levels, and music at a fixed volume either
+// drowns the voice or disappears. The mix therefore:
+//   1. normalizes each narration clip to NARRATION_LUFS (ITU-R BS.1770 integrated loudness),
+//   2. ducks the music while narration is speaking (driven by the narration itself),
+//   3. brings the whole mix to TARGET_LUFS and limits peaks below LIMITER_CEILING_DB.
+// The offline renderer does all three exactly; the live Player approximates 2 and 3 with
+// Web Audio nodes (see createLiveMixer).
+
+export const TARGET_LUFS = -14;          // Douyin / Bilibili / YouTube playback norm
+const NARRATION_LUFS = -15;             // Leaves room for the ducked music
+const MAX_CLIP_GAIN_DB = 12;            // Don't blow up near-silent or broken clips
+const DUCK_DB = -10;
+const DUCK_ATTACK_SECONDS = 0.15;
+const DUCK_RELEASE_SECONDS = 0.6;
+const LIMITER_CEILING_DB = -1;
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.08;
+const LIVE_SPEECH_THRESHOLD_DB = -45;    // Narration level above which the live mix ducks
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// --- Loudness (BS.1770) ---
+
+interface Biquad { b0: number; b1: number; b2: number; a1: number; a2: number }
+
+// K-weighting: a +4 dB high shelf (head effect) followed by a 38 Hz high-pass
+const kWeighting = (sampleRate: number): Biquad[] => {
+  const shelf = (() => {
+    const A = Math.pow(10, 4 / 40);
+    const w0 = (2 * Math.PI * 1500) / sampleRate;
+    const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+    const cos = Math.cos(w0);
+    const a0 = (A + 1) - (A - 1) * cos + 2 * Math.sqrt(A) * alpha;
+    return {
+      b0: (A * ((A + 1) + (A - 1) * cos + 2 * Math.sqrt(A) * alpha)) / a0,
+      b1: (-2 * A * ((A - 1) + (A + 1) * cos)) / a0,
+      b2: (A * ((A + 1) + (A - 1) * cos - 2 * Math.sqrt(A) * alpha)) / a0,
+      a1: (2 * ((A - 1) - (A + 1) * cos)) / a0,
+      a2: ((A + 1) - (A - 1) * cos - 2 * Math.sqrt(A) * alpha) / a0,
+    };
+  })();
+  const highPass = (() => {
+    const w0 = (2 * Math.PI * 38) / sampleRate;
+    const alpha = Math.sin(w0) / (2 * 0.5);
+    const cos = Math.cos(w0);
+    const a0 = 1 + alpha;
+    return {
+      b0: ((1 + cos) / 2) / a0,
+      b1: -(1 + cos) / a0,
+      b2: ((1 + cos) / 2) / a0,
+      a1: (-2 * cos) / a0,
+      a2: (1 - alpha) / a0,
+    };
+  })();
+  return [shelf, highPass];
+};
+
+// Integrated loudness in LUFS (-Infinity for silence): 400 ms blocks every 100 ms, gated at
+// -70 LUFS absolute and 10 LU below the ungated mean
+export const measureLoudness = (buffer: AudioBuffer): number => {
+  const step = Math.max(1, Math.round(buffer.sampleRate * 0.1));
+  const steps = Math.max(1, Math.ceil(buffer.length / step));
+  const power = new Float64Array(steps); // K-weighted energy per 100 ms, summed over channels
+  const filters = kWeighting(buffer.sampleRate);
+
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    const state = filters.map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0 }));
+    for (let i = 0; i < data.length; i++) {
+      let x = data[i];
+      for (let f = 0; f < filters.length; f++) {
+        const c = filters[f];
+        const s = state[f];
+        const y = c.b0 * x + c.b1 * s.x1 + c.b2 * s.x2 - c.a1 * s.y1 - c.a2 * s.y2;
+        s.x2 = s.x1; s.x1 = x; s.y2 = s.y1; s.y1 = y;
+        x = y;
+      }
+      power[Math.floor(i / step)] += x * x;
+    }
+  }
+
+  // Clips shorter than one block are measured as a single block
+  const blockSteps = Math.min(4, steps);
+  const blocks: number[] = [];
+  for (let i = 0; i + blockSteps <= steps; i++) {
+    let sum = 0;
+    for (let j = i; j < i + blockSteps; j++) sum += power[j];
+    blocks.push(sum / (blockSteps * step));
+  }
+
+  const lufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const absGated = blocks.filter(z => lufs(z) > -70);
+  if (absGated.length === 0) return -Infinity;
+  const relativeGate = lufs(mean(absGated)) - 10;
+  const gated = absGated.filter(z => lufs(z) > relativeGate);
+  return lufs(mean(gated.length > 0 ? gated : absGated));
+};
+
+// Gain that brings a clip of this loudness to the narration level
+export const narrationGainFor = (loudness: number) =>
+  Number.isFinite(loudness)
+    ? dbToGain(Math.max(-MAX_CLIP_GAIN_DB, Math.min(MAX_CLIP_GAIN_DB, NARRATION_LUFS - loudness)))
+    : 1;
+
+// Per-URL cache for the live Player, which measures each narration once per session
+const clipGains = new Map<string, Promise<number>>();
+
+export const getNarrationClipGain = (url: string): Promise<number> => {
+  let gain = clipGains.get(url);
+  if (!gain) {
+    gain = fetch(url)
+      .then(res => res.blob())
+      .then(decodeAudioBlob)
+      .then(buffer => narrationGainFor(measureLoudness(buffer)))
+      .catch(e => {
+        console.warn("Could not measure narration loudness", e);
+        return 1;
+      });
+    clipGains.set(url, gain);
+  }
+  return gain;
+};
+
+// --- Ducking ---
+
+// Automates `gain` (a music gain stage at 1.0) down by DUCK_DB over each stretch of speech.
+// Stretches closer than the attack + release are merged so the music doesn't pump.
+export const scheduleDucking = (gain: AudioParam, speech: Segment[]) => {
+  const sorted = [...speech].sort((a, b) => a.start - b.start);
+  const merged: Segment[] = [];
+  for (const s of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && s.start - last.end < DUCK_ATTACK_SECONDS + DUCK_RELEASE_SECONDS) last.end = Math.max(last.end, s.end);
+    else merged.push({ ...s });
+  }
+
+  const ducked = dbToGain(DUCK_DB);
+  gain.setValueAtTime(1, 0);
+  for (const s of merged) {
+    gain.setValueAtTime(1, Math.max(0, s.start - DUCK_ATTACK_SECONDS));
+    gain.linearRampToValueAtTime(ducked, Math.max(0, s.start));
+    gain.setValueAtTime(ducked, s.end);
+    gain.linearRampToValueAtTime(1, s.end + DUCK_RELEASE_SECONDS);
+  }
+};
+
+// --- Master ---
+
+// Sliding-window minimum over [i, i + window] (monotonic deque), so the gain is already down
+// when a peak arrives
+const lookaheadMin = (values: Float32Array, window: number): Float32Array => {
+  const out = new Float32Array(values.length);
+  const deque = new Int32Array(values.length);
+  let head = 0;
+  let tail = 0;
+  let next = 0;
+  for (let i = 0; i < values.length; i++) {
+    const end = Math.min(values.length - 1, i + window);
+    for (; next <= end; next++) {
+      while (tail > head && values[deque[tail - 1]] >= values[next]) tail--;
+      deque[tail++] = next;
+    }
+    while (deque[head] < i) head++;
+    out[i] = values[deque[head]];
+  }
+  return out;
+};
+
+// Brings the mix to TARGET_LUFS, then a lookahead peak limiter keeps samples under the
+// ceiling. Works in place and returns the same buffer.
+export const masterMix = (buffer: AudioBuffer): AudioBuffer => {
+  const loudness = measureLoudness(buffer);
+  const makeup = Number.isFinite(loudness) ? dbToGain(TARGET_LUFS - loudness) : 1;
+  const ceiling = dbToGain(LIMITER_CEILING_DB);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+
+  // Gain each sample needs to stay under the ceiling
+  const needed = new Float32Array(buffer.length);
+  for (let i = 0; i < buffer.length; i++) {
+    let peak = 0;
+    for (const data of channels) peak = Math.max(peak, Math.abs(data[i] * makeup));
+    needed[i] = peak > ceiling ? ceiling / peak : 1;
+  }
+
+  const lookahead = Math.max(1, Math.round(buffer.sampleRate * LIMITER_LOOKAHEAD_SECONDS));
+  const target = lookaheadMin(needed, lookahead);
+
+  // Instant attack (already early thanks to the lookahead), smooth release...
+  const release = 1 - Math.exp(-1 / (buffer.sampleRate * LIMITER_RELEASE_SECONDS));
+  const envelope = needed; // No longer needed; reused to keep long mixes within memory
+  let g = 1;
+  for (let i = 0; i < buffer.length; i++) {
+    g = Math.min(target[i], g + (1 - g) * release);
+    envelope[i] = g;
+  }
+
+  // ...then a moving average over the lookahead removes the step at each attack. Every sample
+  // in the window before a peak is already at or below the gain that peak needs.
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    sum += envelope[i];
+    if (i >= lookahead) sum -= envelope[i - lookahead];
+    const gain = makeup * (sum / Math.min(i + 1, lookahead));
+    for (const data of channels) data[i] *= gain;
+  }
+  return buffer;
+};
+
+// --- Live mix (Player) ---
+
+export interface LiveMixer {
+  narration: GainNode; // Clip normalization x transition fades
+  music: GainNode;     // Track volume x ducking
+  output: AudioNode;   // Connect to speakers / the recording stream
+  // Call every frame: ducks the music while the narration is speaking
+  update: (musicVolume: number) => void;
+}
+
+// Narration and music inputs into a side-chain ducker and a limiter. Levels follow the offline
+// mix; only the final loudness pass needs the whole file and is left to the export.
+export const createLiveMixer = (ctx: AudioContext): LiveMixer => {
+  const narration = ctx.createGain();
+  const music = ctx.createGain();
+  const sidechain = ctx.createAnalyser();
+  sidechain.fftSize = 2048;
+  const limiter = ctx.createDynamicsCompressor();
+  limiter.threshold.value = LIMITER_CEILING_DB - 0.5;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.002;
+  limiter.release.value = LIMITER_RELEASE_SECONDS;
+
+  narration.connect(sidechain);
+  narration.connect(limiter);
+  music.connect(limiter);
+
+  const samples = new Float32Array(sidechain.fftSize);
+  let level = music.gain.value;
+  return {
+    narration,
+    music,
+    output: limiter,
+    update: (musicVolume) => {
+      sidechain.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      const speaking = 10 * Math.log10(sum / samples.length + 1e-12) > LIVE_SPEECH_THRESHOLD_DB;
+      const target = musicVolume * (speaking ? dbToGain(DUCK_DB) : 1);
+      if (target === level) return;
+      const falling = target < level;
+      level = target;
+      music.gain.setTargetAtTime(target, ctx.currentTime, (falling ? DUCK_ATTACK_SECONDS : DUCK_RELEASE_SECONDS) / 3);
+    },
+  };
+};
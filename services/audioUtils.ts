@@ -0,0 +1,86 @@
+// --- Shared Audio Helpers ---
+
+// Decode any browser-supported audio blob (wav/mp3/ogg) into an AudioBuffer
+export const decodeAudioBlob = async (blob: Blob): Promise<AudioBuffer> => {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    return await ctx.decodeAudioData(await blob.arrayBuffer());
+  } finally {
+    if (ctx.state !== 'closed') {
+        ctx.close().catch(console.error);
+    }
+  }
+};
+
+// Join buffers end to end with `gapSeconds` of silence between them. Mono parts are copied
+// to every channel; all parts are expected at the first buffer's sample rate.
+export const concatAudioBuffers = (buffers: AudioBuffer[], gapSeconds: number): AudioBuffer => {
+  const sampleRate = buffers[0].sampleRate;
+  const numberOfChannels = Math.max(...buffers.map(b => b.numberOfChannels));
+  const gap = Math.round(gapSeconds * sampleRate);
+  const length = buffers.reduce((sum, b) => sum + b.length, 0) + gap * (buffers.length - 1);
+
+  const result = new AudioBuffer({ length, numberOfChannels, sampleRate });
+  let offset = 0;
+  for (const part of buffers) {
+    for (let ch = 0; ch < numberOfChannels; ch++) {
+      result.getChannelData(ch).set(part.getChannelData(Math.min(ch, part.numberOfChannels - 1)), offset);
+    }
+    offset += part.length + gap;
+  }
+  return result;
+};
+
+// Helper to convert AudioBuffer to WAV
+export function bufferToWave(abuffer: AudioBuffer, offset: number, len: number) {
+  let numOfChan = abuffer.numberOfChannels,
+      length = len * numOfChan * 2 + 44,
+      buffer = new ArrayBuffer(length),
+      view = new DataView(buffer),
+      channels = [], i, sample,
+      pos = 0;
+
+  // write WAVE header
+  setUint32(0x46464952);                         // "RIFF"
+  setUint32(length - 8);                         // file length - 8
+  setUint32(0x45564157);                         // "WAVE"
+
+  setUint32(0x20746d66);                         // "fmt " chunk
+  setUint32(16);                                 // length = 16
+  setUint16(1);                                  // PCM (uncompressed)
+  setUint16(numOfChan);
+  setUint32(abuffer.sampleRate);
+  setUint32(abuffer.sampleRate * 2 * numOfChan); // avg. bytes/sec
+  setUint16(numOfChan * 2);                      // block-align
+  setUint16(16);                                 // 16-bit
+
+  setUint32(0x61746164);                         // "data" - chunk
+  setUint32(length - pos - 4);                   // chunk length
+
+  // write interleaved data
+  for(i = 0; i < abuffer.numberOfChannels; i++)
+    channels.push(abuffer.getChannelData(i));
+
+  while(pos < length) {
+    for(i = 0; i < numOfChan; i++) {             
+      // clamp and scale
+      sample = Math.max(-1, Math.min(1, channels[i][offset])); 
+      sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767)|0; 
+      view.setInt16(pos, sample, true);          
+      pos += 2;
+    }
+    offset++                                     
+  }
+
+  return new Blob([buffer], { type: "audio/wav" });
+
+  function setUint16(data: any) {
+    view.setUint16(pos, data, true);
+    pos += 2;
+  }
+
+  function setUint32(data: any) {
+    view.setUint32(pos, data, true);
+    pos += 4;
+  }
+}
\ No newline at end of file
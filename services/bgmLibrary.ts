@@ -0,0 +1,71 @@
+import { BgmTrack, Project, ProjectBgm } from "../types";
+import { decodeAudioBlob } from "./audioUtils";
+import { saveBgmTrack, getBgmTrack, listBgmTracks, getBgmTrackUrl } from "./storageService";
+
+// --- Background Music ---
+// Users keep their own tracks in a local library (IndexedDB), so the soundtrack works offline and
+// never hits CORS, and each project picks one. The original online track stays available as a
+// built-in choice and is what projects from before the library still play.
+
+export const BUILTIN_BGM_ID = 'builtin:zen';
+
+// Gentle Zen Music (Ensure it allows CORS)
+export const ZEN_BGM_URL = "https://cdn.pixabay.com/audio/2022/10/18/audio_31c2730e64.mp3";
+
+export const DEFAULT_BGM_VOLUME = 0.15;
+
+export const BGM_MOODS = ['宁静', '庄严', '温暖', '悲悯', '空灵', '欢喜'];
+
+export const DEFAULT_PROJECT_BGM: ProjectBgm = { trackId: BUILTIN_BGM_ID, offset: 0, loop: true, volume: DEFAULT_BGM_VOLUME };
+
+export const getProjectBgm = (project: Pick<Project, 'bgm'>): ProjectBgm => project.bgm || DEFAULT_PROJECT_BGM;
+
+// A project's soundtrack with a playable URL
+export interface ResolvedBgm {
+  url: string;
+  offset: number;
+  loop: boolean;
+  volume: number;
+}
+
+// Undefined when the project has no music or its track was deleted from the library
+export const resolveBgm = async (bgm: ProjectBgm): Promise<ResolvedBgm | undefined> => {
+  if (!bgm.trackId) return undefined;
+  const url = bgm.trackId === BUILTIN_BGM_ID ? ZEN_BGM_URL : await getBgmTrackUrl(bgm.trackId);
+  return url ? { url, offset: bgm.offset, loop: bgm.loop, volume: bgm.volume } : undefined;
+};
+
+export type BgmTrackInfo = Pick<BgmTrack, 'title' | 'mood' | 'license'>;
+
+export const addBgmTrack = async (blob: Blob, info: BgmTrackInfo): Promise<BgmTrack> => {
+  let duration: number | undefined;
+  try {
+    duration = (await decodeAudioBlob(blob)).duration;
+  } catch (e) {
+    // Still usable if the <audio> element can play it; the length is only informational
+    console.warn("Could not measure music track", e);
+  }
+  const track: BgmTrack = {
+    id: `bgm-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+    ...info,
+    duration,
+    createdAt: Date.now(),
+  };
+  await saveBgmTrack({ ...track, blob });
+  return track;
+};
+
+export const updateBgmTrackInfo = async (trackId: string, info: Partial<BgmTrackInfo>) => {
+  const record = await getBgmTrack(trackId);
+  if (record) await saveBgmTrack({ ...record, ...info });
+};
+
+// For bundle import: reuses a library track that looks like the same file instead of adding a copy
+export const findOrAddBgmTrack = async (blob: Blob, info: BgmTrackInfo): Promise<BgmTrack> => {
+  for (const track of await listBgmTracks()) {
+    if (track.title !== info.title) continue;
+    const record = await getBgmTrack(track.id);
+    if (record && record.blob.size === blob.size) return track;
+  }
+  return addBgmTrack(blob, info);
+};
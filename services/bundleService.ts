@@ -0,0 +1,391 @@
+import { Project, Scene, MediaKind } from "../types";
+import { getMediaAsset, saveMediaAsset, getBgmTrack, MEDIA_FIELDS } from "./storageService";
+import { BUILTIN_BGM_ID, BgmTrackInfo, findOrAddBgmTrack } from "./bgmLibrary";
+
+// --- Project Bundle (.zip) ---
+// Layout:
+//   project.json                   -> { format, version, exportedAt, bgmTrack?, project }
+//   media/<scene-no>/audio.wav     -> scene URL fields hold these relative paths
+//   media/<scene-no>/image.png
+//   media/<scene-no>/video.mp4
+//   media/<scene-no>/takes/<kind>-<n>.<ext>  -> earlier takes; a take that is the active asset
+//                                               points at the file above instead
+//   media/bgm/track.<ext>          -> the project's music track; manifest.bgmTrack holds its
+//                                     library info and it rejoins the library on import
+
+export const BUNDLE_FORMAT = 'zencreate-bundle';
+export const BUNDLE_VERSION = 1;
+const MANIFEST_PATH = 'project.json';
+
+const MEDIA_KINDS = Object.keys(MEDIA_FIELDS) as MediaKind[];
+
+export interface BundleIssue {
+  sceneIndex: number; // 0-based; -1 for the project's music
+  kind: MediaKind | 'bgm';
+  path: string;
+  problem: 'missing' | 'corrupt';
+}
+
+export interface BundleImportResult {
+  project: Project;
+  issues: BundleIssue[];
+}
+
+export class BundleFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleFormatError';
+  }
+}
+
+// --- Minimal ZIP (stored entries on write; stored + deflate on read) ---
+
+interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  crcOk: boolean;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const buildZip = (files: { name: string; data: Uint8Array }[]): Blob => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);   // local file header signature
+    local.setUint16(4, 20, true);           // version needed
+    local.setUint16(6, 0x0800, true);       // flags: UTF-8 names
+    local.setUint16(8, 0, true);            // method: stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, file.data.length, true);
+    local.setUint32(22, file.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);  // central directory signature
+    header.setUint16(4, 20, true);          // version made by
+    header.setUint16(6, 20, true);          // version needed
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, file.data.length, true);
+    header.setUint32(24, file.data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);     // local header offset
+
+    parts.push(local.buffer, name as BlobPart, file.data as BlobPart);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + file.data.length;
+  }
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);       // end of central directory signature
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central as BlobPart[], end.buffer], { type: 'application/zip' });
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readZip = async (buffer: ArrayBuffer): Promise<Map<string, ZipEntry>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // Locate the end-of-central-directory record (may be followed by a comment)
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new BundleFormatError("不是有效的 ZIP 文件 (missing end of central directory)");
+
+  const count = view.getUint16(eocd + 10, true);
+  let ptr = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(ptr, true) !== 0x02014b50) throw new BundleFormatError("ZIP 目录已损坏 (bad central directory)");
+    const method = view.getUint16(ptr + 10, true);
+    const crc = view.getUint32(ptr + 16, true);
+    const compressedSize = view.getUint32(ptr + 20, true);
+    const nameLen = view.getUint16(ptr + 28, true);
+    const extraLen = view.getUint16(ptr + 30, true);
+    const commentLen = view.getUint16(ptr + 32, true);
+    const localOffset = view.getUint32(ptr + 42, true);
+    const name = decoder.decode(bytes.subarray(ptr + 46, ptr + 46 + nameLen));
+    ptr += 46 + nameLen + extraLen + commentLen;
+
+    if (name.endsWith('/')) continue; // directory entry
+
+    const localNameLen = view.getUint16(localOffset + 26, true);
+    const localExtraLen = view.getUint16(localOffset + 28, true);
+    const start = localOffset + 30 + localNameLen + localExtraLen;
+    const raw = bytes.subarray(start, start + compressedSize);
+
+    let data: Uint8Array;
+    let crcOk = true;
+    try {
+      if (method === 0) data = raw.slice();
+      else if (method === 8) data = await inflateRaw(raw);
+      else throw new Error(`Unsupported compression method ${method}`);
+      crcOk = crc32(data) === crc;
+    } catch (e) {
+      console.warn(`Failed to read bundle entry ${name}`, e);
+      data = new Uint8Array(0);
+      crcOk = false;
+    }
+    entries.set(name, { name, data, crcOk });
+  }
+
+  return entries;
+};
+
+// --- Media sniffing ---
+
+const startsWith = (data: Uint8Array, sig: number[], offset = 0) =>
+  data.length >= offset + sig.length && sig.every((b, i) => data[offset + i] === b);
+
+const ascii = (s: string) => Array.from(s).map(c => c.charCodeAt(0));
+
+// Cheap header check so a truncated or mislabelled file is reported instead of silently imported
+const looksLikeMedia = (kind: MediaKind, data: Uint8Array): boolean => {
+  if (data.length === 0) return false;
+  switch (kind) {
+    case 'audio':
+      return (startsWith(data, ascii('RIFF')) && startsWith(data, ascii('WAVE'), 8))
+        || startsWith(data, ascii('ID3')) || startsWith(data, [0xff, 0xfb]) || startsWith(data, ascii('OggS'));
+    case 'image':
+      return startsWith(data, [0x89, 0x50, 0x4e, 0x47]) || startsWith(data, [0xff, 0xd8, 0xff])
+        || (startsWith(data, ascii('RIFF')) && startsWith(data, ascii('WEBP'), 8));
+    case 'video':
+      return startsWith(data, ascii('ftyp'), 4) || startsWith(data, [0x1a, 0x45, 0xdf, 0xa3]);
+  }
+};
+
+const MIME_BY_EXT: Record<string, string> = {
+  wav: 'audio/wav', mp3: 'audio/mpeg', ogg: 'audio/ogg', m4a: 'audio/mp4', flac: 'audio/flac',
+  png: 'image/png', jpg: 'image/jpeg', webp: 'image/webp',
+  mp4: 'video/mp4', webm: 'video/webm',
+};
+
+const extensionFor = (kind: MediaKind, mime: string): string => {
+  const match = Object.entries(MIME_BY_EXT).find(([, m]) => m === mime);
+  if (match) return match[0];
+  return kind === 'audio' ? 'wav' : kind === 'image' ? 'png' : 'mp4';
+};
+
+const scenePath = (index: number) => `media/scene-${String(index + 1).padStart(3, '0')}`;
+
+// --- Export ---
+
+export const exportProjectBundle = async (project: Project): Promise<Blob> => {
+  const files: { name: string; data: Uint8Array }[] = [];
+  const scenes: Scene[] = [];
+  const written = new Map<string, string>(); // assetId -> path, so shared assets are stored once
+
+  const addAsset = async (id: string, pathWithoutExt: string, kind: MediaKind): Promise<string | undefined> => {
+    const existing = written.get(id);
+    if (existing) return existing;
+    const record = await getMediaAsset(id);
+    if (!record) return undefined;
+    const path = `${pathWithoutExt}.${extensionFor(kind, record.blob.type)}`;
+    files.push({ name: path, data: new Uint8Array(await record.blob.arrayBuffer()) });
+    written.set(id, path);
+    return path;
+  };
+
+  for (let i = 0; i < project.scenes.length; i++) {
+    const scene: Scene = { ...project.scenes[i] };
+    for (const kind of MEDIA_KINDS) {
+      const { url, assetId } = MEDIA_FIELDS[kind];
+      const id = scene[assetId];
+      scene[assetId] = undefined;
+      scene[url] = id ? await addAsset(id, `${scenePath(i)}/${kind}`, kind) : undefined;
+    }
+    if (scene.takes) {
+      const takes: Scene['takes'] = {};
+      for (const kind of MEDIA_KINDS) {
+        const source = scene.takes[kind];
+        if (!source) continue;
+        takes[kind] = [];
+        for (let n = 0; n < source.length; n++) {
+          const take = source[n];
+          const path = take.assetId ? await addAsset(take.assetId, `${scenePath(i)}/takes/${kind}-${n + 1}`, kind) : undefined;
+          if (path) takes[kind]!.push({ ...take, assetId: undefined, url: path });
+        }
+      }
+      scene.takes = takes;
+    }
+    scenes.push(scene);
+  }
+
+  // Library tracks travel with the project; the built-in online track needs no file
+  let bgmTrack: (BgmTrackInfo & { path: string }) | undefined;
+  const trackId = project.bgm?.trackId;
+  if (trackId && trackId !== BUILTIN_BGM_ID) {
+    const record = await getBgmTrack(trackId);
+    if (record) {
+      const path = `media/bgm/track.${extensionFor('audio', record.blob.type)}`;
+      files.push({ name: path, data: new Uint8Array(await record.blob.arrayBuffer()) });
+      bgmTrack = { path, title: record.title, mood: record.mood, license: record.license };
+    }
+  }
+
+  // Credentials for self-hosted backends stay on this machine
+  const providers = project.providers && Object.fromEntries(
+    Object.entries(project.providers).map(([role, sel]) => [role, { ...sel, apiKey: undefined }])
+  ) as Project['providers'];
+
+  const manifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    bgmTrack,
+    project: { ...project, providers, scenes },
+  };
+  files.unshift({ name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+
+  return buildZip(files);
+};
+
+// --- Import ---
+
+export const isBundleFile = async (file: File): Promise<boolean> => {
+  const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return startsWith(head, [0x50, 0x4b, 0x03, 0x04]);
+};
+
+// Restores the bundle under a fresh project ID. Broken media does not abort the import;
+// the scene keeps its text and the problem is reported per scene.
+export const importProjectBundle = async (file: File): Promise<BundleImportResult> => {
+  const entries = await readZip(await file.arrayBuffer());
+
+  const manifestEntry = entries.get(MANIFEST_PATH);
+  if (!manifestEntry || !manifestEntry.crcOk) throw new BundleFormatError("缺少或损坏的 project.json");
+
+  let manifest: any;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestEntry.data));
+  } catch (e) {
+    throw new BundleFormatError("project.json 解析失败");
+  }
+  if (manifest?.format !== BUNDLE_FORMAT) throw new BundleFormatError("这不是一个 ZenCreate 作品包");
+  if (manifest.version > BUNDLE_VERSION) throw new BundleFormatError(`作品包版本过新 (v${manifest.version})，请升级应用`);
+  if (!Array.isArray(manifest.project?.scenes)) throw new BundleFormatError("作品包中没有分镜数据");
+
+  const source = manifest.project as Project;
+  const projectId = `proj-${Date.now()}-${Math.floor(Math.random()*1000)}`;
+  const issues: BundleIssue[] = [];
+  const scenes: Scene[] = [];
+
+  for (let i = 0; i < source.scenes.length; i++) {
+    const scene: Scene = { ...source.scenes[i] };
+    const restored = new Map<string, string | undefined>(); // path -> new assetId (undefined = broken)
+
+    const restore = async (kind: MediaKind, path: string): Promise<string | undefined> => {
+      if (restored.has(path)) return restored.get(path);
+      let id: string | undefined;
+      const entry = entries.get(path);
+      if (!entry) {
+        issues.push({ sceneIndex: i, kind, path, problem: 'missing' });
+      } else if (!entry.crcOk || !looksLikeMedia(kind, entry.data)) {
+        issues.push({ sceneIndex: i, kind, path, problem: 'corrupt' });
+      } else {
+        const ext = path.split('.').pop() || '';
+        const blob = new Blob([entry.data as BlobPart], { type: MIME_BY_EXT[ext] || '' });
+        id = await saveMediaAsset(projectId, scene.id, kind, blob);
+      }
+      restored.set(path, id);
+      return id;
+    };
+
+    for (const kind of MEDIA_KINDS) {
+      const { url, assetId } = MEDIA_FIELDS[kind];
+      const path = scene[url];
+      scene[url] = undefined;
+      scene[assetId] = path ? await restore(kind, path) : undefined;
+    }
+    if (scene.takes) {
+      const takes: Scene['takes'] = {};
+      for (const kind of MEDIA_KINDS) {
+        const source = scene.takes[kind];
+        if (!source) continue;
+        takes[kind] = [];
+        for (const take of source) {
+          const id = take.url ? await restore(kind, take.url) : undefined;
+          if (id) takes[kind]!.push({ ...take, assetId: id, url: undefined });
+        }
+      }
+      scene.takes = takes;
+    }
+    scenes.push(scene);
+  }
+
+  // Music is only ever reported missing, never fatal: the project then plays without it
+  let bgm = source.bgm;
+  if (bgm?.trackId && bgm.trackId !== BUILTIN_BGM_ID) {
+    const info = manifest.bgmTrack as (BgmTrackInfo & { path: string }) | undefined;
+    const entry = info?.path ? entries.get(info.path) : undefined;
+    if (!info?.path || !entry) {
+      issues.push({ sceneIndex: -1, kind: 'bgm', path: info?.path || 'media/bgm', problem: 'missing' });
+      bgm = { ...bgm, trackId: undefined };
+    } else if (!entry.crcOk || entry.data.length === 0) {
+      issues.push({ sceneIndex: -1, kind: 'bgm', path: info.path, problem: 'corrupt' });
+      bgm = { ...bgm, trackId: undefined };
+    } else {
+      const ext = info.path.split('.').pop() || '';
+      const blob = new Blob([entry.data as BlobPart], { type: MIME_BY_EXT[ext] || '' });
+      const track = await findOrAddBgmTrack(blob, { title: info.title, mood: info.mood, license: info.license });
+      bgm = { ...bgm, trackId: track.id };
+    }
+  }
+
+  const project: Project = {
+    ...source,
+    id: projectId,
+    updatedAt: Date.now(),
+    bgm,
+    scenes,
+  };
+
+  return { project, issues };
+};
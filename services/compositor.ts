@@ -0,0 +1,361 @@
+import { AspectRatio, KenBurnsConfig, SubtitleStyle, TransitionType } from "../types";
+import { DEFAULT_SUBTITLE_STYLE, SECONDARY_SUBTITLE_SCALE, getSubtitleMargins, getKaraokeCut } from "./subtitles";
+import { DEFAULT_ASPECT_RATIO, getFrameSize } from "./aspectRatio";
+import { DEFAULT_KEN_BURNS, getKenBurnsTransform } from "./kenBurns";
+
+// --- Frame Compositing ---
+// How one frame of the finished video is drawn. Shared by the live Player preview and the
+// offline renderer so an exported file looks exactly like the preview.
+
+export type FrameVisual = HTMLVideoElement | HTMLImageElement | ImageBitmap | VideoFrame;
+
+// One scene's picture
+export interface FrameLayer {
+  visual?: FrameVisual;
+  isStill?: boolean;  // Image (gets Ken Burns) rather than video
+  progress?: number;  // 0..1 through the scene, drives Ken Burns
+  kenBurns?: KenBurnsConfig; // Motion for stills (default: centre zoom in)
+}
+
+// Two scenes overlapping at a boundary (see transitions.ts)
+export interface FrameTransition {
+  type: TransitionType;
+  progress: number;  // 0..1 across the transition; the boundary is at 0.5
+  outgoing: FrameLayer;
+  incoming: FrameLayer;
+}
+
+export interface FrameContent extends FrameLayer {
+  transition?: FrameTransition; // Drawn instead of the layer above while it runs
+  subtitle?: string;
+  subtitleProgress?: number; // 0..1 through the subtitle's time, for karaoke
+  subtitleSecondary?: string; // Translation line (bilingual subtitles)
+  subtitleStyle?: SubtitleStyle;
+  aspectRatio?: AspectRatio; // Frame shape the canvas was sized for; places the subtitles
+}
+
+const visualSize = (img: FrameVisual) => {
+  if (img instanceof HTMLVideoElement) return { w: img.videoWidth, h: img.videoHeight };
+  if (img instanceof HTMLImageElement) return { w: img.naturalWidth, h: img.naturalHeight };
+  if ('displayWidth' in img) return { w: img.displayWidth, h: img.displayHeight };
+  return { w: img.width, h: img.height };
+};
+
+// Draw image nicely scaled ("cover"), with zoomFactor for Ken Burns
+export function drawImageProp(ctx: CanvasRenderingContext2D, img: FrameVisual, x: number, y: number, w: number, h: number, offsetX = 0.5, offsetY = 0.5, zoomFactor = 1.0) {
+  const { w: imgW, h: imgH } = visualSize(img);
+  if (!imgW || !imgH) return;
+
+  // Base Scale to cover the area, then zoom
+  const scale = Math.max(w / imgW, h / imgH) * zoomFactor;
+  const nw = imgW * scale;
+  const nh = imgH * scale;
+
+  // Default (0.5, 0.5) keeps the zoom centred
+  const xPos = x + (w - nw) * offsetX;
+  const yPos = y + (h - nh) * offsetY;
+
+  ctx.drawImage(img, xPos, yPos, nw, nh);
+}
+
+// CJK characters wrap anywhere, other text at spaces; closing punctuation never starts a line
+const WRAP_TOKEN = /[\u3000-\u9fff\uf900-\ufaff\uff00-\uffef]|[^\s\u3000-\u9fff\uf900-\ufaff\uff00-\uffef]+|\s+/g;
+const NO_LINE_START = /^[，。！？；：、,.!?;:）」』》]/;
+
+export const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const token of text.match(WRAP_TOKEN) || []) {
+    const candidate = line + token;
+    if (line.trim() && ctx.measureText(candidate).width > maxWidth && !NO_LINE_START.test(token)) {
+      lines.push(line.trim());
+      line = token.trimStart();
+    } else {
+      line = candidate;
+    }
+  }
+  if (line.trim()) lines.push(line.trim());
+  return lines;
+};
+
+// Presentation forms for vertical text, so commas and brackets sit and turn the way they do in
+// a printed vertical book
+const VERTICAL_FORMS: Record<string, string> = {
+  '，': '︐', '、': '︑', '。': '︒', '：': '︓', '；': '︔', '！': '︕', '？': '︖', '…': '︙', '—': '︱',
+  '（': '︵', '）': '︶', '「': '﹁', '」': '﹂', '『': '﹃', '』': '﹄', '《': '︽', '》': '︾',
+  ',': '︐', ':': '︓', ';': '︔', '!': '︕', '?': '︖', '(': '︵', ')': '︶',
+};
+
+// Splits text into columns of at most perColumn characters; a column never starts with
+// closing punctuation (it stays at the foot of the previous one instead)
+const wrapColumns = (text: string, perColumn: number): string[][] => {
+  const columns: string[][] = [];
+  for (const char of Array.from(text).filter(c => !/\s/.test(c))) {
+    const column = columns[columns.length - 1];
+    if (column && (column.length < perColumn || NO_LINE_START.test(char))) column.push(char);
+    else columns.push([char]);
+  }
+  return columns;
+};
+
+// Draws one glyph run with the style's outline and fill; `lit` characters (karaoke) in the
+// highlight colour. Expects textAlign 'left' (horizontal) or per-character calls (vertical).
+const drawStyledText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, style: SubtitleStyle, lit: boolean) => {
+  if (style.outlineWidth > 0) ctx.strokeText(text, x, y);
+  ctx.fillStyle = lit ? style.highlightColor : style.color;
+  ctx.fillText(text, x, y);
+};
+
+// Style sizes are in 720p pixels and scale with the canvas, so every export resolution looks
+// alike. Text stays inside the aspect ratio's safe area: horizontal lines wrap and stack from the
+// chosen edge, vertical columns run right to left from the right margin. `progress` (0..1 through
+// the subtitle) lights the characters when the style has karaoke on. A `secondary` (translated)
+// line is drawn smaller under horizontal text, and along the bottom under vertical columns.
+export const drawSubtitle = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  style: SubtitleStyle = DEFAULT_SUBTITLE_STYLE,
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO,
+  progress = 1,
+  secondary?: string
+) => {
+  const { width, height } = ctx.canvas;
+  const k = width / getFrameSize(aspectRatio).width;
+  const margins = getSubtitleMargins(style, aspectRatio);
+  const fontSize = style.fontSize * k;
+  const secondarySize = fontSize * SECONDARY_SUBTITLE_SCALE;
+  const top = margins.top * k;
+  const bottom = height - margins.bottom * k;
+  const left = margins.left * k;
+  const right = width - margins.right * k;
+  const cx = (left + right) / 2;
+  const pad = fontSize * 0.3;
+  let cut = style.karaoke ? getKaraokeCut(text, progress) : Infinity;
+
+  ctx.save();
+  const setSize = (size: number) => {
+    ctx.font = `${style.bold ? 'bold ' : ''}${size}px "${style.fontFamily}", "Noto Serif SC", serif`;
+    ctx.lineWidth = style.outlineWidth * k * (size / fontSize);
+  };
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = style.outlineColor;
+  ctx.textBaseline = 'middle';
+
+  // Places a block of the given height against the style's edge
+  const blockTop = (blockHeight: number, areaBottom = bottom) =>
+    style.position === 'top' ? top
+    : style.position === 'middle' ? (top + areaBottom - blockHeight) / 2
+    : areaBottom - blockHeight;
+
+  const drawBox = (x: number, y: number, w: number, h: number) => {
+    if (!style.box) return;
+    ctx.globalAlpha = style.boxOpacity;
+    ctx.fillStyle = style.boxColor;
+    ctx.beginPath();
+    ctx.roundRect(x - pad, y - pad, w + 2 * pad, h + 2 * pad, pad);
+    ctx.fill();
+    ctx.globalAlpha = 1;
+  };
+
+  // Centred horizontal lines from y0, measured at the current font
+  const drawLines = (lines: string[], widths: number[], y0: number, lineHeight: number, karaoke: boolean) => {
+    ctx.textAlign = 'left';
+    lines.forEach((line, i) => {
+      const x = cx - widths[i] / 2;
+      const y = y0 + (i + 0.5) * lineHeight;
+      drawStyledText(ctx, line, x, y, style, false);
+      if (!karaoke || cut <= 0) return;
+      // The lit prefix is redrawn over the line; cut counts non-space characters
+      const chars = Array.from(line);
+      let end = 0;
+      for (let lit = 0; end < chars.length && lit < cut; end++) if (!/\s/.test(chars[end])) lit++;
+      cut -= chars.slice(0, end).filter(c => !/\s/.test(c)).length;
+      ctx.fillStyle = style.highlightColor;
+      ctx.fillText(chars.slice(0, end).join(''), x, y);
+    });
+  };
+
+  setSize(secondarySize);
+  const secondaryLines = secondary ? wrapText(ctx, secondary, right - left) : [];
+  const secondaryWidths = secondaryLines.map(line => ctx.measureText(line).width);
+  const secondaryLineHeight = secondarySize * 1.3;
+  const secondaryHeight = secondaryLines.length * secondaryLineHeight;
+
+  if (style.layout === 'vertical') {
+    if (secondaryLines.length > 0) {
+      const y0 = bottom - secondaryHeight;
+      drawBox(cx - Math.max(...secondaryWidths) / 2, y0, Math.max(...secondaryWidths), secondaryHeight);
+      drawLines(secondaryLines, secondaryWidths, y0, secondaryLineHeight, false);
+    }
+    setSize(fontSize);
+    const columnsBottom = secondaryLines.length > 0 ? bottom - secondaryHeight - 3 * pad : bottom;
+    const advance = fontSize * 1.1;
+    const columnWidth = fontSize * 1.4;
+    const columns = wrapColumns(text, Math.max(1, Math.floor((columnsBottom - top) / advance)));
+    const blockHeight = Math.max(...columns.map(c => c.length)) * advance;
+    const y0 = blockTop(blockHeight, columnsBottom);
+    drawBox(right - columns.length * columnWidth, y0, columns.length * columnWidth, blockHeight);
+
+    ctx.textAlign = 'center';
+    columns.forEach((column, i) => {
+      const x = right - (i + 0.5) * columnWidth;
+      column.forEach((char, j) => {
+        drawStyledText(ctx, VERTICAL_FORMS[char] || char, x, y0 + (j + 0.5) * advance, style, cut > 0);
+        cut--;
+      });
+    });
+  } else {
+    setSize(fontSize);
+    const lines = wrapText(ctx, text, right - left);
+    const widths = lines.map(line => ctx.measureText(line).width);
+    const lineHeight = fontSize * 1.25;
+    const primaryHeight = lines.length * lineHeight;
+    const y0 = blockTop(primaryHeight + secondaryHeight);
+    const maxWidth = Math.max(...widths, ...secondaryWidths);
+    drawBox(cx - maxWidth / 2, y0, maxWidth, primaryHeight + secondaryHeight);
+
+    drawLines(lines, widths, y0, lineHeight, style.karaoke);
+    if (secondaryLines.length > 0) {
+      setSize(secondarySize);
+      drawLines(secondaryLines, secondaryWidths, y0 + primaryHeight, secondaryLineHeight, false);
+    }
+  }
+  ctx.restore();
+};
+
+// Canvas text silently falls back until a web font has loaded, so load the subtitle font (for
+// the characters that will actually appear) before drawing with it
+export const loadSubtitleFont = async (style: SubtitleStyle, text: string) => {
+  try {
+    await document.fonts.load(`${style.bold ? 'bold ' : ''}${style.fontSize}px "${style.fontFamily}"`, text || '字');
+  } catch (e) {
+    console.warn("Could not load subtitle font", e);
+  }
+};
+
+// Covers the whole canvas: the visual with Ken Burns for stills, or near-black without one
+const drawLayer = (ctx: CanvasRenderingContext2D, layer: FrameLayer) => {
+  const { width, height } = ctx.canvas;
+  if (layer.visual && layer.isStill) {
+    const { zoom, offsetX, offsetY } = getKenBurnsTransform(layer.kenBurns || DEFAULT_KEN_BURNS, layer.progress || 0);
+    drawImageProp(ctx, layer.visual, 0, 0, width, height, offsetX, offsetY, zoom);
+  } else if (layer.visual) {
+    drawImageProp(ctx, layer.visual, 0, 0, width, height);
+  } else {
+    ctx.fillStyle = '#111';
+    ctx.fillRect(0, 0, width, height);
+  }
+};
+
+// Ink blots for the ink-wash wipe: where each lands (frame fractions), how far into the
+// transition it starts, and its final radius in frame diagonals. The first one alone covers
+// the frame by the end, so the wipe always finishes on the whole incoming picture.
+const INK_BLOTS = [
+  { x: 0.5, y: 0.55, delay: 0, size: 0.85 },
+  { x: 0.2, y: 0.3, delay: 0.1, size: 0.4 },
+  { x: 0.82, y: 0.72, delay: 0.15, size: 0.4 },
+  { x: 0.78, y: 0.22, delay: 0.25, size: 0.35 },
+  { x: 0.28, y: 0.82, delay: 0.3, size: 0.35 },
+  { x: 0.06, y: 0.58, delay: 0.4, size: 0.3 },
+  { x: 0.94, y: 0.45, delay: 0.45, size: 0.3 },
+];
+
+// Offscreen canvases for the wipe, reused across frames
+let inkMask: HTMLCanvasElement | undefined;
+let inkLayer: HTMLCanvasElement | undefined;
+
+const sizedCanvas = (canvas: HTMLCanvasElement | undefined, width: number, height: number) => {
+  const c = canvas || document.createElement('canvas');
+  if (c.width !== width) c.width = width;
+  if (c.height !== height) c.height = height;
+  return c;
+};
+
+// Reveals `incoming` through blots with ragged, feathered edges that spread like ink in water
+const drawInkReveal = (ctx: CanvasRenderingContext2D, incoming: FrameLayer, progress: number) => {
+  const { width, height } = ctx.canvas;
+  inkMask = sizedCanvas(inkMask, width, height);
+  inkLayer = sizedCanvas(inkLayer, width, height);
+  const mask = inkMask.getContext('2d');
+  const layer = inkLayer.getContext('2d');
+  if (!mask || !layer) return;
+
+  mask.clearRect(0, 0, width, height);
+  const diagonal = Math.hypot(width, height);
+  INK_BLOTS.forEach((blot, i) => {
+    const local = Math.min(1, (progress - blot.delay) / (1 - blot.delay));
+    if (local <= 0) return;
+    // Spreads quickly once it lands, then slows
+    const radius = blot.size * diagonal * (1 - (1 - local) ** 2) * 1.15;
+    const cx = blot.x * width;
+    const cy = blot.y * height;
+    const gradient = mask.createRadialGradient(cx, cy, 0, cx, cy, radius);
+    gradient.addColorStop(0, '#000');
+    gradient.addColorStop(0.7, '#000');
+    gradient.addColorStop(1, 'rgba(0,0,0,0)');
+    mask.fillStyle = gradient;
+    mask.beginPath();
+    for (let step = 0; step <= 48; step++) {
+      const angle = (step / 48) * Math.PI * 2;
+      const r = radius * (1 + 0.1 * Math.sin(5 * angle + i * 1.7) + 0.05 * Math.sin(11 * angle + i * 2.3));
+      if (step === 0) mask.moveTo(cx + r * Math.cos(angle), cy + r * Math.sin(angle));
+      else mask.lineTo(cx + r * Math.cos(angle), cy + r * Math.sin(angle));
+    }
+    mask.fill();
+  });
+
+  layer.globalCompositeOperation = 'source-over';
+  drawLayer(layer, incoming);
+  layer.globalCompositeOperation = 'destination-in';
+  layer.drawImage(inkMask, 0, 0);
+  layer.globalCompositeOperation = 'source-over';
+  ctx.drawImage(inkLayer, 0, 0);
+};
+
+const drawTransition = (ctx: CanvasRenderingContext2D, transition: FrameTransition) => {
+  const { width, height } = ctx.canvas;
+  const p = Math.max(0, Math.min(1, transition.progress));
+  switch (transition.type) {
+    case 'crossfade':
+      drawLayer(ctx, transition.outgoing);
+      ctx.globalAlpha = p;
+      drawLayer(ctx, transition.incoming);
+      ctx.globalAlpha = 1;
+      break;
+    case 'fadeBlack':
+    case 'fadeWhite':
+      // Out to the colour by the boundary, then in from it
+      drawLayer(ctx, p < 0.5 ? transition.outgoing : transition.incoming);
+      ctx.globalAlpha = 1 - Math.abs(2 * p - 1);
+      ctx.fillStyle = transition.type === 'fadeBlack' ? '#000' : '#fff';
+      ctx.fillRect(0, 0, width, height);
+      ctx.globalAlpha = 1;
+      break;
+    case 'inkWipe':
+      drawLayer(ctx, transition.outgoing);
+      drawInkReveal(ctx, transition.incoming, p);
+      break;
+    default:
+      drawLayer(ctx, p < 0.5 ? transition.outgoing : transition.incoming);
+  }
+};
+
+export const drawFrame = (ctx: CanvasRenderingContext2D, content: FrameContent) => {
+  const { width, height } = ctx.canvas;
+
+  // 1. Clear Screen
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+
+  // 2. Scene visual, or both scenes while a transition runs
+  if (content.transition) {
+    drawTransition(ctx, content.transition);
+  } else {
+    drawLayer(ctx, content);
+  }
+
+  // 3. Subtitles
+  if (content.subtitle) {
+    drawSubtitle(ctx, content.subtitle, content.subtitleStyle, content.aspectRatio, content.subtitleProgress, content.subtitleSecondary);
+  }
+};
@@ -0,0 +1,82 @@
+import { CastMember, NarrationLanguage } from "../types";
+import { TtsProvider } from "./providers";
+import { concatAudioBuffers, decodeAudioBlob, bufferToWave } from "./audioUtils";
+import { LexiconEntry, loadLexicon, applyLexicon } from "./lexicon";
+
+// --- Dialogue Narration ---
+// A scene's narration may contain lines tagged with a cast member's name ("佛陀：善哉。").
+// Tagged lines are spoken with that character's voice, everything else with the narrator's.
+// Only names on the project's cast count as tags, so ordinary text like "他说：" is left alone.
+
+export interface DialogueLine {
+  speaker?: CastMember; // undefined = narrator
+  text: string;
+}
+
+const TAG_PATTERN = /^([^：:\n]{1,20})[：:]\s*(.*)$/;
+
+export const parseDialogue = (narration: string, cast: CastMember[] = []): DialogueLine[] =>
+  narration.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+    const match = line.match(TAG_PATTERN);
+    const speaker = match ? cast.find(c => c.name.trim() && c.name.trim() === match[1].trim()) : undefined;
+    return speaker ? { speaker, text: match![2] } : { text: line };
+  });
+
+export const hasDialogue = (narration: string, cast: CastMember[] = []) =>
+  parseDialogue(narration, cast).some(line => line.speaker);
+
+// Narration as it is spoken / subtitled
+export const stripSpeakerTags = (narration: string, cast: CastMember[] = []) =>
+  cast.length === 0 ? narration : parseDialogue(narration, cast).map(line => line.text).join('\n');
+
+// Which voice each speaking character of the narration uses right now
+export const getSpeakerVoices = (narration: string, cast: CastMember[] = []): Record<string, string> =>
+  Object.fromEntries(parseDialogue(narration, cast).filter(l => l.speaker).map(l => [l.speaker!.name, l.speaker!.voiceName]));
+
+const LINE_GAP_SECONDS = 0.3;
+
+export interface NarrationAudio {
+  url: string;
+  duration: number;
+  speakerVoices?: Record<string, string>;
+}
+
+// Plain narration is one TTS call as before. Dialogue is synthesized per run of lines sharing
+// a voice and stitched into a single WAV, so `duration` covers the whole scene. Either way the
+// text is respelled with the pronunciation lexicon entries of the narration's language first.
+export const synthesizeNarration = async (
+  tts: TtsProvider,
+  narration: string,
+  cast: CastMember[] | undefined,
+  narratorVoice: string,
+  language: NarrationLanguage,
+  lexicon: LexiconEntry[] = loadLexicon()
+): Promise<NarrationAudio> => {
+  const speak = (text: string, voice: string) => tts.synthesize(applyLexicon(text, lexicon, language), voice);
+  const lines = parseDialogue(narration, cast);
+  if (!lines.some(line => line.speaker)) return speak(narration, narratorVoice);
+
+  const runs: { voice: string; text: string }[] = [];
+  for (const line of lines) {
+    const voice = line.speaker?.voiceName || narratorVoice;
+    const last = runs[runs.length - 1];
+    if (last && last.voice === voice) last.text += `\n${line.text}`;
+    else runs.push({ voice, text: line.text });
+  }
+
+  const buffers: AudioBuffer[] = [];
+  for (const run of runs) {
+    const part = await speak(run.text, run.voice);
+    const blob = await (await fetch(part.url)).blob();
+    URL.revokeObjectURL(part.url);
+    buffers.push(await decodeAudioBlob(blob));
+  }
+
+  const stitched = concatAudioBuffers(buffers, LINE_GAP_SECONDS);
+  const wavBlob = bufferToWave(stitched, 0, stitched.length);
+  return {
+    url: URL.createObjectURL(wavBlob),
+    duration: stitched.duration,
+    speakerVoices: getSpeakerVoices(narration, cast),
+  };
+};
@@ -0,0 +1,274 @@
+import { Project, Scene, SceneDoctrine, SceneReview, QuoteCheck, QuoteVerdict, SutraText } from "../types";
+import { EditCommand } from "./editHistory";
+import { ScriptProvider } from "./providers";
+import { DEFAULT_LANGUAGE, getProjectLanguage } from "./languages";
+import { SutraTextRecord } from "./storageService";
+import { DoctrineRequest } from "./prompts";
+import { GenerationError } from "./errors";
+
+// --- Doctrinal Review ---
+// Generated scripts can put words in a sutra's mouth. After generation the script provider lists
+// each scene's quotations and doctrinal claims, and every quotation is fuzzy-matched against the
+// user's sutra corpus (sutraCorpus.ts). Misattributed and unverified quotations are flagged in the
+// editor until fixed or signed off. Claims can't be settled by text matching; they are listed for
+// a reviewer to read. A review goes stale when its narration is edited, like a translation.
+
+// Similarity at which a quotation is the passage, or a loose rendering of it
+const VERIFIED_SCORE = 0.9;
+const APPROXIMATE_SCORE = 0.7;
+
+export const VERDICT_LABELS: Record<QuoteVerdict, string> = {
+  verified: '已核实',
+  approximate: '文字有出入',
+  misattributed: '出处有误',
+  unverified: '未找到出处',
+};
+
+export const isFlagged = (quote: QuoteCheck) => quote.verdict === 'misattributed' || quote.verdict === 'unverified';
+
+// --- Matching ---
+
+// Only letters and digits are compared: punctuation and spacing differ between editions
+const MATCHABLE = /[\p{L}\p{N}]/u;
+
+interface PreparedText {
+  raw: string[];     // Code points of the original text
+  chars: string[];   // Its matchable characters, lower-cased
+  offsets: number[]; // Index in `raw` of each of `chars`
+}
+
+interface PreparedSutra extends PreparedText {
+  sutra: SutraText;
+}
+
+const prepareText = (text: string): PreparedText => {
+  const raw = Array.from(text);
+  const chars: string[] = [];
+  const offsets: number[] = [];
+  raw.forEach((c, i) => {
+    if (!MATCHABLE.test(c)) return;
+    chars.push(c.toLowerCase());
+    offsets.push(i);
+  });
+  return { raw, chars, offsets };
+};
+
+// Where in `text` the quotation-sized window sharing the most character bigrams with it starts
+const findCandidate = (quote: string[], text: string[]): number | undefined => {
+  const wanted = new Map<string, number>();
+  for (let i = 0; i + 1 < quote.length; i++) {
+    const gram = quote[i] + quote[i + 1];
+    wanted.set(gram, (wanted.get(gram) || 0) + 1);
+  }
+  const span = quote.length - 1; // Bigrams per window
+  const held = new Map<string, number>();
+  let shared = 0;
+  let best = { start: -1, shared: 0 };
+  for (let i = 0; i + 1 < text.length; i++) {
+    const gram = text[i] + text[i + 1];
+    const want = wanted.get(gram);
+    if (want) {
+      const count = (held.get(gram) || 0) + 1;
+      held.set(gram, count);
+      if (count <= want) shared++;
+    }
+    if (i >= span) {
+      const old = text[i - span] + text[i - span + 1];
+      const oldWant = wanted.get(old);
+      if (oldWant) {
+        const count = held.get(old)!;
+        held.set(old, count - 1);
+        if (count <= oldWant) shared--;
+      }
+    }
+    if (shared > best.shared) best = { start: Math.max(0, i - span + 1), shared };
+  }
+  return best.start < 0 ? undefined : best.start;
+};
+
+// Edit distance from the quotation to its closest substring of `text`, and where that substring is
+const alignQuote = (quote: string[], text: string[]): { distance: number; start: number; end: number } => {
+  let prev = text.map(() => 0).concat(0); // Matching may start anywhere in the text for free
+  let prevStart = prev.map((_, j) => j);
+  for (let i = 1; i <= quote.length; i++) {
+    const row = [i];
+    const rowStart = [0];
+    for (let j = 1; j <= text.length; j++) {
+      const options = [
+        { cost: prev[j - 1] + (quote[i - 1] === text[j - 1] ? 0 : 1), start: prevStart[j - 1] },
+        { cost: prev[j] + 1, start: prevStart[j] },
+        { cost: row[j - 1] + 1, start: rowStart[j - 1] },
+      ];
+      const pick = options.reduce((a, b) => b.cost < a.cost ? b : a);
+      row.push(pick.cost);
+      rowStart.push(pick.start);
+    }
+    prev = row;
+    prevStart = rowStart;
+  }
+  let end = 0;
+  prev.forEach((cost, j) => { if (cost < prev[end]) end = j; });
+  return { distance: prev[end], start: prevStart[end], end };
+};
+
+interface PassageMatch {
+  sutra: SutraText;
+  score: number;
+  passage: string;
+}
+
+const matchInSutra = (quote: string[], sutra: PreparedSutra): PassageMatch | undefined => {
+  const candidate = findCandidate(quote, sutra.chars);
+  if (candidate === undefined) return undefined;
+  // Some slack either side, so insertions and omissions in the quotation still align
+  const from = Math.max(0, candidate - Math.ceil(quote.length / 2));
+  const window = sutra.chars.slice(from, candidate + Math.ceil(quote.length * 1.5));
+  const { distance, start, end } = alignQuote(quote, window);
+  if (end <= start) return undefined;
+  return {
+    sutra: sutra.sutra,
+    score: Math.max(0, 1 - distance / quote.length),
+    passage: sutra.raw.slice(sutra.offsets[from + start], sutra.offsets[from + end - 1] + 1).join(''),
+  };
+};
+
+// 《心经》, "般若心经" and "心经" all credit 般若波罗蜜多心经 (by title or alias)
+const creditsSutra = (attributedTo: string, sutra: SutraText): boolean => {
+  const credit = prepareText(attributedTo).chars.join('');
+  if (credit.length < 2) return false;
+  return [sutra.title, ...sutra.aliases]
+    .map(name => prepareText(name).chars.join(''))
+    .some(name => name.length >= 2 && (name.includes(credit) || credit.includes(name)));
+};
+
+const checkQuote = (quote: SceneDoctrine['quotes'][number], corpus: PreparedSutra[]): QuoteCheck => {
+  const attributedTo = quote.attributedTo?.trim() || undefined;
+  const chars = prepareText(quote.text).chars;
+  const matches = chars.length < 2 ? [] : corpus
+    .map(sutra => matchInSutra(chars, sutra))
+    .filter((m): m is PassageMatch => !!m && m.score >= APPROXIMATE_SCORE)
+    .sort((a, b) => b.score - a.score);
+  const found = (match: PassageMatch, verdict: QuoteVerdict): QuoteCheck =>
+    ({ text: quote.text, attributedTo, verdict, source: match.sutra.title, passage: match.passage, score: match.score });
+  const closeness = (match: PassageMatch): QuoteVerdict => match.score >= VERIFIED_SCORE ? 'verified' : 'approximate';
+
+  const credited = attributedTo ? corpus.filter(s => creditsSutra(attributedTo, s.sutra)).map(s => s.sutra) : [];
+  const inCredited = matches.find(m => credited.includes(m.sutra));
+  if (inCredited) return found(inCredited, closeness(inCredited));
+  if (matches.length === 0) return { text: quote.text, attributedTo, verdict: 'unverified', score: 0 };
+  if (!attributedTo) return found(matches[0], closeness(matches[0]));
+  // Found elsewhere: wrong source if the credited text is in the corpus, otherwise unconfirmed
+  return found(matches[0], credited.length > 0 ? 'misattributed' : 'unverified');
+};
+
+// --- Extraction ---
+
+const QUOTE_MARKS = /[「『“"]([^」』”"]+)[」』”"]/g;
+const CREDITED_SAYING = /《([^》]+)》[^。！？\n「『“"]{0,4}?(?:云|曰|说|讲|言|道)[：:，,]?\s*(?:[「『“"]([^」』”"]+)[」』”"]|([^。！？\n「『“"]+))/g;
+
+// Quotations the narration marks itself, as a safety net for any the model leaves out
+const findMarkedQuotes = (narration: string): SceneDoctrine['quotes'] => {
+  const quotes: SceneDoctrine['quotes'] = [];
+  for (const m of narration.matchAll(CREDITED_SAYING)) {
+    quotes.push({ text: (m[2] || m[3]).trim(), attributedTo: m[1] });
+  }
+  for (const m of narration.matchAll(QUOTE_MARKS)) {
+    // Credited to the last 《title》 earlier in the same sentence, if any
+    const sentence = narration.slice(0, m.index).split(/[。！？\n]/).pop() || '';
+    const title = [...sentence.matchAll(/《([^》]+)》/g)].pop();
+    quotes.push({ text: m[1].trim(), attributedTo: title?.[1] });
+  }
+  return quotes;
+};
+
+const matchKey = (text: string) => prepareText(text).chars.join('');
+
+// The model's quotations, plus marked ones it missed; overlapping texts count as the same quotation
+const mergeQuotes = (extracted: SceneDoctrine['quotes'], marked: SceneDoctrine['quotes']): SceneDoctrine['quotes'] => {
+  const merged = extracted.filter(q => matchKey(q.text).length >= 2).map(q => ({ ...q }));
+  for (const quote of marked) {
+    const key = matchKey(quote.text);
+    if (key.length < 2) continue;
+    const same = merged.find(q => matchKey(q.text).includes(key) || key.includes(matchKey(q.text)));
+    if (!same) merged.push(quote);
+    else if (!same.attributedTo?.trim()) same.attributedTo = quote.attributedTo;
+  }
+  return merged;
+};
+
+// --- Review State ---
+
+export const needsReview = (scene: Scene) => !!scene.narration.trim() && scene.review?.narration !== scene.narration;
+
+export type ReviewStatus = 'pending' | 'flagged' | 'approved' | 'clear';
+
+export const getReviewStatus = (scene: Scene): ReviewStatus => {
+  if (needsReview(scene)) return 'pending';
+  if (scene.review?.approved) return 'approved';
+  return scene.review?.quotes.some(isFlagged) ? 'flagged' : 'clear';
+};
+
+// The model's answer lined up with the request by the scene numbers it echoes. An answer that skips,
+// merges or repeats scenes would hand one scene's quotations to another: it is asked for once more,
+// then refused. Answers without any scene numbers (recordings made before they were asked for)
+// are taken in order when the count matches.
+const extractByScene = async (script: ScriptProvider, req: DoctrineRequest): Promise<SceneDoctrine[]> => {
+  for (let attempt = 1; ; attempt++) {
+    const result = await script.extractDoctrine(req);
+    const numbered = result.some(d => Number.isInteger(d.scene));
+    if (!numbered && result.length === req.scenes.length) return result;
+    const byScene = req.scenes.map((_, i) => result.filter(d => d.scene === i + 1));
+    if (result.length === req.scenes.length && byScene.every(d => d.length === 1)) return byScene.map(d => d[0]);
+    if (attempt >= 2) {
+      throw new GenerationError('unknown', `Doctrinal review answered ${result.length} entries for ${req.scenes.length} scenes without matching scene numbers; run the review again`);
+    }
+  }
+};
+
+// Reviews for every scene without a current one, by scene ID
+export const reviewScenes = async (
+  script: ScriptProvider,
+  project: Project,
+  corpus: SutraTextRecord[]
+): Promise<Map<string, SceneReview>> => {
+  const scenes = project.scenes.filter(needsReview);
+  if (scenes.length === 0) return new Map();
+  const language = getProjectLanguage(project);
+  const doctrine = await extractByScene(script, {
+    language: language === DEFAULT_LANGUAGE ? undefined : language, // Like the script requests
+    scenes: scenes.map(s => s.narration),
+  });
+  const prepared = corpus.map(({ text, ...sutra }) => ({ ...prepareText(text), sutra }));
+  return new Map(scenes.map((s, i) => {
+    const found = doctrine[i];
+    const quotes = mergeQuotes(found.quotes || [], findMarkedQuotes(s.narration));
+    return [s.id, {
+      narration: s.narration,
+      quotes: quotes.map(q => checkQuote(q, prepared)),
+      claims: (found.claims || []).map(c => c.trim()).filter(Boolean),
+    }];
+  }));
+};
+
+// Current reviews checked again against the corpus (after texts are added or removed), without
+// asking the model again; sign-offs are kept
+export const recheckQuotes = (project: Project, corpus: SutraTextRecord[]): Map<string, SceneReview> => {
+  const prepared = corpus.map(({ text, ...sutra }) => ({ ...prepareText(text), sutra }));
+  return new Map(project.scenes
+    .filter(s => s.review && !needsReview(s))
+    .map(s => [s.id, { ...s.review!, quotes: s.review!.quotes.map(q => checkQuote(q, prepared)) }]));
+};
+
+export const setReviewsCommand = (project: Project, reviews: Map<string, SceneReview>, label = '经文核查'): EditCommand => {
+  const before = new Map(project.scenes.filter(s => reviews.has(s.id)).map(s => [s.id, s.review]));
+  const setEach = (p: Project, get: (id: string) => SceneReview | undefined): Project => ({
+    ...p,
+    scenes: p.scenes.map(s => before.has(s.id) ? { ...s, review: get(s.id) } : s),
+  });
+  return {
+    label,
+    apply: (p) => setEach(p, id => reviews.get(id)),
+    revert: (p) => setEach(p, id => before.get(id)),
+    at: Date.now(),
+  };
+};
@@ -0,0 +1,144 @@
+import { Project, Scene } from "../types";
+import { mergeSceneUpdates } from "./storageService";
+
+// --- Edit History (Undo / Redo) ---
+// Edits are recorded as commands that know how to apply and revert themselves against the
+// current project, rather than as whole-project snapshots: production jobs keep updating
+// scenes in the background, and undoing a text edit must not roll their results back.
+
+export interface EditCommand {
+  label: string;
+  apply: (project: Project) => Project;
+  revert: (project: Project) => Project;
+  coalesceKey?: string; // Consecutive commands with the same key (e.g. typing in one field) merge
+  assetIds?: string[];  // Media the command points scenes at; see forgetAssets
+  at: number;
+}
+
+interface ProjectHistory {
+  undo: EditCommand[];
+  redo: EditCommand[];
+}
+
+const HISTORY_LIMIT = 100;
+const COALESCE_WINDOW_MS = 1500;
+
+const histories = new Map<string, ProjectHistory>();
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+const notify = () => listeners.forEach(l => l());
+
+export const subscribeHistory = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const historyFor = (projectId: string): ProjectHistory => {
+  let history = histories.get(projectId);
+  if (!history) {
+    history = { undo: [], redo: [] };
+    histories.set(projectId, history);
+  }
+  return history;
+};
+
+// Records a command that has already been applied. A new edit clears the redo stack.
+export const recordEdit = (projectId: string, command: EditCommand) => {
+  const history = historyFor(projectId);
+  const last = history.undo[history.undo.length - 1];
+
+  if (command.coalesceKey && last?.coalesceKey === command.coalesceKey && history.redo.length === 0
+      && command.at - last.at < COALESCE_WINDOW_MS) {
+    // Keep the burst's original "before" state, take the latest "after" state
+    history.undo[history.undo.length - 1] = { ...command, revert: last.revert };
+  } else {
+    history.undo.push(command);
+    if (history.undo.length > HISTORY_LIMIT) history.undo.shift();
+  }
+  history.redo = [];
+  notify();
+};
+
+export const undoEdit = (projectId: string): EditCommand | undefined => {
+  const history = historyFor(projectId);
+  const command = history.undo.pop();
+  if (command) {
+    history.redo.push(command);
+    notify();
+  }
+  return command;
+};
+
+export const redoEdit = (projectId: string): EditCommand | undefined => {
+  const history = historyFor(projectId);
+  const command = history.redo.pop();
+  if (command) {
+    // Re-doing must not coalesce with whatever is typed next
+    history.undo.push({ ...command, coalesceKey: undefined });
+    notify();
+  }
+  return command;
+};
+
+export const getHistoryState = (projectId: string) => {
+  const history = historyFor(projectId);
+  return {
+    undoLabel: history.undo[history.undo.length - 1]?.label,
+    redoLabel: history.redo[history.redo.length - 1]?.label,
+  };
+};
+
+export const clearHistory = (projectId: string) => {
+  histories.delete(projectId);
+  notify();
+};
+
+// Deleted media can't be restored, so commands that would point a scene back at it are dropped
+export const forgetAssets = (projectId: string, assetIds: string[]) => {
+  const history = histories.get(projectId);
+  if (!history || assetIds.length === 0) return;
+  const keep = (c: EditCommand) => !c.assetIds?.some(id => assetIds.includes(id));
+  history.undo = history.undo.filter(keep);
+  history.redo = history.redo.filter(keep);
+  notify();
+};
+
+// --- Commands ---
+
+const updateScene = (project: Project, sceneId: string, updates: Partial<Scene>): Project => ({
+  ...project,
+  scenes: project.scenes.map(s => s.id === sceneId ? mergeSceneUpdates(s, updates) : s),
+});
+
+// Sets some fields of one scene; `before` holds the previous values of the same fields
+export const sceneFieldsCommand = (
+  label: string,
+  sceneId: string,
+  before: Partial<Scene>,
+  after: Partial<Scene>,
+  options: { coalesceKey?: string; assetIds?: string[] } = {}
+): EditCommand => ({
+  label,
+  apply: (project) => updateScene(project, sceneId, after),
+  revert: (project) => updateScene(project, sceneId, before),
+  ...options,
+  at: Date.now(),
+});
+
+// Same for project-level settings
+export const projectFieldsCommand = (
+  label: string,
+  before: Partial<Project>,
+  after: Partial<Project>,
+  options: { coalesceKey?: string } = {}
+): EditCommand => ({
+  label,
+  apply: (project) => ({ ...project, ...after }),
+  revert: (project) => ({ ...project, ...before }),
+  ...options,
+  at: Date.now(),
+});
+
+export const pickSceneFields = (scene: Scene, updates: Partial<Scene>): Partial<Scene> =>
+  Object.fromEntries(Object.keys(updates).map(key => [key, scene[key as keyof Scene]])) as Partial<Scene>;
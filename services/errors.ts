@@ -0,0 +1,131 @@
+import { GenerationErrorKind, SceneError } from "../types";
+
+// --- Typed Generation Errors ---
+// Backends raise these instead of bare strings so the queue, rate limiter and editor can tell
+// "out of quota" from "prompt was blocked" without parsing messages.
+
+export class GenerationError extends Error {
+  kind: GenerationErrorKind;
+  status?: number;
+  retryable?: boolean;   // Worth an immediate retry (see rateLimiter.ts)
+  retryAfterMs?: number; // Server retry hint, when one was given
+
+  constructor(kind: GenerationErrorKind, message: string, details: { status?: number; retryable?: boolean; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.status = details.status;
+    this.retryable = details.retryable;
+    this.retryAfterMs = details.retryAfterMs;
+    // Non-enumerable like the built-in `cause`, so serialising the error doesn't walk the chain
+    if (details.cause !== undefined) Object.defineProperty(this, 'cause', { value: details.cause, writable: true, configurable: true });
+  }
+}
+
+export class QuotaError extends GenerationError {
+  constructor(message: string, details?: { status?: number; retryAfterMs?: number; cause?: unknown }) {
+    super('quota', message, { status: 429, ...details });
+    this.name = 'QuotaError';
+  }
+}
+
+export class SafetyBlockError extends GenerationError {
+  reason?: string;
+
+  constructor(message: string, reason?: string) {
+    super('safety', message);
+    this.name = 'SafetyBlockError';
+    this.reason = reason;
+  }
+}
+
+export class GenerationTimeoutError extends GenerationError {
+  constructor(message: string) {
+    super('timeout', message);
+    this.name = 'GenerationTimeoutError';
+  }
+}
+
+export class EmptyResponseError extends GenerationError {
+  constructor(message: string, retryable = false) {
+    super('empty', message, { retryable });
+    this.name = 'EmptyResponseError';
+  }
+}
+
+export class DownloadError extends GenerationError {
+  constructor(message: string, status?: number) {
+    // 5xx on a media download is usually transient
+    super('download', message, { status, retryable: status === undefined || status >= 500 });
+    this.name = 'DownloadError';
+  }
+}
+
+export class AuthError extends GenerationError {
+  constructor(message: string, status?: number) {
+    super('auth', message, { status });
+    this.name = 'AuthError';
+  }
+}
+
+// Finish / block reasons Gemini uses when a prompt or its output is filtered
+export const SAFETY_REASONS = new Set([
+  'SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT',
+]);
+
+// Message plus the serialised body, where SDKs put status codes like RESOURCE_EXHAUSTED.
+// Some errors can't be serialised (circular references), and they must still be classified.
+const errorText = (e: any) => {
+  let body: string;
+  try {
+    body = JSON.stringify(e) || '';
+  } catch {
+    body = String(e);
+  }
+  return `${e?.message || ''} ${body}`;
+};
+
+// Maps SDK / fetch errors (ApiError carries the HTTP status) onto the typed errors above.
+// Already-typed errors pass through unchanged.
+export const classifyError = (e: any, context: string): GenerationError => {
+  if (e instanceof GenerationError) return e;
+
+  const status: number | undefined = typeof e?.status === 'number' ? e.status : undefined;
+  const text = errorText(e);
+  const message = `${context}: ${e?.message || text || 'Unknown Error'}`;
+
+  if (status === 429 || text.includes('RESOURCE_EXHAUSTED')) {
+    return new QuotaError(message, { retryAfterMs: e?.retryAfterMs, cause: e });
+  }
+  if (status === 401 || status === 403 || text.includes('API_KEY_INVALID') || text.includes('PERMISSION_DENIED')) {
+    return new AuthError(message, status);
+  }
+  if (text.includes('SAFETY') || text.includes('PROHIBITED_CONTENT')) {
+    return new SafetyBlockError(message);
+  }
+  if (status === 504 || text.includes('DEADLINE_EXCEEDED')) {
+    return new GenerationTimeoutError(message);
+  }
+  return new GenerationError('unknown', message, {
+    status,
+    retryable: e?.retryable ?? (status !== undefined && status >= 500),
+    retryAfterMs: e?.retryAfterMs,
+    cause: e,
+  });
+};
+
+export const ERROR_KIND_LABELS: Record<GenerationErrorKind, string> = {
+  quota: '配额用尽',
+  safety: '内容被安全策略拦截',
+  timeout: '生成超时',
+  empty: '返回结果为空',
+  download: '下载失败',
+  auth: 'API Key 无效或无权限',
+  unknown: '生成失败',
+};
+
+export const toSceneError = (e: any): SceneError => ({
+  kind: e instanceof GenerationError ? e.kind : e?.kind in ERROR_KIND_LABELS ? e.kind : 'unknown',
+  message: e?.message || String(e),
+  at: Date.now(),
+});
@@ -1,5 +1,10 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { ScriptGenerationResponse } from "../types";
+import { GoogleGenAI, Type, Modality, GenerateContentResponse } from "@google/genai";
+import { ScriptGenerationResponse, SceneDoctrine, AspectRatio } from "../types";
+import { ScriptProvider, ImageProvider, VideoProvider, TtsProvider } from "./providers";
+import { buildTopicScriptPrompt, buildUserScriptPrompt, buildTranslationPrompt, buildDoctrinePrompt, VIDEO_PROMPT_PREFIX, IMAGE_PROMPT_PREFIX, framingHint } from "./prompts";
+import { DEFAULT_ASPECT_RATIO, getVideoAspectRatio } from "./aspectRatio";
+import { bufferToWave } from "./audioUtils";
+import { classifyError, SafetyBlockError, GenerationTimeoutError, EmptyResponseError, DownloadError, SAFETY_REASONS } from "./errors";
 
 // --- Robust Audio Helpers ---
 
@@ -37,7 +42,7 @@ const decodeAudioData = async (
     const frameCount = dataInt16.length;
     
     if (frameCount === 0) {
-        throw new Error("Empty audio data received");
+        throw new EmptyResponseError("Empty audio data received", true);
     }
 
     const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
@@ -58,164 +63,208 @@ const decodeAudioData = async (
   }
 };
 
-// --- API Functions ---
+// --- Error Helpers ---
 
-// Shared Config
-const SECONDS_PER_SCENE = 6;
-
-// 1. Generate Script (From Topic)
-export const generateScript = async (
-  topic: string,
-  audience: string,
-  durationMinutes: number,
-  globalCharacter: string,
-  globalStyle: string,
-  apiKey: string
-): Promise<ScriptGenerationResponse> => {
-  const ai = new GoogleGenAI({ apiKey });
-  const estimatedScenes = Math.ceil((durationMinutes * 60) / SECONDS_PER_SCENE);
-
-  // Customized Instructions for Buddhist Audiences
-  let audienceInstruction = "";
-  if (audience === "Children") {
-    audienceInstruction = "Target Audience: CHILDREN (Age 5-10). Use the style of 'Jataka Tales' (本生经). Use simple language, focus on animals, kindness, and cause-and-effect (Karma). Tone: Cheerful, warm, storytelling.";
-  } else if (audience === "Elderly") {
-    audienceInstruction = "Target Audience: ELDERLY Buddhists. Focus on Pure Land (净土), Impermanence (无常), and peace of mind. Tone: Slow, comforting, respectful, deep wisdom, chanting style.";
-  } else {
-    audienceInstruction = "Target Audience: GENERAL PUBLIC. Modern Zen style, applicable to daily life, reducing stress. Tone: Calm, clear, inspiring.";
+// Blocked prompts come back as a "successful" response with a block / finish reason
+const assertNotBlocked = (response: GenerateContentResponse, context: string) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(`${context}: prompt blocked (${response.promptFeedback?.blockReasonMessage || blockReason})`, blockReason);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_REASONS.has(finishReason)) {
+    throw new SafetyBlockError(`${context}: output blocked (${finishReason})`, finishReason);
   }
-
-  const prompt = `
-    You are a wise Buddhist content creator (Dharma Master). Create a video script in Simplified Chinese (简体中文).
-    The topic is: "${topic}".
-    ${audienceInstruction}
-    
-    CRITICAL VISUAL CONSISTENCY RULES (Auto-Translation):
-    1. The 'visualDescription' MUST be in English.
-    2. Start EVERY 'visualDescription' by incorporating the global style and character defined below.
-       - Global Style: "${globalStyle}"
-       - Global Character: "${globalCharacter}"
-    3. IMPORTANT: If the 'Global Style' or 'Global Character' are provided in Chinese (or any other language), you MUST translate them into detailed, descriptive English prompts first, and then use that English description in the 'visualDescription'.
-    
-    CONSTRAINTS:
-    1. The total video duration MUST be approximately ${durationMinutes} minutes.
-    2. Each visual scene corresponds to a ${SECONDS_PER_SCENE}-second video clip.
-    3. Therefore, you MUST generate approximately ${estimatedScenes} distinct scenes.
-    4. For each scene's 'narration', keep the text length strictly around 15-20 Chinese characters (readable in ${SECONDS_PER_SCENE}s).
-    5. 'visualDescription' must be a highly detailed English prompt suitable for an AI Video Generator (like Veo).
-    
-    Return a JSON object with a title and a list of scenes. 
-  `;
-
-  return await callGeminiForScript(ai, prompt);
 };
 
-// 1.5 Parse User Script (New Feature)
-export const parseUserScript = async (
-  rawScript: string,
-  globalCharacter: string,
-  globalStyle: string,
-  apiKey: string
-): Promise<ScriptGenerationResponse> => {
-  const ai = new GoogleGenAI({ apiKey });
-  
-  const prompt = `
-    You are a professional video editor. I have a raw script in Chinese. 
-    Please break this script down into video scenes.
-    
-    RAW SCRIPT:
-    "${rawScript}"
-    
-    INSTRUCTIONS:
-    1. Split the text into segments. Each segment should take about ${SECONDS_PER_SCENE} seconds to read (approx 15-20 Chinese characters).
-    2. For each segment, generate a 'visualDescription' in English.
-    
-    CRITICAL VISUAL CONSISTENCY RULES (Auto-Translation):
-    1. The 'visualDescription' MUST be in English.
-    2. Start EVERY 'visualDescription' by incorporating the global style and character defined below.
-       - Global Style: "${globalStyle}"
-       - Global Character: "${globalCharacter}"
-    3. IMPORTANT: If the 'Global Style' or 'Global Character' are provided in Chinese (or any other language), you MUST translate them into detailed, descriptive English prompts first, and then use that English description in the 'visualDescription'.
-    4. Describe the specific action in English matching the text segment.
-    
-    Return a JSON object with a title (summarize script in 5 words) and the list of scenes.
-  `;
+// --- API Functions ---
 
-  return await callGeminiForScript(ai, prompt);
+export const GEMINI_MODELS = {
+  script: ['gemini-2.5-flash', 'gemini-2.5-pro'],
+  image: ['gemini-2.5-flash-image'],
+  video: ['veo-3.1-fast-generate-preview', 'veo-3.1-generate-preview'],
+  tts: ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts'],
 };
 
-// Helper for script calls
-async function callGeminiForScript(ai: GoogleGenAI, prompt: string): Promise<ScriptGenerationResponse> {
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING },
-          scenes: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                narration: { type: Type.STRING },
-                visualDescription: { type: Type.STRING },
+// 1. Generate Script (from a topic, or by parsing the user's own script)
+async function callGeminiForScript(ai: GoogleGenAI, prompt: string, modelName: string): Promise<ScriptGenerationResponse> {
+  const context = `Script generation failed (${modelName})`;
+  let response: GenerateContentResponse;
+  try {
+    response = await ai.models.generateContent({
+      model: modelName,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            scenes: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  narration: { type: Type.STRING },
+                  visualDescription: { type: Type.STRING },
+                },
+                required: ["narration", "visualDescription"],
               },
-              required: ["narration", "visualDescription"],
             },
           },
+          required: ["title", "scenes"],
         },
-        required: ["title", "scenes"],
       },
-    },
-  });
+    });
+  } catch (e: any) {
+    throw classifyError(e, context);
+  }
 
-  if (!response.text) throw new Error("No text returned from Gemini");
+  assertNotBlocked(response, context);
+  if (!response.text) throw new EmptyResponseError(`${context}: no text returned from Gemini`, true);
   return JSON.parse(response.text) as ScriptGenerationResponse;
 }
 
+// Helper for subtitle translation
+async function callGeminiForTranslation(ai: GoogleGenAI, prompt: string, modelName: string): Promise<string[][]> {
+  const context = `Subtitle translation failed (${modelName})`;
+  let response: GenerateContentResponse;
+  try {
+    response = await ai.models.generateContent({
+      model: modelName,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            scenes: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: { lines: { type: Type.ARRAY, items: { type: Type.STRING } } },
+                required: ["lines"],
+              },
+            },
+          },
+          required: ["scenes"],
+        },
+      },
+    });
+  } catch (e: any) {
+    throw classifyError(e, context);
+  }
+
+  assertNotBlocked(response, context);
+  if (!response.text) throw new EmptyResponseError(`${context}: no text returned from Gemini`, true);
+  return (JSON.parse(response.text) as { scenes: { lines: string[] }[] }).scenes.map(s => s.lines);
+}
+
+// Helper for the doctrinal review's extraction step
+async function callGeminiForDoctrine(ai: GoogleGenAI, prompt: string, modelName: string): Promise<SceneDoctrine[]> {
+  const context = `Doctrinal review failed (${modelName})`;
+  let response: GenerateContentResponse;
+  try {
+    response = await ai.models.generateContent({
+      model: modelName,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            scenes: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  scene: { type: Type.INTEGER },
+                  quotes: {
+                    type: Type.ARRAY,
+                    items: {
+                      type: Type.OBJECT,
+                      properties: { text: { type: Type.STRING }, attributedTo: { type: Type.STRING } },
+                      required: ["text"],
+                    },
+                  },
+                  claims: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ["scene", "quotes", "claims"],
+              },
+            },
+          },
+          required: ["scenes"],
+        },
+      },
+    });
+  } catch (e: any) {
+    throw classifyError(e, context);
+  }
+
+  assertNotBlocked(response, context);
+  if (!response.text) throw new EmptyResponseError(`${context}: no text returned from Gemini`, true);
+  return (JSON.parse(response.text) as { scenes: SceneDoctrine[] }).scenes;
+}
+
 // 2. Generate Video (Veo)
 export const generateSceneVideo = async (
   prompt: string,
   apiKey: string,
-  modelName: string = 'veo-3.1-fast-generate-preview'
+  modelName: string = GEMINI_MODELS.video[0],
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
 ): Promise<string> => {
   const ai = new GoogleGenAI({ apiKey });
+  const context = `Veo video generation failed (${modelName})`;
   
   console.log(`Attempting Veo Video Generation (${modelName})...`, prompt);
 
-  // Note: 'numberOfVideos' must be 1 for current Veo Preview models.
-  // To get more videos, we increased the number of scenes in the script generation step.
-  let operation = await ai.models.generateVideos({
-    model: modelName, 
-    prompt: `Cinematic, highly detailed, buddhist atmosphere, ${prompt}`,
-    config: {
-      numberOfVideos: 1,
-      resolution: '720p',
-      aspectRatio: '16:9'
+  let operation;
+  try {
+    // Note: 'numberOfVideos' must be 1 for current Veo Preview models.
+    // To get more videos, we increased the number of scenes in the script generation step.
+    operation = await ai.models.generateVideos({
+      model: modelName, 
+      prompt: `${VIDEO_PROMPT_PREFIX}${framingHint(aspectRatio)}${prompt}`,
+      config: {
+        numberOfVideos: 1,
+        resolution: '720p',
+        aspectRatio: getVideoAspectRatio(aspectRatio)
+      }
+    });
+
+    let attempts = 0;
+    // Increase timeout tolerance for High Quality models (60 * 5s = 5 minutes max)
+    while (!operation.done) {
+      if (attempts > 60) throw new GenerationTimeoutError(`${context}: timed out (5 mins limit exceeded)`);
+      await new Promise(resolve => setTimeout(resolve, 5000));
+      operation = await ai.operations.getVideosOperation({ operation: operation });
+      attempts++;
     }
-  });
-
-  let attempts = 0;
-  // Increase timeout tolerance for High Quality models (60 * 5s = 5 minutes max)
-  while (!operation.done) {
-    if (attempts > 60) throw new Error("Video generation timed out (5 mins limit exceeded)"); 
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    operation = await ai.operations.getVideosOperation({ operation: operation });
-    attempts++;
+  } catch (e: any) {
+    throw classifyError(e, context);
   }
 
   if (operation.error) {
-      throw new Error(`Veo API Error: ${JSON.stringify(operation.error)}`);
+      // Long-running operation errors use google.rpc.Status (code 8 = RESOURCE_EXHAUSTED, 7 = PERMISSION_DENIED)
+      const status = ({ 8: 429, 7: 403, 16: 401 } as Record<number, number>)[operation.error.code as number];
+      throw classifyError({ status, message: JSON.stringify(operation.error) }, context);
+  }
+
+  const filteredReasons = operation.response?.raiMediaFilteredReasons;
+  if (operation.response?.raiMediaFilteredCount || filteredReasons?.length) {
+      throw new SafetyBlockError(`${context}: video filtered by safety policy (${filteredReasons?.join('; ') || 'RAI filter'})`, filteredReasons?.[0]);
   }
 
   const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-  if (!videoUri) throw new Error("Video generation completed but no URI returned.");
+  if (!videoUri) throw new EmptyResponseError(`${context}: completed but no URI returned`);
 
-  const videoRes = await fetch(`${videoUri}&key=${apiKey}`);
-  if (!videoRes.ok) throw new Error(`Failed to download generated video: ${videoRes.statusText}`);
+  let videoRes: Response;
+  try {
+    videoRes = await fetch(`${videoUri}&key=${apiKey}`);
+  } catch (e: any) {
+    throw new DownloadError(`Failed to download generated video: ${e?.message || e}`);
+  }
+  if (!videoRes.ok) throw new DownloadError(`Failed to download generated video: ${videoRes.status} ${videoRes.statusText}`, videoRes.status);
   
   const videoBlob = await videoRes.blob();
   return URL.createObjectURL(videoBlob);
@@ -224,20 +273,33 @@ export const generateSceneVideo = async (
 // 3. Generate Image (Fallback)
 export const generateSceneImage = async (
   prompt: string,
-  apiKey: string
+  apiKey: string,
+  modelName: string = GEMINI_MODELS.image[0],
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
 ): Promise<string> => {
   const ai = new GoogleGenAI({ apiKey });
   
+  const context = `Image generation failed (${modelName})`;
+  
   console.log("Generating Image Fallback...", prompt);
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: {
-      parts: [
-        { text: `Soft, buddhist art style, high quality, ${prompt}` },
-      ],
-    },
-  });
+  let response: GenerateContentResponse;
+  try {
+    response = await ai.models.generateContent({
+      model: modelName,
+      contents: {
+        parts: [
+          { text: `${IMAGE_PROMPT_PREFIX}${framingHint(aspectRatio)}${prompt}` },
+        ],
+      },
+      config: {
+        imageConfig: { aspectRatio },
+      },
+    });
+  } catch (e: any) {
+    throw classifyError(e, context);
+  }
+  assertNotBlocked(response, context);
 
   let base64Data = null;
   if (response.candidates?.[0]?.content?.parts) {
@@ -249,7 +311,7 @@ export const generateSceneImage = async (
       }
   }
 
-  if (!base64Data) throw new Error("No image data generated");
+  if (!base64Data) throw new EmptyResponseError(`${context}: no image data generated`, true);
   
   const byteCharacters = atob(base64Data);
   const byteNumbers = new Array(byteCharacters.length);
@@ -262,116 +324,79 @@ export const generateSceneImage = async (
   return URL.createObjectURL(blob);
 };
 
-// 4. Generate TTS (Correct Model: gemini-2.5-flash-preview-tts)
+// 4. Generate TTS (Default Model: gemini-2.5-flash-preview-tts)
 export const generateSceneAudio = async (
   text: string,
   voiceName: string,
-  apiKey: string
+  apiKey: string,
+  model: string = GEMINI_MODELS.tts[0]
 ): Promise<{ url: string; duration: number }> => {
   const ai = new GoogleGenAI({ apiKey });
-  const MODEL_NAME = "gemini-2.5-flash-preview-tts";
+  const context = `Audio generation failed (${model})`;
   
-  // Retry Logic for Stability
-  let lastError = null;
-  for (let attempt = 1; attempt <= 2; attempt++) {
-      try {
-          console.log(`Generating Audio (Attempt ${attempt})... Model: ${MODEL_NAME}, Voice: ${voiceName}`);
-          
-          const response = await ai.models.generateContent({
-            model: MODEL_NAME,
-            contents: [{ parts: [{ text: text.trim() }] }], // Trim text
-            config: {
-              responseModalities: [Modality.AUDIO], // Strictly use Modality.AUDIO
-              speechConfig: {
-                voiceConfig: {
-                  prebuiltVoiceConfig: { voiceName: voiceName },
-                },
-              },
+  // Retries and pacing are handled by the shared rate limiter (rateLimiter.ts)
+  try {
+      console.log(`Generating Audio... Model: ${model}, Voice: ${voiceName}`);
+      
+      const response = await ai.models.generateContent({
+        model,
+        contents: [{ parts: [{ text: text.trim() }] }], // Trim text
+        config: {
+          responseModalities: [Modality.AUDIO], // Strictly use Modality.AUDIO
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: voiceName },
             },
-          });
-
-          const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-          
-          if (!base64Audio) {
-              console.error("No audio data in response", response);
-              throw new Error("API request succeeded but returned no audio data.");
-          }
+          },
+        },
+      });
+
+      assertNotBlocked(response, context);
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      
+      if (!base64Audio) {
+          console.error("No audio data in response", response);
+          // Occasional empty responses succeed on a second try
+          throw new EmptyResponseError(`${context}: API request succeeded but returned no audio data.`, true);
+      }
 
-          // Robust Decoding
-          const rawBytes = decode(base64Audio);
-          
-          // Convert PCM to AudioBuffer
-          const audioBuffer = await decodeAudioData(rawBytes, 24000);
+      // Robust Decoding
+      const rawBytes = decode(base64Audio);
+      
+      // Convert PCM to AudioBuffer
+      const audioBuffer = await decodeAudioData(rawBytes, 24000);
 
-          // Convert Buffer to WAV Blob
-          const wavBlob = bufferToWave(audioBuffer, 0, audioBuffer.length);
-          const audioUrl = URL.createObjectURL(wavBlob);
+      // Convert Buffer to WAV Blob
+      const wavBlob = bufferToWave(audioBuffer, 0, audioBuffer.length);
+      const audioUrl = URL.createObjectURL(wavBlob);
 
-          return { url: audioUrl, duration: audioBuffer.duration };
+      return { url: audioUrl, duration: audioBuffer.duration };
 
-      } catch (e: any) {
-          console.error(`Audio attempt ${attempt} failed:`, e);
-          lastError = e;
-          // Wait 1s before retry
-          if (attempt < 2) await new Promise(r => setTimeout(r, 1000));
-      }
+  } catch (e: any) {
+      console.error("Audio generation failed:", e);
+      // Typed errors pass through; SDK errors are mapped (keeping status / retry hints for the limiter)
+      throw classifyError(e, context);
   }
-
-  // Improve user-facing error message
-  const errorMsg = lastError?.message || JSON.stringify(lastError) || "Unknown Error";
-  throw new Error(`Audio generation failed (${MODEL_NAME}): ${errorMsg}`);
 };
 
-// Helper to convert AudioBuffer to WAV
-function bufferToWave(abuffer: AudioBuffer, offset: number, len: number) {
-  let numOfChan = abuffer.numberOfChannels,
-      length = len * numOfChan * 2 + 44,
-      buffer = new ArrayBuffer(length),
-      view = new DataView(buffer),
-      channels = [], i, sample,
-      pos = 0;
-
-  // write WAVE header
-  setUint32(0x46464952);                         // "RIFF"
-  setUint32(length - 8);                         // file length - 8
-  setUint32(0x45564157);                         // "WAVE"
-
-  setUint32(0x20746d66);                         // "fmt " chunk
-  setUint32(16);                                 // length = 16
-  setUint16(1);                                  // PCM (uncompressed)
-  setUint16(numOfChan);
-  setUint32(abuffer.sampleRate);
-  setUint32(abuffer.sampleRate * 2 * numOfChan); // avg. bytes/sec
-  setUint16(numOfChan * 2);                      // block-align
-  setUint16(16);                                 // 16-bit
-
-  setUint32(0x61746164);                         // "data" - chunk
-  setUint32(length - pos - 4);                   // chunk length
-
-  // write interleaved data
-  for(i = 0; i < abuffer.numberOfChannels; i++)
-    channels.push(abuffer.getChannelData(i));
-
-  while(pos < length) {
-    for(i = 0; i < numOfChan; i++) {             
-      // clamp and scale
-      sample = Math.max(-1, Math.min(1, channels[i][offset])); 
-      sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767)|0; 
-      view.setInt16(pos, sample, true);          
-      pos += 2;
-    }
-    offset++                                     
-  }
+// --- Provider Implementation ---
 
-  return new Blob([buffer], { type: "audio/wav" });
+// Each call builds its prompt from the whole request (cast and language included) with prompts.ts
+export const createGeminiScriptProvider = (apiKey: string, model: string): ScriptProvider => ({
+  generateScript: (req) => callGeminiForScript(new GoogleGenAI({ apiKey }), buildTopicScriptPrompt(req), model),
+  parseUserScript: (req) => callGeminiForScript(new GoogleGenAI({ apiKey }), buildUserScriptPrompt(req), model),
+  translateSubtitles: (req) => callGeminiForTranslation(new GoogleGenAI({ apiKey }), buildTranslationPrompt(req), model),
+  extractDoctrine: (req) => callGeminiForDoctrine(new GoogleGenAI({ apiKey }), buildDoctrinePrompt(req), model),
+});
 
-  function setUint16(data: any) {
-    view.setUint16(pos, data, true);
-    pos += 2;
-  }
+export const createGeminiImageProvider = (apiKey: string, model: string): ImageProvider => ({
+  generateImage: (prompt, aspectRatio) => generateSceneImage(prompt, apiKey, model, aspectRatio),
+});
 
-  function setUint32(data: any) {
-    view.setUint32(pos, data, true);
-    pos += 4;
-  }
-}
\ No newline at end of file
+export const createGeminiVideoProvider = (apiKey: string, model: string): VideoProvider => ({
+  generateVideo: (prompt, aspectRatio) => generateSceneVideo(prompt, apiKey, model, aspectRatio),
+});
+
+export const createGeminiTtsProvider = (apiKey: string, model: string): TtsProvider => ({
+  synthesize: (text, voiceName) => generateSceneAudio(text, voiceName, apiKey, model),
+});
@@ -0,0 +1,9 @@
+// FNV-1a 32-bit. Stable across sessions, used for fixture seeds and recording keys.
+export const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
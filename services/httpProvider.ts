@@ -0,0 +1,164 @@
+import { ScriptGenerationResponse, SceneDoctrine, ProviderSelection, AspectRatio } from "../types";
+import { ScriptProvider, ImageProvider, VideoProvider, TtsProvider } from "./providers";
+import { buildTopicScriptPrompt, buildUserScriptPrompt, buildTranslationPrompt, buildDoctrinePrompt, SCRIPT_JSON_SHAPE, TRANSLATION_JSON_SHAPE, DOCTRINE_JSON_SHAPE, VIDEO_PROMPT_PREFIX, IMAGE_PROMPT_PREFIX, framingHint } from "./prompts";
+import { bufferToWave, decodeAudioBlob } from "./audioUtils";
+import { parseRetryAfterHeader } from "./rateLimiter";
+import { classifyError, DownloadError, EmptyResponseError } from "./errors";
+
+// --- Generic HTTP Backend ---
+// Speaks the OpenAI-compatible REST shape (chat/completions, images/generations, audio/speech),
+// which most self-hosted servers (vLLM, LocalAI, Ollama, SD WebUI bridges, local TTS) also expose.
+// Video has no common standard; we POST to {endpoint}/videos/generations and accept either
+// raw video bytes or JSON with `url` / `b64_json`.
+
+const joinUrl = (endpoint: string, path: string) => `${endpoint.replace(/\/+$/, '')}/${path}`;
+
+const postJson = async (sel: ProviderSelection, path: string, body: unknown): Promise<Response> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (sel.apiKey) headers['Authorization'] = `Bearer ${sel.apiKey}`;
+
+  const res = await fetch(joinUrl(sel.endpoint || '', path), {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const detail = await res.text().catch(() => '');
+    throw classifyError({
+      status: res.status,
+      message: `${res.status} ${detail || res.statusText}`,
+      retryAfterMs: parseRetryAfterHeader(res.headers.get('Retry-After')),
+    }, `HTTP provider error (${path})`);
+  }
+  return res;
+};
+
+const base64ToBlob = (base64: string, type: string): Blob => {
+  const byteCharacters = atob(base64);
+  const byteArray = new Uint8Array(byteCharacters.length);
+  for (let i = 0; i < byteCharacters.length; i++) {
+      byteArray[i] = byteCharacters.charCodeAt(i);
+  }
+  return new Blob([byteArray], { type });
+};
+
+// Accepts { data: [{ b64_json | url }] } (OpenAI) as well as a flat { b64_json | url }
+const blobFromJsonMedia = async (json: any, type: string): Promise<Blob> => {
+  const item = Array.isArray(json?.data) ? json.data[0] : json;
+  if (item?.b64_json) return base64ToBlob(item.b64_json, type);
+  if (item?.url) {
+    const res = await fetch(item.url);
+    if (!res.ok) throw new DownloadError(`Failed to download generated media: ${res.status} ${res.statusText}`, res.status);
+    return await res.blob();
+  }
+  throw new EmptyResponseError("HTTP provider returned no media data");
+};
+
+// --- Script ---
+
+const callHttpForJson = async (sel: ProviderSelection, prompt: string, shape: string): Promise<any> => {
+  const res = await postJson(sel, 'chat/completions', {
+    model: sel.model,
+    messages: [
+      { role: 'user', content: `${prompt}\nRespond with JSON only, exactly in this shape: ${shape}` },
+    ],
+    response_format: { type: 'json_object' },
+  });
+  const json = await res.json();
+  const text: string | undefined = json?.choices?.[0]?.message?.content;
+  if (!text) throw new EmptyResponseError("No text returned from HTTP provider", true);
+
+  // Some local models wrap JSON in markdown fences
+  const cleaned = text.replace(/^```(?:json)?\s*/i, '').replace(/```\s*$/, '');
+  return JSON.parse(cleaned);
+};
+
+const callHttpForScript = async (sel: ProviderSelection, prompt: string): Promise<ScriptGenerationResponse> => {
+  const parsed = await callHttpForJson(sel, prompt, SCRIPT_JSON_SHAPE) as ScriptGenerationResponse;
+  if (!Array.isArray(parsed?.scenes)) throw new Error("HTTP provider returned a script without scenes");
+  return parsed;
+};
+
+const callHttpForTranslation = async (sel: ProviderSelection, prompt: string): Promise<string[][]> => {
+  const parsed = await callHttpForJson(sel, prompt, TRANSLATION_JSON_SHAPE);
+  if (!Array.isArray(parsed?.scenes)) throw new Error("HTTP provider returned a translation without scenes");
+  return parsed.scenes.map((s: any) => Array.isArray(s?.lines) ? s.lines.map(String) : []);
+};
+
+const callHttpForDoctrine = async (sel: ProviderSelection, prompt: string): Promise<SceneDoctrine[]> => {
+  const parsed = await callHttpForJson(sel, prompt, DOCTRINE_JSON_SHAPE);
+  if (!Array.isArray(parsed?.scenes)) throw new Error("HTTP provider returned a review without scenes");
+  return parsed.scenes.map((s: any) => ({
+    scene: Number(s?.scene),
+    quotes: Array.isArray(s?.quotes) ? s.quotes.filter((q: any) => q?.text).map((q: any) => ({ text: String(q.text), attributedTo: q.attributedTo ? String(q.attributedTo) : undefined })) : [],
+    claims: Array.isArray(s?.claims) ? s.claims.map(String) : [],
+  }));
+};
+
+export const createHttpScriptProvider = (sel: ProviderSelection): ScriptProvider => ({
+  generateScript: (req) => callHttpForScript(sel, buildTopicScriptPrompt(req)),
+  parseUserScript: (req) => callHttpForScript(sel, buildUserScriptPrompt(req)),
+  translateSubtitles: (req) => callHttpForTranslation(sel, buildTranslationPrompt(req)),
+  extractDoctrine: (req) => callHttpForDoctrine(sel, buildDoctrinePrompt(req)),
+});
+
+// --- Image ---
+
+const IMAGE_SIZES: Record<AspectRatio, string> = {
+  '16:9': '1536x1024',
+  '9:16': '1024x1536',
+  '1:1': '1024x1024',
+};
+
+export const createHttpImageProvider = (sel: ProviderSelection): ImageProvider => ({
+  generateImage: async (prompt, aspectRatio) => {
+    console.log(`Generating Image via HTTP (${sel.model})...`, prompt);
+    const res = await postJson(sel, 'images/generations', {
+      model: sel.model,
+      prompt: `${IMAGE_PROMPT_PREFIX}${framingHint(aspectRatio)}${prompt}`,
+      n: 1,
+      response_format: 'b64_json',
+      // OpenAI-style sizes; landscape keeps the server default
+      ...(aspectRatio && aspectRatio !== '16:9' ? { size: IMAGE_SIZES[aspectRatio] } : {}),
+    });
+    const blob = await blobFromJsonMedia(await res.json(), 'image/png');
+    return URL.createObjectURL(blob);
+  },
+});
+
+// --- Video ---
+
+export const createHttpVideoProvider = (sel: ProviderSelection): VideoProvider => ({
+  generateVideo: async (prompt, aspectRatio) => {
+    console.log(`Generating Video via HTTP (${sel.model})...`, prompt);
+    const res = await postJson(sel, 'videos/generations', {
+      model: sel.model,
+      prompt: `${VIDEO_PROMPT_PREFIX}${framingHint(aspectRatio)}${prompt}`,
+      ...(aspectRatio && aspectRatio !== '16:9' ? { aspect_ratio: aspectRatio } : {}),
+    });
+    const contentType = res.headers.get('Content-Type') || '';
+    const blob = contentType.startsWith('video/')
+      ? await res.blob()
+      : await blobFromJsonMedia(await res.json(), 'video/mp4');
+    return URL.createObjectURL(blob);
+  },
+});
+
+// --- TTS ---
+
+export const createHttpTtsProvider = (sel: ProviderSelection): TtsProvider => ({
+  synthesize: async (text, voiceName) => {
+    console.log(`Generating Audio via HTTP... Model: ${sel.model}, Voice: ${voiceName}`);
+    const res = await postJson(sel, 'audio/speech', {
+      model: sel.model,
+      input: text.trim(),
+      voice: voiceName,
+      response_format: 'wav',
+    });
+
+    // Re-encode to WAV so every backend hands the rest of the app the same format
+    const audioBuffer = await decodeAudioBlob(await res.blob());
+    const wavBlob = bufferToWave(audioBuffer, 0, audioBuffer.length);
+    return { url: URL.createObjectURL(wavBlob), duration: audioBuffer.duration };
+  },
+});
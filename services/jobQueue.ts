@@ -0,0 +1,270 @@
+import { ProductionJob, JobKind } from "../types";
+import { QuotaExhaustedError } from "./rateLimiter";
+
+// --- Persistent Production Queue ---
+// Per-scene audio / visual jobs stored in localStorage so production survives reloads and crashes.
+// A single runner executes one job at a time (provider quotas are per account, not per tab).
+// With several tabs open, only the one holding the runner lock works the queue; the others wait
+// for it and take over when that tab closes.
+
+const QUEUE_KEY = 'zencreate_jobs_v1';
+const RUNNER_LOCK = 'zencreate_job_runner';
+
+interface QueueState {
+  paused: boolean;
+  jobs: ProductionJob[];
+}
+
+type Listener = (state: QueueState) => void;
+
+const listeners = new Set<Listener>();
+
+const readState = (): QueueState => {
+  try {
+    const raw = localStorage.getItem(QUEUE_KEY);
+    return raw ? JSON.parse(raw) : { paused: false, jobs: [] };
+  } catch (e) {
+    return { paused: false, jobs: [] };
+  }
+};
+
+const writeState = (state: QueueState) => {
+  try {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(state));
+  } catch (e) {
+    console.error("Failed to save job queue", e);
+  }
+  listeners.forEach(l => l(state));
+  wakeRunner();
+};
+
+const mutate = (fn: (state: QueueState) => QueueState) => writeState(fn(readState()));
+
+export const getQueueState = (): QueueState => readState();
+
+// Another tab changed the queue: refresh this tab's panel, and its runner if it holds the lock
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key !== QUEUE_KEY) return;
+    const state = readState();
+    listeners.forEach(l => l(state));
+    wakeRunner();
+  });
+}
+
+export const subscribeQueue = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const isJobPending = (job: ProductionJob) =>
+  job.state === 'queued' || job.state === 'running' || job.state === 'paused';
+
+export const isJobDeferred = (job: ProductionJob, now: number = Date.now()) =>
+  job.state === 'queued' && !!job.notBefore && job.notBefore > now;
+
+// --- Queue Operations ---
+
+export interface JobRequest {
+  sceneId: string;
+  kind: JobKind;
+  visualMode?: 'VIDEO' | 'IMAGE';
+}
+
+// Skips scenes that already have a pending job of the same kind.
+// Finished jobs of the project are dropped so the panel only shows the current run.
+export const enqueueJobs = (projectId: string, requests: JobRequest[]) => {
+  mutate(state => {
+    const kept = state.jobs.filter(j => j.projectId !== projectId || isJobPending(j) || j.state === 'failed');
+    const nextPriority = kept.reduce((max, j) => Math.max(max, j.priority), 0) + 1;
+    const now = Date.now();
+
+    const added: ProductionJob[] = requests
+      .filter(r => !kept.some(j => j.projectId === projectId && j.sceneId === r.sceneId && j.kind === r.kind && isJobPending(j)))
+      .map((r, i) => ({
+        id: `job-${now}-${i}-${Math.floor(Math.random() * 1000)}`,
+        projectId,
+        sceneId: r.sceneId,
+        kind: r.kind,
+        state: 'queued',
+        priority: nextPriority,
+        visualMode: r.visualMode,
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      }));
+
+    // A re-queued scene supersedes its old failure
+    const remaining = kept.filter(j => !(j.state === 'failed' && added.some(a => a.sceneId === j.sceneId && a.kind === j.kind)));
+    return { ...state, jobs: [...remaining, ...added] };
+  });
+};
+
+export const updateJob = (jobId: string, patch: Partial<ProductionJob>) => {
+  mutate(state => ({
+    ...state,
+    jobs: state.jobs.map(j => j.id === jobId ? { ...j, ...patch, updatedAt: Date.now() } : j),
+  }));
+};
+
+const updateSceneJobs = (projectId: string, sceneId: string, fn: (job: ProductionJob) => ProductionJob) => {
+  mutate(state => ({
+    ...state,
+    jobs: state.jobs.map(j => j.projectId === projectId && j.sceneId === sceneId ? fn(j) : j),
+  }));
+};
+
+// Running jobs are already in flight at the provider and cannot be interrupted
+export const pauseSceneJobs = (projectId: string, sceneId: string) =>
+  updateSceneJobs(projectId, sceneId, j => j.state === 'queued' ? { ...j, state: 'paused', updatedAt: Date.now() } : j);
+
+export const resumeSceneJobs = (projectId: string, sceneId: string) =>
+  updateSceneJobs(projectId, sceneId, j => j.state === 'paused' ? { ...j, state: 'queued', updatedAt: Date.now() } : j);
+
+export const cancelSceneJobs = (projectId: string, sceneId: string, kind?: JobKind) =>
+  updateSceneJobs(projectId, sceneId, j => (j.state === 'queued' || j.state === 'paused') && (!kind || j.kind === kind)
+    ? { ...j, state: 'cancelled', updatedAt: Date.now() }
+    : j);
+
+export const prioritizeSceneJobs = (projectId: string, sceneId: string) => {
+  mutate(state => {
+    const top = state.jobs.reduce((min, j) => Math.min(min, j.priority), 0) - 1;
+    return {
+      ...state,
+      jobs: state.jobs.map(j => j.projectId === projectId && j.sceneId === sceneId && isJobPending(j) ? { ...j, priority: top } : j),
+    };
+  });
+};
+
+export const cancelProjectJobs = (projectId: string) => {
+  mutate(state => ({
+    ...state,
+    jobs: state.jobs.map(j => j.projectId === projectId && (j.state === 'queued' || j.state === 'paused') ? { ...j, state: 'cancelled', updatedAt: Date.now() } : j),
+  }));
+};
+
+export const clearFinishedJobs = (projectId: string) => {
+  mutate(state => ({
+    ...state,
+    jobs: state.jobs.filter(j => j.projectId !== projectId || isJobPending(j)),
+  }));
+};
+
+// Give up waiting for video quota: run the deferred visual jobs as images now
+export const switchDeferredToImage = (projectId: string) => {
+  mutate(state => ({
+    ...state,
+    jobs: state.jobs.map(j => j.projectId === projectId && j.kind === 'VISUAL' && isJobDeferred(j)
+      ? { ...j, visualMode: 'IMAGE', notBefore: undefined, error: undefined, updatedAt: Date.now() }
+      : j),
+  }));
+};
+
+export const retryDeferredNow = (projectId: string) => {
+  mutate(state => ({
+    ...state,
+    jobs: state.jobs.map(j => j.projectId === projectId && isJobDeferred(j)
+      ? { ...j, notBefore: undefined, updatedAt: Date.now() }
+      : j),
+  }));
+};
+
+export const removeProjectJobs = (projectId: string) => {
+  mutate(state => ({ ...state, jobs: state.jobs.filter(j => j.projectId !== projectId) }));
+};
+
+export const setQueuePaused = (paused: boolean) => {
+  mutate(state => ({ ...state, paused }));
+};
+
+// Audio first (it drives scene timing), then by priority, then FIFO
+const KIND_ORDER: Record<JobKind, number> = { AUDIO: 0, VISUAL: 1 };
+
+const nextRunnableJob = (state: QueueState): ProductionJob | undefined =>
+  state.jobs
+    .filter(j => j.state === 'queued' && !isJobDeferred(j))
+    .sort((a, b) => a.priority - b.priority || KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || a.createdAt - b.createdAt)[0];
+
+// --- Runner ---
+
+let runnerToken = 0;
+let recoveredWithoutLock = false;
+let wake: (() => void) | null = null;
+
+function wakeRunner() {
+  if (wake) {
+    const w = wake;
+    wake = null;
+    w();
+  }
+}
+
+// Sleeps until the queue changes or, if jobs are deferred, until the earliest one becomes due
+const waitForWork = (state: QueueState) => new Promise<void>(resolve => {
+  const deferredUntil = state.jobs.filter(j => isJobDeferred(j)).map(j => j.notBefore!);
+  const timer = deferredUntil.length > 0
+    ? setTimeout(() => wakeRunner(), Math.min(...deferredUntil) - Date.now() + 50)
+    : undefined;
+  wake = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+});
+
+// Jobs left 'running' by a closed tab or crash never finished; put them back in line.
+// Only called by the lock holder: any runner that marked them running has released the lock, so is gone.
+const recoverInterruptedJobs = () => {
+  mutate(state => ({
+    ...state,
+    jobs: state.jobs.map(j => j.state === 'running' ? { ...j, state: 'queued' } : j),
+  }));
+};
+
+// Starts the background loop; returns a stop function. Only the most recently started runner is active,
+// and it waits for the runner lock while another tab holds it.
+export const startJobRunner = (execute: (job: ProductionJob) => Promise<void>) => {
+  const token = ++runnerToken;
+
+  const run = async (recover: boolean) => {
+    if (token !== runnerToken) return;
+    if (recover) recoverInterruptedJobs();
+    while (token === runnerToken) {
+      const state = readState();
+      const job = state.paused ? undefined : nextRunnableJob(state);
+      if (!job) {
+        await waitForWork(state);
+        continue;
+      }
+
+      updateJob(job.id, { state: 'running', attempts: job.attempts + 1, error: undefined });
+      try {
+        await execute(job);
+        updateJob(job.id, { state: 'done' });
+      } catch (e: any) {
+        if (e instanceof QuotaExhaustedError) {
+          // Not a failure of this scene: retry automatically once the quota window resets
+          updateJob(job.id, { state: 'queued', notBefore: e.resetAt, attempts: job.attempts, error: e.message });
+          continue;
+        }
+        console.error(`Job ${job.kind} for scene ${job.sceneId} failed`, e);
+        updateJob(job.id, { state: 'failed', error: e?.message || 'Unknown Error' });
+      }
+    }
+  };
+
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    // Held until the loop stops (or the tab closes); a job in flight finishes before it is released
+    navigator.locks.request(RUNNER_LOCK, () => run(true)).catch(e => console.error("Job runner stopped", e));
+  } else {
+    // No Web Locks: behave as a single tab, recovering once per page load
+    run(!recoveredWithoutLock);
+    recoveredWithoutLock = true;
+  }
+
+  return () => {
+    if (token === runnerToken) {
+      runnerToken++;
+      wakeRunner();
+    }
+  };
+};
@@ -0,0 +1,80 @@
+import { KenBurnsConfig, KenBurnsEasing, KenBurnsMotion, Scene } from "../types";
+
+// --- Ken Burns Motion ---
+// Still-image scenes move slowly instead of sitting still. Each scene can choose its own motion;
+// the rest get the classic centre zoom, or with "auto vary" a motion that alternates from one
+// scene to the next so back-to-back stills don't all look the same.
+
+// Zoom at the far end of a zoom, and throughout a pan (the headroom the pan travels across)
+const KEN_BURNS_MAX_ZOOM = 1.15;
+
+export const MOTION_LABELS: Record<KenBurnsMotion, string> = {
+  zoomIn: '推近',
+  zoomOut: '拉远',
+  panLeft: '向左平移',
+  panRight: '向右平移',
+  panUp: '向上平移',
+  panDown: '向下平移',
+  none: '静止',
+};
+
+export const EASING_LABELS: Record<KenBurnsEasing, string> = {
+  linear: '匀速',
+  easeInOut: '缓入缓出',
+  easeOut: '先快后慢',
+};
+
+// What every still did before motions were configurable
+export const DEFAULT_KEN_BURNS: KenBurnsConfig = { motion: 'zoomIn', easing: 'linear' };
+
+const AUTO_VARY_MOTIONS: KenBurnsMotion[] = ['zoomIn', 'panRight', 'zoomOut', 'panLeft'];
+
+const CENTER = { x: 0.5, y: 0.5 };
+
+// Default focus path per motion: zooms stay centred, pans travel the whole headroom
+const MOTION_PATHS: Record<KenBurnsMotion, { from: { x: number; y: number }; to: { x: number; y: number } }> = {
+  zoomIn: { from: CENTER, to: CENTER },
+  zoomOut: { from: CENTER, to: CENTER },
+  panLeft: { from: { x: 1, y: 0.5 }, to: { x: 0, y: 0.5 } },
+  panRight: { from: { x: 0, y: 0.5 }, to: { x: 1, y: 0.5 } },
+  panUp: { from: { x: 0.5, y: 1 }, to: { x: 0.5, y: 0 } },
+  panDown: { from: { x: 0.5, y: 0 }, to: { x: 0.5, y: 1 } },
+  none: { from: CENTER, to: CENTER },
+};
+
+const ease = (easing: KenBurnsEasing, t: number) => {
+  switch (easing) {
+    case 'easeInOut': return t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+    case 'easeOut': return 1 - (1 - t) ** 2;
+    default: return t;
+  }
+};
+
+// The project's automatic motion for a scene at this place in the timeline
+export const getAutoKenBurns = (index: number, autoVary?: boolean): KenBurnsConfig =>
+  autoVary
+    ? { motion: AUTO_VARY_MOTIONS[index % AUTO_VARY_MOTIONS.length], easing: 'easeInOut' }
+    : DEFAULT_KEN_BURNS;
+
+// The scene's own settings, else the automatic motion
+export const resolveKenBurns = (scenes: Scene[], index: number, autoVary?: boolean): KenBurnsConfig =>
+  scenes[index]?.kenBurns || getAutoKenBurns(index, autoVary);
+
+// Zoom and focus (drawImageProp offsets) `progress` (0..1) of the way through the scene
+export const getKenBurnsTransform = (config: KenBurnsConfig, progress: number) => {
+  const t = ease(config.easing, Math.max(0, Math.min(1, progress)));
+  const path = MOTION_PATHS[config.motion];
+  const from = config.from || path.from;
+  // Zooms hold a custom focus in place; pans still travel to their own end unless told otherwise
+  const to = config.to ?? (path.to === path.from ? from : path.to);
+  const zoom =
+    config.motion === 'none' ? 1 :
+    config.motion === 'zoomIn' ? 1 + t * (KEN_BURNS_MAX_ZOOM - 1) :
+    config.motion === 'zoomOut' ? KEN_BURNS_MAX_ZOOM - t * (KEN_BURNS_MAX_ZOOM - 1) :
+    KEN_BURNS_MAX_ZOOM;
+  return {
+    zoom,
+    offsetX: from.x + (to.x - from.x) * t,
+    offsetY: from.y + (to.y - from.y) * t,
+  };
+};
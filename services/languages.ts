@@ -0,0 +1,36 @@
+import { NarrationLanguage, Project } from "../types";
+
+// --- Narration Language ---
+// The language the script is written and voiced in, and what a scene's narration may hold in
+// SECONDS_PER_SCENE. Chinese and Japanese are paced in characters, English in words.
+
+export interface LanguageInfo {
+  label: string;
+  promptName: string; // How prompts name the language
+  pacing: { unit: 'characters' | 'words'; min: number; max: number };
+}
+
+export const DEFAULT_LANGUAGE: NarrationLanguage = 'zh-Hans';
+
+export const LANGUAGES: Record<NarrationLanguage, LanguageInfo> = {
+  'zh-Hans': { label: '简体中文', promptName: 'Simplified Chinese (简体中文)', pacing: { unit: 'characters', min: 15, max: 20 } },
+  'zh-Hant': { label: '繁體中文', promptName: 'Traditional Chinese (繁體中文)', pacing: { unit: 'characters', min: 15, max: 20 } },
+  en: { label: 'English', promptName: 'English', pacing: { unit: 'words', min: 12, max: 16 } },
+  ja: { label: '日本語', promptName: 'Japanese (日本語)', pacing: { unit: 'characters', min: 20, max: 28 } },
+};
+
+export const getProjectLanguage = (project: Pick<Project, 'language'>): NarrationLanguage =>
+  project.language || DEFAULT_LANGUAGE;
+
+// "15-20 Chinese characters", "12-16 English words"...
+export const describePacing = (language: NarrationLanguage): string => {
+  const { unit, min, max } = LANGUAGES[language].pacing;
+  const name = language === 'en' ? 'English' : language === 'ja' ? 'Japanese' : 'Chinese';
+  return `${min}-${max} ${name} ${unit}`;
+};
+
+// Length in the language's pacing unit
+export const measurePacing = (text: string, language: NarrationLanguage): number =>
+  LANGUAGES[language].pacing.unit === 'words'
+    ? text.split(/\s+/).filter(Boolean).length
+    : Array.from(text.replace(/\s+/g, '')).length;
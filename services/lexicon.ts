@@ -0,0 +1,146 @@
+import { NarrationLanguage } from "../types";
+
+// --- Pronunciation Lexicon ---
+// TTS voices misread Buddhist terms and polyphonic characters (般若 as bān ruò, 南无 as nán wú).
+// Before synthesis, every term with a respelling is swapped for characters that can only be read
+// the right way; the pinyin documents the intended reading for reviewers. Subtitles keep the
+// original text, and respellings have the same length so subtitle timing is unaffected.
+// The lexicon is a per-browser setting shared by all projects. Each entry belongs to one narration
+// language: respellings only make sense in the script they are written in, and Japanese narration
+// reads these characters its own way.
+
+export interface LexiconEntry {
+  term: string;
+  pinyin: string;
+  respelling?: string; // What the TTS is given instead; terms without one are only highlighted
+  language?: NarrationLanguage; // zh-Hans when unset (entries saved before languages)
+}
+
+export const getEntryLanguage = (entry: LexiconEntry): NarrationLanguage => entry.language || 'zh-Hans';
+
+const SIMPLIFIED_LEXICON: LexiconEntry[] = [
+  { term: '般若', pinyin: 'bō rě', respelling: '波惹' },
+  { term: '般涅槃', pinyin: 'bō niè pán', respelling: '波涅槃' },
+  { term: '般舟', pinyin: 'bō zhōu', respelling: '波舟' },
+  { term: '南无', pinyin: 'nā mó', respelling: '那摩' },
+  { term: '阿弥陀佛', pinyin: 'ē mí tuó fó', respelling: '婀弥陀佛' },
+  { term: '阿弥陀', pinyin: 'ē mí tuó', respelling: '婀弥陀' },
+  { term: '阿难', pinyin: 'ē nán', respelling: '婀难' },
+  { term: '阿阇梨', pinyin: 'ā shé lí', respelling: '阿蛇梨' },
+  { term: '阿耨多罗三藐三菩提', pinyin: 'ā nòu duō luó sān miǎo sān pú tí' },
+  { term: '伽蓝', pinyin: 'qié lán', respelling: '茄蓝' },
+  { term: '僧伽', pinyin: 'sēng qié', respelling: '僧茄' },
+  { term: '伽陀', pinyin: 'qié tuó', respelling: '茄陀' },
+  { term: '迦叶', pinyin: 'jiā shè', respelling: '迦摄' },
+  { term: '舍利弗', pinyin: 'shè lì fú', respelling: '设利弗' },
+  { term: '舍利', pinyin: 'shè lì', respelling: '设利' },
+  { term: '三昧', pinyin: 'sān mèi', respelling: '三妹' },
+  { term: '兜率天', pinyin: 'dōu shuài tiān', respelling: '兜帅天' },
+  { term: '优婆塞', pinyin: 'yōu pó sè', respelling: '优婆色' },
+  { term: '优婆夷', pinyin: 'yōu pó yí' },
+  { term: '摩诃', pinyin: 'mó hē', respelling: '摩呵' },
+  { term: '萨埵', pinyin: 'sà duǒ', respelling: '萨朵' },
+  { term: '刹那', pinyin: 'chà nà', respelling: '岔那' },
+  { term: '佛刹', pinyin: 'fó chà', respelling: '佛岔' },
+  { term: '大乘', pinyin: 'dà shèng', respelling: '大圣' },
+  { term: '小乘', pinyin: 'xiǎo shèng', respelling: '小圣' },
+  { term: '偈', pinyin: 'jì', respelling: '寄' },
+  { term: '诸行无常', pinyin: 'zhū xíng wú cháng', respelling: '诸形无常' },
+  { term: '寂灭为乐', pinyin: 'jì miè wéi lè', respelling: '寂灭为勒' },
+  { term: '卍', pinyin: 'wàn', respelling: '万' },
+];
+
+const TRADITIONAL_LEXICON: LexiconEntry[] = [
+  { term: '般若', pinyin: 'bō rě', respelling: '波惹' },
+  { term: '般涅槃', pinyin: 'bō niè pán', respelling: '波涅槃' },
+  { term: '般舟', pinyin: 'bō zhōu', respelling: '波舟' },
+  { term: '南無', pinyin: 'nā mó', respelling: '那摩' },
+  { term: '阿彌陀佛', pinyin: 'ē mí tuó fó', respelling: '婀彌陀佛' },
+  { term: '阿彌陀', pinyin: 'ē mí tuó', respelling: '婀彌陀' },
+  { term: '阿難', pinyin: 'ē nán', respelling: '婀難' },
+  { term: '阿闍梨', pinyin: 'ā shé lí', respelling: '阿蛇梨' },
+  { term: '阿耨多羅三藐三菩提', pinyin: 'ā nòu duō luó sān miǎo sān pú tí' },
+  { term: '伽藍', pinyin: 'qié lán', respelling: '茄藍' },
+  { term: '僧伽', pinyin: 'sēng qié', respelling: '僧茄' },
+  { term: '伽陀', pinyin: 'qié tuó', respelling: '茄陀' },
+  { term: '迦葉', pinyin: 'jiā shè', respelling: '迦攝' },
+  { term: '舍利弗', pinyin: 'shè lì fú', respelling: '設利弗' },
+  { term: '舍利', pinyin: 'shè lì', respelling: '設利' },
+  { term: '三昧', pinyin: 'sān mèi', respelling: '三妹' },
+  { term: '兜率天', pinyin: 'dōu shuài tiān', respelling: '兜帥天' },
+  { term: '優婆塞', pinyin: 'yōu pó sè', respelling: '優婆色' },
+  { term: '優婆夷', pinyin: 'yōu pó yí' },
+  { term: '摩訶', pinyin: 'mó hē', respelling: '摩呵' },
+  { term: '薩埵', pinyin: 'sà duǒ', respelling: '薩朵' },
+  { term: '剎那', pinyin: 'chà nà', respelling: '岔那' },
+  { term: '刹那', pinyin: 'chà nà', respelling: '岔那' },
+  { term: '佛剎', pinyin: 'fó chà', respelling: '佛岔' },
+  { term: '大乘', pinyin: 'dà shèng', respelling: '大聖' },
+  { term: '小乘', pinyin: 'xiǎo shèng', respelling: '小聖' },
+  { term: '偈', pinyin: 'jì', respelling: '寄' },
+  { term: '諸行無常', pinyin: 'zhū xíng wú cháng', respelling: '諸形無常' },
+  { term: '寂滅為樂', pinyin: 'jì miè wéi lè', respelling: '寂滅為勒' },
+  { term: '卍', pinyin: 'wàn', respelling: '萬' },
+];
+
+// Chinese only: Japanese and English narration are left to the voice
+export const DEFAULT_LEXICON: LexiconEntry[] = [
+  ...SIMPLIFIED_LEXICON.map(e => ({ ...e, language: 'zh-Hans' as const })),
+  ...TRADITIONAL_LEXICON.map(e => ({ ...e, language: 'zh-Hant' as const })),
+];
+
+const LEXICON_KEY = 'zencreate_lexicon_v1';
+
+export const loadLexicon = (): LexiconEntry[] => {
+  try {
+    const raw = localStorage.getItem(LEXICON_KEY);
+    if (!raw) return DEFAULT_LEXICON;
+    const entries: LexiconEntry[] = JSON.parse(raw);
+    // Saved before entries had languages: those are all Simplified, so add the other defaults
+    if (!entries.some(e => e.language)) return [...entries, ...DEFAULT_LEXICON.filter(e => e.language !== 'zh-Hans')];
+    return entries;
+  } catch {
+    return DEFAULT_LEXICON;
+  }
+};
+
+export const saveLexicon = (entries: LexiconEntry[]) => {
+  localStorage.setItem(LEXICON_KEY, JSON.stringify(entries));
+};
+
+export interface LexiconMatch {
+  start: number;
+  end: number;
+  entry: LexiconEntry;
+}
+
+// Left to right, longest term first, never overlapping (阿弥陀佛 wins over 阿弥陀); only the entries
+// of the narration's language
+export const findLexiconTerms = (text: string, lexicon: LexiconEntry[], language: NarrationLanguage): LexiconMatch[] => {
+  const entries = lexicon
+    .filter(e => e.term.trim() && getEntryLanguage(e) === language)
+    .sort((a, b) => b.term.length - a.term.length);
+  const matches: LexiconMatch[] = [];
+  for (let i = 0; i < text.length;) {
+    const entry = entries.find(e => text.startsWith(e.term, i));
+    if (entry) {
+      matches.push({ start: i, end: i + entry.term.length, entry });
+      i += entry.term.length;
+    } else {
+      i++;
+    }
+  }
+  return matches;
+};
+
+// The text as the TTS should receive it
+export const applyLexicon = (text: string, lexicon: LexiconEntry[], language: NarrationLanguage): string => {
+  let result = '';
+  let last = 0;
+  for (const { start, end, entry } of findLexiconTerms(text, lexicon, language)) {
+    if (!entry.respelling?.trim()) continue;
+    result += text.slice(last, start) + entry.respelling.trim();
+    last = end;
+  }
+  return result + text.slice(last);
+};
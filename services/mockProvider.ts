@@ -0,0 +1,247 @@
+import * as WebM from "webm-muxer";
+import { ScriptGenerationResponse, AspectRatio } from "../types";
+import { ScriptProvider, ImageProvider, VideoProvider, TtsProvider } from "./providers";
+import { SECONDS_PER_SCENE, ScriptCastMember } from "./prompts";
+import { DEFAULT_LANGUAGE, LANGUAGES, measurePacing } from "./languages";
+import { bufferToWave } from "./audioUtils";
+import { hashString } from "./hash";
+import { DEFAULT_ASPECT_RATIO, getFrameSize, getVideoAspectRatio } from "./aspectRatio";
+
+// --- Offline Mock Backend ---
+// Deterministic stand-ins for every provider so the editor, Player and production flow
+// can be worked on and demoed without an API key or network. Same input -> same output.
+
+export const MOCK_MODELS = {
+  script: ['fixture'],
+  image: ['placeholder'],
+  video: ['placeholder'],
+  tts: ['tone', 'silent'],
+};
+
+// --- Fixture Scripts ---
+
+const DOCTRINE_TERMS = /佛|经|法|无常|因果|果报|业|轮回|涅槃|净土|空|般若|菩萨/;
+
+const FIXTURE_SCENES: Record<string, { narration: string; visualDescription: string }[]> = {
+  Children: [
+    { narration: '很久以前，森林里住着一只九色鹿。', visualDescription: 'A radiant nine-colored deer standing in a misty ancient forest' },
+    { narration: '有一天，它看见一个人落入了河中。', visualDescription: 'A man struggling in a rushing river, the deer watching from the bank' },
+    { narration: '九色鹿毫不犹豫，跳进水里救他。', visualDescription: 'The deer leaping into the river, splashes glowing in sunlight' },
+    { narration: '那人上岸后，连声向小鹿道谢。', visualDescription: 'The rescued man bowing gratefully to the deer on a grassy shore' },
+    { narration: '小朋友，善良的心会带来好的果报。', visualDescription: 'Children smiling around the deer under a blossoming tree' },
+  ],
+  General: [
+    { narration: '清晨，一杯热茶，一次深呼吸。', visualDescription: 'Steam rising from a clay tea cup beside a window at dawn' },
+    { narration: '把心放在当下，烦恼自然轻了。', visualDescription: 'A person sitting calmly, city noise fading into soft light' },
+    { narration: '念头来了又走，如天上的浮云。', visualDescription: 'White clouds drifting slowly over a mountain temple' },
+    { narration: '不追过去，不忧未来，只看此刻。', visualDescription: 'A single leaf floating on a still pond, reflection of the sky' },
+  ],
+  Elderly: [
+    { narration: '春去秋来，花开花落，皆是无常。', visualDescription: 'Cherry blossoms falling slowly in a quiet temple courtyard' },
+    { narration: '放下执着，心便安住于当下。', visualDescription: 'An elderly practitioner holding prayer beads, warm lamplight' },
+    { narration: '一句佛号，一念清净，一片莲花。', visualDescription: 'A lotus opening on a golden pond under soft evening light' },
+    { narration: '愿我们都能平安喜乐，福慧增长。', visualDescription: 'Temple bells at sunset, incense smoke curling upward' },
+  ],
+};
+
+const withConsistency = (visual: string, globalStyle: string, globalCharacter: string) =>
+  [globalStyle, globalCharacter, visual].filter(Boolean).join(', ');
+
+// With a cast, every other scene becomes a line spoken by the next character in turn
+const withSpeaker = (narration: string, index: number, cast: ScriptCastMember[] = []) => {
+  const named = cast.filter(c => c.name.trim());
+  if (named.length === 0 || index % 2 === 0) return narration;
+  return `${named[Math.floor(index / 2) % named.length].name}：${narration}`;
+};
+
+export const createMockScriptProvider = (): ScriptProvider => ({
+  generateScript: async ({ topic, audience, durationMinutes, globalCharacter, globalStyle, cast }) => {
+    const fixtures = FIXTURE_SCENES[audience] || FIXTURE_SCENES.General;
+    const count = Math.max(1, Math.ceil((durationMinutes * 60) / SECONDS_PER_SCENE));
+    const offset = hashString(topic) % fixtures.length;
+
+    const scenes = Array.from({ length: count }, (_, i) => {
+      const fixture = fixtures[(offset + i) % fixtures.length];
+      return {
+        narration: withSpeaker(fixture.narration, i, cast),
+        visualDescription: withConsistency(fixture.visualDescription, globalStyle, globalCharacter),
+      };
+    });
+    return { title: topic.slice(0, 20) || '示例作品', scenes };
+  },
+
+  parseUserScript: async ({ rawScript, globalCharacter, globalStyle, cast, language = DEFAULT_LANGUAGE }): Promise<ScriptGenerationResponse> => {
+    // Greedy split at sentence punctuation into segments within the language's pacing
+    const sentences = rawScript.split(/(?<=[。！？；!?;.\n])/).map(s => s.trim()).filter(Boolean);
+    const joiner = language === 'en' ? ' ' : '';
+    const segments: string[] = [];
+    let current = '';
+    for (const sentence of sentences) {
+      if (current && measurePacing(current + joiner + sentence, language) > LANGUAGES[language].pacing.max) {
+        segments.push(current);
+        current = '';
+      }
+      current += (current ? joiner : '') + sentence;
+    }
+    if (current) segments.push(current);
+
+    const fixtures = FIXTURE_SCENES.General;
+    return {
+      title: (segments[0] || '示例文案').slice(0, 10),
+      scenes: segments.map((narration, i) => ({
+        narration: withSpeaker(narration, i, cast),
+        visualDescription: withConsistency(fixtures[i % fixtures.length].visualDescription, globalStyle, globalCharacter),
+      })),
+    };
+  },
+
+  // Tags each line with the target language instead of translating it
+  translateSubtitles: async ({ to, scenes }) => scenes.map(lines => lines.map(line => `[${to}] ${line}`)),
+
+  // No quotations of its own (the review still finds marked ones); sentences naming a doctrine are claims
+  extractDoctrine: async ({ scenes }) => scenes.map((narration, i) => ({
+    scene: i + 1,
+    quotes: [],
+    claims: narration.split(/(?<=[。！？!?])|\n/).map(s => s.trim()).filter(s => DOCTRINE_TERMS.test(s)),
+  })),
+});
+
+// --- Placeholder Visuals ---
+
+
+const drawPlaceholder = (ctx: CanvasRenderingContext2D, prompt: string, phase: number) => {
+  const hue = hashString(prompt) % 360;
+  const { width, height } = ctx.canvas;
+
+  const gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.max(width, height) * 0.7);
+  gradient.addColorStop(0, `hsl(${hue}, 45%, 70%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 40) % 360}, 35%, 25%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // Enso circle, its gap rotating with `phase` so videos visibly move
+  ctx.strokeStyle = 'rgba(255,255,255,0.85)';
+  ctx.lineWidth = 18;
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.arc(width / 2, height / 2, Math.min(width, height) * 0.28, phase, phase + Math.PI * 1.8);
+  ctx.stroke();
+
+  ctx.fillStyle = 'rgba(255,255,255,0.9)';
+  ctx.font = 'bold 28px "Inter", sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText('MOCK', width / 2, 60);
+  ctx.font = '22px "Inter", sans-serif';
+  ctx.fillText(prompt.length > 90 ? `${prompt.slice(0, 87)}...` : prompt, width / 2, height - 50);
+};
+
+const createCanvas = (aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO) => {
+  const canvas = document.createElement('canvas');
+  const size = getFrameSize(aspectRatio);
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  return { canvas, ctx };
+};
+
+export const createMockImageProvider = (): ImageProvider => ({
+  generateImage: async (prompt, aspectRatio) => {
+    const { canvas, ctx } = createCanvas(aspectRatio);
+    drawPlaceholder(ctx, prompt, 0.3);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error("No image data generated");
+    return URL.createObjectURL(blob);
+  },
+});
+
+const MOCK_VIDEO_SECONDS = 3;
+const MOCK_VIDEO_FPS = 15;
+
+// Encodes a short animated clip frame by frame rather than recording it in real time, so it is
+// quick, works in background tabs, and the same prompt always yields the same frames
+export const createMockVideoProvider = (): VideoProvider => ({
+  generateVideo: async (prompt, aspectRatio = DEFAULT_ASPECT_RATIO) => {
+    if (typeof VideoEncoder === 'undefined') throw new Error("Mock video needs WebCodecs, which this browser does not support");
+    const { canvas, ctx } = createCanvas(getVideoAspectRatio(aspectRatio));
+    const { width, height } = canvas;
+    const muxer = new WebM.Muxer({
+      target: new WebM.ArrayBufferTarget(),
+      video: { codec: 'V_VP8', width, height, frameRate: MOCK_VIDEO_FPS },
+    });
+
+    let failure: unknown;
+    const encoder = new VideoEncoder({
+      output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      error: (e) => { failure = e; },
+    });
+    encoder.configure({ codec: 'vp8', width, height, bitrate: 1_000_000, framerate: MOCK_VIDEO_FPS });
+
+    const frameCount = MOCK_VIDEO_SECONDS * MOCK_VIDEO_FPS;
+    for (let i = 0; i < frameCount; i++) {
+      drawPlaceholder(ctx, prompt, (i / frameCount) * Math.PI * 2);
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(i * 1e6 / MOCK_VIDEO_FPS), duration: Math.round(1e6 / MOCK_VIDEO_FPS) });
+      encoder.encode(frame, { keyFrame: i === 0 });
+      frame.close();
+    }
+    await encoder.flush();
+    encoder.close();
+    if (failure) throw failure;
+
+    muxer.finalize();
+    return URL.createObjectURL(new Blob([muxer.target.buffer], { type: 'video/webm' }));
+  },
+});
+
+// --- Placeholder Narration ---
+
+const MOCK_SAMPLE_RATE = 24000;
+const SYLLABLE_SECONDS = 0.24;   // Roughly natural Mandarin pace
+const SYLLABLE_GAP_SECONDS = 0.04;
+const SHORT_PAUSE_SECONDS = 0.25; // ，、；：
+const LONG_PAUSE_SECONDS = 0.5;   // 。！？
+
+// One tone burst per syllable with real pauses at punctuation, so the WAV has the length
+// and speech/silence shape of actual narration.
+const synthesizeMockSpeech = (text: string, voiceName: string, silent: boolean): Float32Array => {
+  const segments: { seconds: number; freq: number }[] = [];
+  const baseFreq = 160 + (hashString(voiceName) % 100);
+
+  // CJK characters are one syllable each; Latin words roughly one per word
+  const tokens = text.trim().match(/[\u3400-\u9fff]|[A-Za-z0-9']+|[，、；：,;:]|[。！？.!?]|\s+/g) || [];
+  for (const token of tokens) {
+    if (/^[，、；：,;:]$/.test(token)) segments.push({ seconds: SHORT_PAUSE_SECONDS, freq: 0 });
+    else if (/^[。！？.!?]$/.test(token)) segments.push({ seconds: LONG_PAUSE_SECONDS, freq: 0 });
+    else if (/^\s+$/.test(token)) segments.push({ seconds: SYLLABLE_GAP_SECONDS, freq: 0 });
+    else {
+      segments.push({ seconds: SYLLABLE_SECONDS, freq: baseFreq + (hashString(token) % 60) });
+      segments.push({ seconds: SYLLABLE_GAP_SECONDS, freq: 0 });
+    }
+  }
+  if (segments.length === 0) segments.push({ seconds: 1, freq: 0 });
+
+  const totalSamples = Math.ceil(segments.reduce((sum, s) => sum + s.seconds, 0) * MOCK_SAMPLE_RATE);
+  const samples = new Float32Array(totalSamples);
+  let pos = 0;
+  for (const seg of segments) {
+    const len = Math.round(seg.seconds * MOCK_SAMPLE_RATE);
+    if (seg.freq > 0 && !silent) {
+      for (let i = 0; i < len && pos + i < totalSamples; i++) {
+        const envelope = Math.sin((Math.PI * i) / len); // Soft attack/release
+        samples[pos + i] = 0.3 * envelope * Math.sin((2 * Math.PI * seg.freq * i) / MOCK_SAMPLE_RATE);
+      }
+    }
+    pos += len;
+  }
+  return samples;
+};
+
+export const createMockTtsProvider = (model: string): TtsProvider => ({
+  synthesize: async (text, voiceName) => {
+    const samples = synthesizeMockSpeech(text, voiceName, model === 'silent');
+    const buffer = new AudioBuffer({ length: samples.length, numberOfChannels: 1, sampleRate: MOCK_SAMPLE_RATE });
+    buffer.getChannelData(0).set(samples);
+    const wavBlob = bufferToWave(buffer, 0, buffer.length);
+    return { url: URL.createObjectURL(wavBlob), duration: buffer.duration };
+  },
+});
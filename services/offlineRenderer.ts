@@ -0,0 +1,503 @@
+import * as WebM from "webm-muxer";
+import * as Mp4 from "mp4-muxer";
+import { Scene, CastMember, AspectRatio, SubtitleStyle, NarrationLanguage } from "../types";
+import { getSceneDuration, getSceneSubtitles, getChunkProgress, SubtitleChunk } from "./subtitles";
+import { drawFrame, loadSubtitleFont, FrameLayer, FrameTransition, FrameVisual } from "./compositor";
+import { DEFAULT_ASPECT_RATIO, getFrameSize } from "./aspectRatio";
+import { getNarrationFades, getTransitionPhase } from "./transitions";
+import { resolveKenBurns } from "./kenBurns";
+import { ResolvedBgm } from "./bgmLibrary";
+import { analyzeSpeech, Segment } from "./subtitleTiming";
+import { measureLoudness, narrationGainFor, scheduleDucking, masterMix } from "./audioMix";
+import { openVideoClip } from "./videoFrames";
+
+// --- Offline Rendering ---
+// Renders the finished video without playing it: the timeline is stepped frame by frame,
+// each frame is drawn with the Player's compositing and encoded with WebCodecs, and the
+// audio is mixed in an OfflineAudioContext. Runs faster than real time, isn't affected by
+// background-tab throttling and gives the same file every time for the same project.
+// Output is MP4 (H.264 + AAC, for WeChat / Douyin / phones) or WebM (VP9 + Opus).
+
+const FPS = 30;
+const AUDIO_BITRATE = 128_000;
+const SAMPLE_RATE = 48000;
+const CHANNELS = 2;
+const KEYFRAME_INTERVAL = FPS * 2;
+const MAX_ENCODE_QUEUE = 8;
+
+export type VideoFormat = 'mp4' | 'webm';
+
+export interface ExportSettings {
+  format: VideoFormat;
+  resolution: number;   // Short side: 480 / 720 / 1080; the other follows the project's aspect ratio
+  videoBitrate: number; // bits per second
+}
+
+export const FORMAT_LABELS: Record<VideoFormat, string> = {
+  mp4: 'MP4 (H.264，适合微信 / 抖音 / 手机)',
+  webm: 'WebM (VP9)',
+};
+
+export const RESOLUTION_OPTIONS = [480, 720, 1080];
+
+export const BITRATE_OPTIONS = [
+  { value: 2_500_000, label: '2.5 Mbps (小文件)' },
+  { value: 5_000_000, label: '5 Mbps (推荐)' },
+  { value: 8_000_000, label: '8 Mbps (高画质)' },
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = { format: 'mp4', resolution: 720, videoBitrate: 5_000_000 };
+
+const EXPORT_SETTINGS_KEY = 'zencreate_export_settings_v1';
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const raw = localStorage.getItem(EXPORT_SETTINGS_KEY);
+    if (!raw) return DEFAULT_EXPORT_SETTINGS;
+    // Settings saved before aspect ratios stored the 16:9 output height, which is its short side
+    const { height, ...saved } = JSON.parse(raw);
+    return { ...DEFAULT_EXPORT_SETTINGS, ...(height && !saved.resolution ? { resolution: height } : {}), ...saved };
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  localStorage.setItem(EXPORT_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- Codecs ---
+
+interface CodecChoice {
+  format: VideoFormat;
+  videoCodec: string; // WebCodecs codec string
+  audioCodec: string;
+}
+
+// Candidates in order of preference; muxer codec names are derived from the format
+const VIDEO_CODECS: Record<VideoFormat, string[]> = {
+  mp4: ['avc1.640028', 'avc1.4d0028', 'avc1.42e028'], // High / Main / Baseline, level 4.0 (up to 1080p30)
+  webm: ['vp09.00.10.08', 'vp8'],
+};
+
+const AUDIO_CODECS: Record<VideoFormat, string> = {
+  mp4: 'mp4a.40.2', // AAC-LC
+  webm: 'opus',
+};
+
+// The first codec pair this browser can encode for the format, or null if it can't
+export const findCodecs = async (
+  format: VideoFormat,
+  settings: Pick<ExportSettings, 'resolution' | 'videoBitrate'>,
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
+): Promise<CodecChoice | null> => {
+  if (!isOfflineRenderSupported()) return null;
+  const { width, height } = getFrameSize(aspectRatio, settings.resolution);
+  const audio = await AudioEncoder.isConfigSupported({
+    codec: AUDIO_CODECS[format], sampleRate: SAMPLE_RATE, numberOfChannels: CHANNELS, bitrate: AUDIO_BITRATE,
+  }).catch(() => ({ supported: false }));
+  if (!audio.supported) return null;
+
+  for (const videoCodec of VIDEO_CODECS[format]) {
+    const video = await VideoEncoder.isConfigSupported({
+      codec: videoCodec, width, height, bitrate: settings.videoBitrate, framerate: FPS,
+    }).catch(() => ({ supported: false }));
+    if (video.supported) return { format, videoCodec, audioCodec: AUDIO_CODECS[format] };
+  }
+  return null;
+};
+
+// --- Muxing ---
+
+interface OutputFile {
+  addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void;
+  finalize: () => Blob;
+}
+
+const createOutput = (codecs: CodecChoice, width: number, height: number): OutputFile => {
+  if (codecs.format === 'mp4') {
+    const muxer = new Mp4.Muxer({
+      target: new Mp4.ArrayBufferTarget(),
+      video: { codec: 'avc', width, height, frameRate: FPS },
+      audio: { codec: 'aac', numberOfChannels: CHANNELS, sampleRate: SAMPLE_RATE },
+      fastStart: 'in-memory', // moov up front so phones can start playing before the download ends
+    });
+    return {
+      addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => {
+        muxer.finalize();
+        return new Blob([muxer.target.buffer], { type: 'video/mp4' });
+      },
+    };
+  }
+
+  const muxer = new WebM.Muxer({
+    target: new WebM.ArrayBufferTarget(),
+    video: { codec: codecs.videoCodec === 'vp8' ? 'V_VP8' : 'V_VP9', width, height, frameRate: FPS },
+    audio: { codec: 'A_OPUS', numberOfChannels: CHANNELS, sampleRate: SAMPLE_RATE },
+  });
+  return {
+    addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    finalize: () => {
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: 'video/webm' });
+    },
+  };
+};
+
+export type RenderStage = 'audio' | 'video' | 'finalizing';
+
+export interface RenderProgress {
+  stage: RenderStage;
+  fraction: number; // 0..1 within the stage
+}
+
+export interface RenderOptions {
+  settings?: ExportSettings;
+  aspectRatio?: AspectRatio;
+  cast?: CastMember[];
+  bgm?: ResolvedBgm; // Soundtrack; none when missing
+  autoVaryMotion?: boolean; // Project's Ken Burns setting, see kenBurns.ts
+  subtitleStyle?: SubtitleStyle; // Default style when missing
+  secondaryLanguage?: NarrationLanguage; // Bilingual subtitles with the scenes' translations
+  onProgress?: (progress: RenderProgress) => void;
+  signal?: AbortSignal;
+}
+
+export class RenderCancelledError extends Error {
+  constructor() {
+    super("渲染已取消");
+    this.name = "RenderCancelledError";
+  }
+}
+
+export const isOfflineRenderSupported = () =>
+  typeof window !== 'undefined' && 'VideoEncoder' in window && 'AudioEncoder' in window && 'OfflineAudioContext' in window;
+
+interface TimelineEntry {
+  scene: Scene;
+  start: number;
+  duration: number;
+  subtitles: SubtitleChunk[];
+}
+
+const buildTimeline = (scenes: Scene[], cast?: CastMember[], secondaryLanguage?: NarrationLanguage): TimelineEntry[] => {
+  let start = 0;
+  return scenes.map(scene => {
+    const entry = { scene, start, duration: getSceneDuration(scene), subtitles: getSceneSubtitles(scene, cast, secondaryLanguage) };
+    start += entry.duration;
+    return entry;
+  });
+};
+
+const checkCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new RenderCancelledError();
+};
+
+const fetchArrayBuffer = async (url: string) => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to fetch ${url}: ${res.status}`);
+  return res.arrayBuffer();
+};
+
+// --- Audio ---
+
+// Narration normalized per clip, music ducked under it, then the whole mix brought to the
+// platform loudness target (see audioMix.ts)
+const mixAudio = async (timeline: TimelineEntry[], totalSeconds: number, bgm?: ResolvedBgm): Promise<AudioBuffer> => {
+  const ctx = new OfflineAudioContext(CHANNELS, Math.max(1, Math.ceil(totalSeconds * SAMPLE_RATE)), SAMPLE_RATE);
+
+  const scenes = timeline.map(e => e.scene);
+  const speech: Segment[] = []; // Where narration is speaking, on the video's timeline
+  for (const [index, { scene, start, duration }] of timeline.entries()) {
+    if (!scene.audioUrl) continue;
+    try {
+      const source = ctx.createBufferSource();
+      const buffer = await ctx.decodeAudioData(await fetchArrayBuffer(scene.audioUrl));
+      source.buffer = buffer;
+      for (const s of analyzeSpeech(buffer).speech) {
+        if (s.start < duration) speech.push({ start: start + s.start, end: start + Math.min(s.end, duration) });
+      }
+
+      // Every clip at the same loudness, with fades matching the scene's transitions
+      const level = narrationGainFor(measureLoudness(buffer));
+      const fades = getNarrationFades(scenes, index);
+      const gain = ctx.createGain();
+      gain.gain.value = level;
+      if (fades.fadeIn > 0) {
+        gain.gain.setValueAtTime(0, start);
+        gain.gain.linearRampToValueAtTime(level, start + fades.fadeIn);
+      }
+      if (fades.fadeOut > 0) {
+        gain.gain.setValueAtTime(level, start + duration - fades.fadeOut);
+        gain.gain.linearRampToValueAtTime(0, start + duration);
+      }
+      source.connect(gain).connect(ctx.destination);
+      source.start(start);
+    } catch (e) {
+      console.warn("Skipping narration that could not be decoded", scene.id, e);
+    }
+  }
+
+  if (bgm) {
+    try {
+      const music = ctx.createBufferSource();
+      music.buffer = await ctx.decodeAudioData(await fetchArrayBuffer(bgm.url));
+      const offset = Math.min(bgm.offset, Math.max(0, music.buffer.duration - 0.1));
+      if (bgm.loop) {
+        music.loop = true;
+        music.loopStart = offset;
+        music.loopEnd = music.buffer.duration;
+      }
+      const gain = ctx.createGain();
+      gain.gain.value = bgm.volume;
+      const duck = ctx.createGain();
+      scheduleDucking(duck.gain, speech);
+      music.connect(gain).connect(duck).connect(ctx.destination);
+      music.start(0, offset);
+    } catch (e) {
+      // Background music is optional; render without it rather than fail
+      console.warn("Background music unavailable, rendering without it", e);
+    }
+  }
+
+  return masterMix(await ctx.startRendering());
+};
+
+const encodeAudio = async (buffer: AudioBuffer, codec: string, output: OutputFile) => {
+  let failure: unknown;
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => output.addAudioChunk(chunk, meta),
+    error: (e) => { failure = e; },
+  });
+  encoder.configure({ codec, sampleRate: SAMPLE_RATE, numberOfChannels: CHANNELS, bitrate: AUDIO_BITRATE });
+
+  const blockFrames = SAMPLE_RATE; // one second per AudioData
+  for (let offset = 0; offset < buffer.length; offset += blockFrames) {
+    const frames = Math.min(blockFrames, buffer.length - offset);
+    const planar = new Float32Array(frames * CHANNELS);
+    for (let ch = 0; ch < CHANNELS; ch++) {
+      planar.set(buffer.getChannelData(Math.min(ch, buffer.numberOfChannels - 1)).subarray(offset, offset + frames), ch * frames);
+    }
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: SAMPLE_RATE,
+      numberOfFrames: frames,
+      numberOfChannels: CHANNELS,
+      timestamp: Math.round((offset / SAMPLE_RATE) * 1e6),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+};
+
+// --- Video ---
+
+const waitForEvent = (target: EventTarget, type: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onDone = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error(`Media failed to load (${type})`)); };
+    const cleanup = () => {
+      target.removeEventListener(type, onDone);
+      target.removeEventListener('error', onError);
+    };
+    target.addEventListener(type, onDone);
+    target.addEventListener('error', onError);
+  });
+
+// Loads one scene's visual. Videos are decoded front to back with WebCodecs (see videoFrames.ts)
+// and loop, like in the Player; clips that can't be demuxed here fall back to seeking a <video>.
+interface SceneVisual {
+  draw: (localTime: number) => Promise<FrameVisual | undefined>;
+  isStill: boolean;
+  release: () => void;
+}
+
+const loadSceneVisual = async (scene: Scene): Promise<SceneVisual> => {
+  if (scene.videoUrl) {
+    try {
+      const clip = await openVideoClip(scene.videoUrl);
+      if (clip) return { isStill: false, draw: clip.frameAt, release: clip.close };
+    } catch (e) {
+      console.warn("Video could not be decoded, seeking it instead", scene.id, e);
+    }
+  }
+  if (scene.videoUrl) {
+    const video = document.createElement('video');
+    video.crossOrigin = "anonymous";
+    video.muted = true;
+    video.playsInline = true;
+    try {
+      video.src = scene.videoUrl;
+      video.load();
+      await waitForEvent(video, 'loadeddata');
+      return {
+        isStill: false,
+        draw: async (localTime) => {
+          const target = video.duration > 0 ? localTime % video.duration : 0;
+          if (Math.abs(video.currentTime - target) > 1e-3) {
+            const seeked = waitForEvent(video, 'seeked');
+            video.currentTime = target;
+            await seeked;
+          }
+          return video;
+        },
+        release: () => { video.removeAttribute('src'); video.load(); },
+      };
+    } catch (e) {
+      console.warn("Video could not be loaded, using image", scene.id, e);
+    }
+  }
+  if (scene.imageUrl) {
+    try {
+      const bitmap = await createImageBitmap(await (await fetch(scene.imageUrl)).blob());
+      return { isStill: true, draw: async () => bitmap, release: () => bitmap.close() };
+    } catch (e) {
+      console.warn("Image could not be loaded", scene.id, e);
+    }
+  }
+  return { isStill: true, draw: async () => undefined, release: () => {} };
+};
+
+const renderVideo = async (
+  timeline: TimelineEntry[],
+  totalSeconds: number,
+  encoder: VideoEncoder,
+  size: { width: number; height: number },
+  options: RenderOptions
+) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D is unavailable");
+  if (options.subtitleStyle) {
+    await loadSubtitleFont(options.subtitleStyle, timeline.flatMap(e => e.subtitles.map(s => s.text + (s.secondary || ''))).join(''));
+  }
+
+  // Each scene's visual stays loaded while a neighbour may still transition into or out of it
+  const scenes = timeline.map(e => e.scene);
+  const visuals = new Map<number, SceneVisual>();
+  const layerAt = async (index: number, localTime: number): Promise<FrameLayer> => {
+    let visual = visuals.get(index);
+    if (!visual) {
+      visual = await loadSceneVisual(scenes[index]);
+      visuals.set(index, visual);
+    }
+    return {
+      visual: await visual.draw(localTime),
+      isStill: visual.isStill,
+      progress: localTime / timeline[index].duration,
+      kenBurns: resolveKenBurns(scenes, index, options.autoVaryMotion),
+    };
+  };
+
+  const totalFrames = Math.max(1, Math.round(totalSeconds * FPS));
+  let frameIndex = 0;
+
+  try {
+    for (const [index, entry] of timeline.entries()) {
+      const lastFrame = Math.min(totalFrames, Math.round((entry.start + entry.duration) * FPS));
+      if (frameIndex >= lastFrame) continue;
+      visuals.get(index - 2)?.release();
+      visuals.delete(index - 2);
+
+      for (; frameIndex < lastFrame; frameIndex++) {
+        checkCancelled(options.signal);
+        const localTime = frameIndex / FPS - entry.start;
+        const layer = await layerAt(index, localTime);
+
+        // The other scene is held on its last (outgoing) or first (incoming) frame, as in the Player
+        const phase = getTransitionPhase(scenes, index, localTime);
+        let transition: FrameTransition | undefined;
+        if (phase?.role === 'incoming') {
+          const outgoing = await layerAt(index - 1, timeline[index - 1].duration);
+          transition = { type: phase.type, progress: phase.progress, outgoing, incoming: layer };
+        } else if (phase?.role === 'outgoing') {
+          const incoming = await layerAt(index + 1, 0);
+          transition = { type: phase.type, progress: phase.progress, outgoing: layer, incoming };
+        }
+
+        const chunk = entry.subtitles.find(s => localTime >= s.start && localTime <= s.end);
+        drawFrame(ctx, {
+          ...layer,
+          transition,
+          subtitle: chunk?.text,
+          subtitleProgress: chunk && getChunkProgress(chunk, localTime),
+          subtitleSecondary: chunk?.secondary,
+          subtitleStyle: options.subtitleStyle,
+          aspectRatio: options.aspectRatio,
+        });
+
+        const frame = new VideoFrame(canvas, { timestamp: Math.round(frameIndex * 1e6 / FPS), duration: Math.round(1e6 / FPS) });
+        encoder.encode(frame, { keyFrame: frameIndex % KEYFRAME_INTERVAL === 0 });
+        frame.close();
+
+        // Backpressure: don't let frames pile up faster than the encoder takes them
+        while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+          await new Promise(resolve => setTimeout(resolve, 5));
+        }
+        options.onProgress?.({ stage: 'video', fraction: (frameIndex + 1) / totalFrames });
+      }
+    }
+  } finally {
+    visuals.forEach(v => v.release());
+  }
+};
+
+// Renders all scenes to one video file in the chosen format. Throws if this browser can't
+// encode that format; callers check findCodecs first to offer the other one instead.
+export const renderProjectOffline = async (scenes: Scene[], options: RenderOptions = {}): Promise<Blob> => {
+  if (!isOfflineRenderSupported()) throw new Error("此浏览器不支持离线渲染 (WebCodecs)。");
+
+  const settings = options.settings || DEFAULT_EXPORT_SETTINGS;
+  const aspectRatio = options.aspectRatio || DEFAULT_ASPECT_RATIO;
+  const codecs = await findCodecs(settings.format, settings, aspectRatio);
+  if (!codecs) throw new Error(`此浏览器无法编码 ${settings.format.toUpperCase()}，请换用其他格式。`);
+  const size = getFrameSize(aspectRatio, settings.resolution);
+
+  const timeline = buildTimeline(scenes, options.cast, options.secondaryLanguage);
+  const totalSeconds = timeline.reduce((sum, e) => sum + e.duration, 0);
+
+  options.onProgress?.({ stage: 'audio', fraction: 0 });
+  const mixed = await mixAudio(timeline, totalSeconds, options.bgm);
+  checkCancelled(options.signal);
+
+  const output = createOutput(codecs, size.width, size.height);
+  await encodeAudio(mixed, codecs.audioCodec, output);
+  options.onProgress?.({ stage: 'audio', fraction: 1 });
+
+  let failure: unknown;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => output.addVideoChunk(chunk, meta),
+    error: (e) => { failure = e; },
+  });
+  encoder.configure({
+    codec: codecs.videoCodec,
+    ...size,
+    bitrate: settings.videoBitrate,
+    framerate: FPS,
+    ...(settings.format === 'mp4' ? { avc: { format: 'avc' as const } } : {}),
+  });
+
+  try {
+    await renderVideo(timeline, totalSeconds, encoder, size, options);
+    options.onProgress?.({ stage: 'finalizing', fraction: 0 });
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (failure) throw failure;
+
+  const file = output.finalize();
+  options.onProgress?.({ stage: 'finalizing', fraction: 1 });
+  return file;
+};
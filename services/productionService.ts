@@ -0,0 +1,226 @@
+import { Project, Scene, CastMember, MediaKind, ProductionJob, AssetTake, ProviderSelection, AVAILABLE_VOICES } from "../types";
+import { getProjectsFromStorage, getStoredScene, saveMediaFromUrl, deleteMediaAsset, MEDIA_FIELDS } from "./storageService";
+import { getProjectProviders, resolveProviders } from "./providers";
+import { QuotaExhaustedError } from "./rateLimiter";
+import { toSceneError } from "./errors";
+import { synthesizeNarration, getSpeakerVoices } from "./dialogue";
+import { measureSubtitleTimings } from "./subtitleTiming";
+import { getProjectAspectRatio } from "./aspectRatio";
+import { getProjectLanguage } from "./languages";
+
+// --- Production Jobs ---
+// Executes one queued job against the project as currently stored, so jobs keep working
+// after a reload or while another project is open in the editor.
+
+export type SceneUpdater = (projectId: string, sceneId: string, updates: Partial<Scene>) => void;
+
+export interface ProductionContext {
+  apiKey: string;
+  updateScene: SceneUpdater;
+}
+
+// What produced a take; recorded alongside the media
+export type TakeSource = Pick<AssetTake, 'prompt' | 'voiceName' | 'speakerVoices' | 'provider' | 'model'>;
+
+export const takeSource = (sel: ProviderSelection, prompt: string, voiceName?: string, speakerVoices?: Record<string, string>): TakeSource => ({
+  prompt, voiceName, speakerVoices, provider: sel.provider, model: sel.model,
+});
+
+// Scenes generated before takes existed: keep their asset as the first take
+const legacyTake = (scene: Scene, kind: MediaKind): AssetTake[] => {
+  const fields = MEDIA_FIELDS[kind];
+  const assetId = scene[fields.assetId];
+  if (!assetId) return [];
+  return [{
+    id: `take-${assetId}`,
+    assetId,
+    prompt: kind === 'audio' ? scene.narration : scene.visualPrompt,
+    model: '',
+    duration: kind === 'audio' ? scene.audioDuration : undefined,
+    subtitleTimings: kind === 'audio' ? scene.subtitleTimings : undefined,
+    createdAt: 0,
+  }];
+};
+
+// Persist a freshly generated blob into the media store, add it to the scene's takes and
+// make it the active one. Earlier takes are kept until the user deletes them.
+export const attachSceneMedia = async (
+  projectId: string,
+  scene: Scene,
+  kind: MediaKind,
+  url: string,
+  extra: Partial<Scene>,
+  updateScene: SceneUpdater,
+  source: TakeSource
+) => {
+  const fields = MEDIA_FIELDS[kind];
+  // Read the latest takes: another job or manual action may have added one meanwhile
+  const current = getStoredScene(projectId, scene.id) || scene;
+  const takes = current.takes?.[kind] || legacyTake(current, kind);
+
+  let assetId: string | undefined;
+  try {
+    assetId = await saveMediaFromUrl(projectId, scene.id, kind, url);
+  } catch (e) {
+    // Still usable for this session, just not persisted
+    console.error("Failed to store media", e);
+  }
+
+  const take: AssetTake = {
+    id: `take-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+    assetId,
+    url,
+    ...source,
+    duration: kind === 'audio' ? extra.audioDuration : undefined,
+    subtitleTimings: kind === 'audio' ? extra.subtitleTimings : undefined,
+    createdAt: Date.now(),
+  };
+  updateScene(projectId, scene.id, {
+    [fields.url]: url,
+    [fields.assetId]: assetId,
+    takes: { [kind]: [...takes, take] },
+    // A successful take clears the previous failure of this kind
+    errors: { [kind]: undefined },
+    ...extra,
+  });
+};
+
+// Re-measures subtitle timings for the scene's current audio (older audio, or text edited
+// since) and stores them on the scene and its active audio take.
+export const alignSceneSubtitles = async (projectId: string, scene: Scene, cast: CastMember[] | undefined, updateScene: SceneUpdater) => {
+  if (!scene.audioUrl) return;
+  const subtitleTimings = await measureSubtitleTimings(scene.audioUrl, scene.narration, cast);
+  if (!subtitleTimings) return;
+  const current = getStoredScene(projectId, scene.id) || scene;
+  if (current.audioAssetId !== scene.audioAssetId) return; // Audio replaced meanwhile
+  const takes = current.takes?.audio || legacyTake(current, 'audio');
+  updateScene(projectId, scene.id, {
+    subtitleTimings,
+    takes: { audio: takes.map(t => isActiveTake(current, 'audio', t) ? { ...t, subtitleTimings } : t) },
+  });
+};
+
+export const isActiveTake = (scene: Scene, kind: MediaKind, take: AssetTake) => {
+  const fields = MEDIA_FIELDS[kind];
+  return take.assetId ? scene[fields.assetId] === take.assetId : !!take.url && scene[fields.url] === take.url;
+};
+
+export const getActiveTake = (scene: Scene, kind: MediaKind): AssetTake | undefined =>
+  scene.takes?.[kind]?.find(take => isActiveTake(scene, kind, take));
+
+// --- Voices ---
+
+export const getProjectVoice = (project: Project) => project.narratorVoice || AVAILABLE_VOICES[0].name;
+
+export const getSceneVoice = (project: Project, scene: Scene) => scene.voiceName || getProjectVoice(project);
+
+// Voice that produced the scene's current audio; undefined if unknown (audio from before takes)
+export const getAudioVoice = (scene: Scene) => getActiveTake(scene, 'audio')?.voiceName;
+
+const sameVoices = (a: Record<string, string> = {}, b: Record<string, string> = {}) =>
+  Object.keys(a).length === Object.keys(b).length && Object.keys(a).every(name => a[name] === b[name]);
+
+// The narrator or any speaking character sounds different from what the project now says.
+// Audio whose voice was never recorded is unknown rather than mismatched, so it isn't re-voiced.
+export const hasVoiceMismatch = (project: Project, scene: Scene) => {
+  if (!scene.audioUrl) return false;
+  const take = getActiveTake(scene, 'audio');
+  if (!take?.voiceName) return false;
+  return take.voiceName !== getSceneVoice(project, scene)
+    || !sameVoices(take.speakerVoices, getSpeakerVoices(scene.narration, project.cast));
+};
+
+// Make a take the one the Player uses. Picking an image take also clears the active video,
+// since the Player prefers video whenever there is one.
+export const selectTakeUpdates = (kind: MediaKind, take: AssetTake): Partial<Scene> => {
+  const fields = MEDIA_FIELDS[kind];
+  const updates: Partial<Scene> = { [fields.url]: take.url, [fields.assetId]: take.assetId };
+  if (kind === 'audio') {
+    updates.audioDuration = take.duration;
+    updates.subtitleTimings = take.subtitleTimings;
+  }
+  if (kind === 'image') {
+    updates.videoUrl = undefined;
+    updates.videoAssetId = undefined;
+  }
+  return updates;
+};
+
+// Drop takes (never the active one) and release their media
+export const deleteTakes = (scene: Scene, kind: MediaKind, takeIds: string[]): Partial<Scene> => {
+  const takes = scene.takes?.[kind] || [];
+  const removed = takes.filter(t => takeIds.includes(t.id) && !isActiveTake(scene, kind, t));
+  const kept = takes.filter(t => !removed.includes(t));
+  removed.forEach(t => {
+    if (t.assetId && !kept.some(k => k.assetId === t.assetId)) deleteMediaAsset(t.assetId);
+  });
+  return { takes: { [kind]: kept.length > 0 ? kept : undefined } };
+};
+
+// Record why the scene's asset failed (shown on the editor card) alongside the status reset
+export const recordSceneError = (
+  projectId: string,
+  sceneId: string,
+  kind: MediaKind,
+  error: unknown,
+  extra: Partial<Scene>,
+  updateScene: SceneUpdater
+) => {
+  updateScene(projectId, sceneId, { errors: { [kind]: toSceneError(error) }, ...extra });
+};
+
+export const runProductionJob = async (job: ProductionJob, ctx: ProductionContext) => {
+  const project = getProjectsFromStorage().find(p => p.id === job.projectId);
+  if (!project) throw new Error("项目已被删除");
+  const scene = project.scenes.find(s => s.id === job.sceneId);
+  if (!scene) throw new Error("场景已被删除");
+
+  const selection = getProjectProviders(project);
+  const providers = resolveProviders(selection, ctx.apiKey);
+  const { updateScene } = ctx;
+
+  if (job.kind === 'AUDIO') {
+    updateScene(project.id, scene.id, { isGeneratingAudio: true });
+    try {
+      // Resolved at run time so a voice change while the job waits is respected
+      const voiceName = getSceneVoice(project, scene);
+      const res = await synthesizeNarration(providers.tts, scene.narration, project.cast, voiceName, getProjectLanguage(project));
+      const subtitleTimings = await measureSubtitleTimings(res.url, scene.narration, project.cast);
+      await attachSceneMedia(project.id, scene, 'audio', res.url, { audioDuration: res.duration, subtitleTimings, isGeneratingAudio: false }, updateScene,
+        takeSource(selection.tts, scene.narration, voiceName, res.speakerVoices));
+    } catch (e) {
+      recordSceneError(project.id, scene.id, 'audio', e, { isGeneratingAudio: false }, updateScene);
+      throw e;
+    }
+    return;
+  }
+
+  if (job.visualMode !== 'IMAGE') {
+    updateScene(project.id, scene.id, { isGeneratingVideo: true });
+    try {
+      const url = await providers.video.generateVideo(scene.visualPrompt, getProjectAspectRatio(project));
+      await attachSceneMedia(project.id, scene, 'video', url, { isGeneratingVideo: false }, updateScene,
+        takeSource(selection.video, scene.visualPrompt));
+      return;
+    } catch (e: any) {
+      // Out of Veo quota: the queue defers this job until the window resets
+      // (the user can switch it to an image instead); other failures fall back right away.
+      if (e instanceof QuotaExhaustedError) {
+        updateScene(project.id, scene.id, { isGeneratingVideo: false });
+        throw e;
+      }
+      console.warn("Video Failed, trying Image fallback...", e);
+      recordSceneError(project.id, scene.id, 'video', e, {}, updateScene);
+    }
+  }
+
+  updateScene(project.id, scene.id, { isGeneratingImage: true, isGeneratingVideo: false });
+  try {
+    const imgUrl = await providers.image.generateImage(scene.visualPrompt, getProjectAspectRatio(project));
+    await attachSceneMedia(project.id, scene, 'image', imgUrl, { isGeneratingImage: false }, updateScene,
+      takeSource(selection.image, scene.visualPrompt));
+  } catch (e) {
+    recordSceneError(project.id, scene.id, 'image', e, { isGeneratingImage: false }, updateScene);
+    throw e;
+  }
+};
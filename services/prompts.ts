@@ -0,0 +1,161 @@
+import { CastMember, AspectRatio, NarrationLanguage } from "../types";
+import { DEFAULT_LANGUAGE, LANGUAGES, describePacing } from "./languages";
+
+// Prompt text shared by every ScriptProvider, so switching backends doesn't change the script style.
+
+// Shared Config
+export const SECONDS_PER_SCENE = 6;
+
+export interface TopicScriptRequest {
+  topic: string;
+  audience: string;
+  durationMinutes: number;
+  globalCharacter: string;
+  globalStyle: string;
+  cast?: ScriptCastMember[];
+  language?: NarrationLanguage; // Omitted for zh-Hans, so recordings made before languages still replay
+}
+
+export interface UserScriptRequest {
+  rawScript: string;
+  globalCharacter: string;
+  globalStyle: string;
+  cast?: ScriptCastMember[];
+  language?: NarrationLanguage;
+}
+
+// Subtitle lines of every scene, translated in one call so terms stay consistent across scenes
+export interface TranslationRequest {
+  from: NarrationLanguage;
+  to: NarrationLanguage;
+  scenes: string[][];
+}
+
+// Narration of every scene, searched for quotations and doctrinal claims in one call
+export interface DoctrineRequest {
+  language?: NarrationLanguage; // Omitted for zh-Hans, like the script requests
+  scenes: string[];
+}
+
+export type ScriptCastMember = Pick<CastMember, 'name' | 'description'>;
+
+// Speaker-tag format understood by dialogue.ts ("名字：台词", one utterance per line)
+const buildCastInstruction = (cast: ScriptCastMember[] = []): string => {
+  const named = cast.filter(c => c.name.trim());
+  if (named.length === 0) return '';
+  return `
+    CAST & DIALOGUE:
+    The story features these characters:
+${named.map(c => `    - ${c.name}: ${c.description || '(no description)'}`).join('\n')}
+    1. When a character speaks in a scene, write that scene's 'narration' as separate lines joined with "\\n", one utterance per line.
+    2. Prefix every spoken line with the speaker's exact name from the list above followed by a full-width colon, e.g. "${named[0].name}：……". Narrator lines have NO prefix.
+    3. Keep each scene's total spoken text within the length limit.
+    4. When a character appears in a scene, include their visual description (translated to English) in that scene's 'visualDescription'.
+  `;
+};
+
+// Plain-text description of ScriptGenerationResponse for backends without schema support
+export const SCRIPT_JSON_SHAPE = `{"title": string, "scenes": [{"narration": string, "visualDescription": string}]}`;
+
+export const buildTopicScriptPrompt = ({ topic, audience, durationMinutes, globalCharacter, globalStyle, cast, language = DEFAULT_LANGUAGE }: TopicScriptRequest): string => {
+  const estimatedScenes = Math.ceil((durationMinutes * 60) / SECONDS_PER_SCENE);
+
+  // Customized Instructions for Buddhist Audiences
+  let audienceInstruction = "";
+  if (audience === "Children") {
+    audienceInstruction = "Target Audience: CHILDREN (Age 5-10). Use the style of 'Jataka Tales' (本生经). Use simple language, focus on animals, kindness, and cause-and-effect (Karma). Tone: Cheerful, warm, storytelling.";
+  } else if (audience === "Elderly") {
+    audienceInstruction = "Target Audience: ELDERLY Buddhists. Focus on Pure Land (净土), Impermanence (无常), and peace of mind. Tone: Slow, comforting, respectful, deep wisdom, chanting style.";
+  } else {
+    audienceInstruction = "Target Audience: GENERAL PUBLIC. Modern Zen style, applicable to daily life, reducing stress. Tone: Calm, clear, inspiring.";
+  }
+
+  return `
+    You are a wise Buddhist content creator (Dharma Master). Create a video script in ${LANGUAGES[language].promptName}.
+    The topic is: "${topic}".
+    ${audienceInstruction}
+    
+    CRITICAL VISUAL CONSISTENCY RULES (Auto-Translation):
+    1. The 'visualDescription' MUST be in English.
+    2. Start EVERY 'visualDescription' by incorporating the global style and character defined below.
+       - Global Style: "${globalStyle}"
+       - Global Character: "${globalCharacter}"
+    3. IMPORTANT: If the 'Global Style' or 'Global Character' are provided in Chinese (or any other language), you MUST translate them into detailed, descriptive English prompts first, and then use that English description in the 'visualDescription'.
+    
+    CONSTRAINTS:
+    1. The total video duration MUST be approximately ${durationMinutes} minutes.
+    2. Each visual scene corresponds to a ${SECONDS_PER_SCENE}-second video clip.
+    3. Therefore, you MUST generate approximately ${estimatedScenes} distinct scenes.
+    4. Write every 'narration' in ${LANGUAGES[language].promptName}, keeping the text length strictly around ${describePacing(language)} (readable in ${SECONDS_PER_SCENE}s).
+    5. 'visualDescription' must be a highly detailed English prompt suitable for an AI Video Generator (like Veo).
+    ${buildCastInstruction(cast)}
+    Return a JSON object with a title and a list of scenes. 
+  `;
+};
+
+export const buildUserScriptPrompt = ({ rawScript, globalCharacter, globalStyle, cast, language = DEFAULT_LANGUAGE }: UserScriptRequest): string => `
+    You are a professional video editor. I have a raw script in ${LANGUAGES[language].promptName}.
+    Please break this script down into video scenes.
+    
+    RAW SCRIPT:
+    "${rawScript}"
+    
+    INSTRUCTIONS:
+    1. Split the text into segments. Each segment should take about ${SECONDS_PER_SCENE} seconds to read (approx ${describePacing(language)}). Keep the original wording in 'narration'.
+    2. For each segment, generate a 'visualDescription' in English.
+    
+    CRITICAL VISUAL CONSISTENCY RULES (Auto-Translation):
+    1. The 'visualDescription' MUST be in English.
+    2. Start EVERY 'visualDescription' by incorporating the global style and character defined below.
+       - Global Style: "${globalStyle}"
+       - Global Character: "${globalCharacter}"
+    3. IMPORTANT: If the 'Global Style' or 'Global Character' are provided in Chinese (or any other language), you MUST translate them into detailed, descriptive English prompts first, and then use that English description in the 'visualDescription'.
+    4. Describe the specific action in English matching the text segment.
+    ${buildCastInstruction(cast)}
+    Return a JSON object with a title (summarize script in 5 words) and the list of scenes.
+  `;
+
+// Plain-text description of the translation answer for backends without schema support
+export const TRANSLATION_JSON_SHAPE = `{"scenes": [{"lines": string[]}]}`;
+
+export const buildTranslationPrompt = ({ from, to, scenes }: TranslationRequest): string => `
+    You are translating the subtitles of a Buddhist video from ${LANGUAGES[from].promptName} into ${LANGUAGES[to].promptName}.
+
+    INSTRUCTIONS:
+    1. Translate every line. Return exactly as many scenes as given, and exactly as many lines per scene as given, in the same order: each line is shown under the original line while it is spoken.
+    2. Keep each translated line short enough to read in the time of the original line.
+    3. Use the established ${LANGUAGES[to].promptName} renderings of Buddhist terms, names and sutra titles, and render a term the same way everywhere.
+    4. Do not add notes, romanization or the original text.
+
+    SCENES:
+${scenes.map((lines, i) => `    Scene ${i + 1}:\n${lines.map((line, j) => `      ${j + 1}. ${line}`).join('\n')}`).join('\n')}
+
+    Return a JSON object with the list of scenes, each with its list of translated lines.
+  `;
+
+// Plain-text description of SceneDoctrine[] for backends without schema support
+export const DOCTRINE_JSON_SHAPE = `{"scenes": [{"scene": number, "quotes": [{"text": string, "attributedTo": string}], "claims": string[]}]}`;
+
+export const buildDoctrinePrompt = ({ language = DEFAULT_LANGUAGE, scenes }: DoctrineRequest): string => `
+    You are checking the narration of a Buddhist video, written in ${LANGUAGES[language].promptName}, before it is produced.
+    For every scene, give its 'scene' number as listed below, and list:
+    - 'quotes': every passage presented as the words of a sutra, the Buddha, a patriarch or another teacher, whether or not it is in quotation marks. Copy 'text' exactly as it appears in the narration, without the quotation marks. Set 'attributedTo' to the source the narration names (e.g. "心经", "金刚经", "六祖"), or "" when it names none.
+    - 'claims': statements about Buddhist doctrine, history or practice that a teacher should confirm (e.g. what a sutra teaches, who said or did something, what a term means). Restate each briefly in the narration's language. Leave out general encouragement and storytelling.
+
+    Do not correct, judge or complete anything: report only what the narration says. Return exactly one entry per scene given, in the same order, with empty lists for scenes that have none; never merge or skip scenes.
+
+    SCENES:
+${scenes.map((narration, i) => `    Scene ${i + 1}: ${narration.replace(/\n/g, ' ')}`).join('\n')}
+
+    Return a JSON object with the list of scenes.
+  `;
+
+// Prefixes the services add in front of every visual prompt
+export const VIDEO_PROMPT_PREFIX = 'Cinematic, highly detailed, buddhist atmosphere, ';
+export const IMAGE_PROMPT_PREFIX = 'Soft, buddhist art style, high quality, ';
+
+// Composition hint for non-landscape projects, so the subject survives the crop to the frame
+export const framingHint = (aspectRatio?: AspectRatio): string =>
+  aspectRatio === '9:16' ? 'Vertical 9:16 portrait composition, subject centred with headroom, '
+  : aspectRatio === '1:1' ? 'Square composition, subject centred, '
+  : '';
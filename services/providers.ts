@@ -0,0 +1,90 @@
+import { ScriptGenerationResponse, SceneDoctrine, ProjectProviders, ProviderSelection, Project, AspectRatio } from "../types";
+import { TopicScriptRequest, UserScriptRequest, TranslationRequest, DoctrineRequest } from "./prompts";
+import { GEMINI_MODELS, createGeminiScriptProvider, createGeminiImageProvider, createGeminiVideoProvider, createGeminiTtsProvider } from "./geminiService";
+import { createHttpScriptProvider, createHttpImageProvider, createHttpVideoProvider, createHttpTtsProvider } from "./httpProvider";
+import { MOCK_MODELS, createMockScriptProvider, createMockImageProvider, createMockVideoProvider, createMockTtsProvider } from "./mockProvider";
+import { getBackendMode, withRecording } from "./recorder";
+import { withRateLimits } from "./rateLimiter";
+
+// --- Provider Interfaces ---
+// Media providers return session blob URLs; persistence is handled by storageService.
+// Visuals are framed for the project's aspect ratio (16:9 when omitted).
+
+export interface ScriptProvider {
+  generateScript(req: TopicScriptRequest): Promise<ScriptGenerationResponse>;
+  parseUserScript(req: UserScriptRequest): Promise<ScriptGenerationResponse>;
+  // One list of translated lines per scene (lengths are not guaranteed to match the request)
+  translateSubtitles(req: TranslationRequest): Promise<string[][]>;
+  // Quotations and doctrinal claims, one entry per scene (same caveat)
+  extractDoctrine(req: DoctrineRequest): Promise<SceneDoctrine[]>;
+}
+
+export interface ImageProvider {
+  generateImage(prompt: string, aspectRatio?: AspectRatio): Promise<string>;
+}
+
+export interface VideoProvider {
+  generateVideo(prompt: string, aspectRatio?: AspectRatio): Promise<string>;
+}
+
+export interface TtsProvider {
+  synthesize(text: string, voiceName: string): Promise<{ url: string; duration: number }>;
+}
+
+export interface ProviderSet {
+  script: ScriptProvider;
+  image: ImageProvider;
+  video: VideoProvider;
+  tts: TtsProvider;
+}
+
+export const DEFAULT_PROVIDERS: ProjectProviders = {
+  script: { provider: 'gemini', model: GEMINI_MODELS.script[0] },
+  image: { provider: 'gemini', model: GEMINI_MODELS.image[0] },
+  video: { provider: 'gemini', model: GEMINI_MODELS.video[0] },
+  tts: { provider: 'gemini', model: GEMINI_MODELS.tts[0] },
+};
+
+// Older projects were created before providers were stored on the project
+export const getProjectProviders = (project: Project): ProjectProviders => ({
+  ...DEFAULT_PROVIDERS,
+  ...project.providers,
+});
+
+// Only live Gemini calls need the AI Studio / env API key (replay answers from recordings)
+export const needsGeminiKey = (providers: ProjectProviders): boolean =>
+  getBackendMode() !== 'replay' && Object.values(providers).some(sel => sel.provider === 'gemini');
+
+const requireEndpoint = (sel: ProviderSelection) => {
+  if (!sel.endpoint) throw new Error(`HTTP provider for model "${sel.model}" has no endpoint configured`);
+};
+
+export const resolveProviders = (providers: ProjectProviders, apiKey: string): ProviderSet => {
+  const { script, image, video, tts } = providers;
+  [script, image, video, tts].filter(sel => sel.provider === 'http').forEach(requireEndpoint);
+
+  const set: ProviderSet = {
+    script: script.provider === 'http' ? createHttpScriptProvider(script)
+      : script.provider === 'mock' ? createMockScriptProvider()
+      : createGeminiScriptProvider(apiKey, script.model),
+    image: image.provider === 'http' ? createHttpImageProvider(image)
+      : image.provider === 'mock' ? createMockImageProvider()
+      : createGeminiImageProvider(apiKey, image.model),
+    video: video.provider === 'http' ? createHttpVideoProvider(video)
+      : video.provider === 'mock' ? createMockVideoProvider()
+      : createGeminiVideoProvider(apiKey, video.model),
+    tts: tts.provider === 'http' ? createHttpTtsProvider(tts)
+      : tts.provider === 'mock' ? createMockTtsProvider(tts.model)
+      : createGeminiTtsProvider(apiKey, tts.model),
+  };
+  // Replayed responses bypass the limiter; live (and recorded) calls go through it
+  return withRecording(withRateLimits(set, providers), providers, getBackendMode());
+};
+
+// All four roles on the offline mock backend (demos, UI work, no API key)
+export const MOCK_PROVIDERS: ProjectProviders = {
+  script: { provider: 'mock', model: MOCK_MODELS.script[0] },
+  image: { provider: 'mock', model: MOCK_MODELS.image[0] },
+  video: { provider: 'mock', model: MOCK_MODELS.video[0] },
+  tts: { provider: 'mock', model: MOCK_MODELS.tts[0] },
+};
@@ -0,0 +1,219 @@
+import { ProjectProviders, ProviderRole, ProviderSelection } from "../types";
+import { ProviderSet } from "./providers";
+import { GenerationError } from "./errors";
+
+// --- Quota-Aware Rate Limiting ---
+// One limiter per model family (all Veo models share a quota, as do all TTS models, ...).
+// Calls are spaced to the configured requests-per-minute; retryable failures back off
+// exponentially with jitter, honouring server retry hints (RetryInfo.retryDelay / Retry-After).
+// A quota hit whose window is longer than we are willing to wait inline marks the family
+// exhausted until the window resets, so the queue can defer jobs instead of downgrading them.
+
+export type ModelFamily = 'veo' | 'gemini-image' | 'gemini-tts' | 'gemini-text' | 'http' | 'mock';
+
+export interface RateLimitConfig {
+  rpm: Record<ModelFamily, number>;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxInlineWaitMs: number; // Longer retry hints become "exhausted until ..." instead of a blocking wait
+  defaultQuotaWindowMs: number; // Assumed reset window when the server gives no hint
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  rpm: {
+    'veo': 2,
+    'gemini-image': 10,
+    'gemini-tts': 10,
+    'gemini-text': 15,
+    'http': 60,
+    'mock': 0, // 0 = unlimited
+  },
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxInlineWaitMs: 30000,
+  defaultQuotaWindowMs: 60000,
+};
+
+export const FAMILY_LABELS: Record<ModelFamily, string> = {
+  'veo': 'Veo 视频',
+  'gemini-image': 'Gemini 图片',
+  'gemini-tts': 'Gemini 配音',
+  'gemini-text': 'Gemini 脚本',
+  'http': 'HTTP 后端',
+  'mock': '离线模拟',
+};
+
+const CONFIG_KEY = 'zencreate_rate_limits_v1';
+
+export const getRateLimitConfig = (): RateLimitConfig => {
+  try {
+    const raw = localStorage.getItem(CONFIG_KEY);
+    if (!raw) return DEFAULT_RATE_LIMITS;
+    const saved = JSON.parse(raw);
+    return { ...DEFAULT_RATE_LIMITS, ...saved, rpm: { ...DEFAULT_RATE_LIMITS.rpm, ...saved.rpm } };
+  } catch (e) {
+    return DEFAULT_RATE_LIMITS;
+  }
+};
+
+export const saveRateLimitConfig = (config: RateLimitConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+export const getModelFamily = (role: ProviderRole, sel: ProviderSelection): ModelFamily => {
+  if (sel.provider === 'mock') return 'mock';
+  if (sel.provider === 'http') return 'http';
+  switch (role) {
+    case 'video': return 'veo';
+    case 'image': return 'gemini-image';
+    case 'tts': return 'gemini-tts';
+    case 'script': return 'gemini-text';
+  }
+};
+
+// --- Errors ---
+
+export class QuotaExhaustedError extends GenerationError {
+  family: ModelFamily;
+  resetAt: number;
+
+  constructor(family: ModelFamily, resetAt: number, cause?: any) {
+    super('quota', `${FAMILY_LABELS[family]} 配额已用尽，预计 ${new Date(resetAt).toLocaleTimeString()} 恢复 (${cause?.message || 'RESOURCE_EXHAUSTED'})`, { status: 429, cause });
+    this.name = 'QuotaExhaustedError';
+    this.family = family;
+    this.resetAt = resetAt;
+  }
+}
+
+const errorText = (e: any) => `${e?.message || ''} ${e?.status || ''} ${JSON.stringify(e) || ''}`;
+
+// Typed errors (errors.ts) decide for themselves; untyped ones fall back to message sniffing
+export const isQuotaError = (e: any) => {
+  if (e instanceof GenerationError) return e.kind === 'quota';
+  const errStr = errorText(e);
+  return errStr.includes('429') || errStr.includes('RESOURCE_EXHAUSTED');
+};
+
+const isTransientError = (e: any) => {
+  if (e instanceof GenerationError) return !!e.retryable;
+  if (e?.retryable) return true;
+  const errStr = errorText(e);
+  return /\b(500|502|503|504)\b/.test(errStr) || errStr.includes('UNAVAILABLE') || errStr.includes('Failed to fetch');
+};
+
+// Gemini: RetryInfo detail `"retryDelay": "37s"`; HTTP: Retry-After (attached by httpProvider as retryAfterMs)
+export const getRetryHintMs = (e: any): number | undefined => {
+  if (typeof e?.retryAfterMs === 'number') return e.retryAfterMs;
+  const match = errorText(e).match(/retryDelay\\?"?\s*[:=]\s*\\?"?(\d+(?:\.\d+)?)s/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+export const parseRetryAfterHeader = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// --- Limiter State ---
+
+interface FamilyState {
+  nextSlotAt: number;
+  exhaustedUntil: number;
+}
+
+const families = new Map<ModelFamily, FamilyState>();
+
+const familyState = (family: ModelFamily): FamilyState => {
+  let state = families.get(family);
+  if (!state) {
+    state = { nextSlotAt: 0, exhaustedUntil: 0 };
+    families.set(family, state);
+  }
+  return state;
+};
+
+export const getExhaustedUntil = (family: ModelFamily): number => {
+  const until = familyState(family).exhaustedUntil;
+  return until > Date.now() ? until : 0;
+};
+
+// No family: clear every family (the user asked to retry right away)
+export const clearExhausted = (family?: ModelFamily) => {
+  if (family) familyState(family).exhaustedUntil = 0;
+  else families.forEach(state => { state.exhaustedUntil = 0; });
+};
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// Reserve the next request slot for the family and wait for it
+const acquireSlot = async (family: ModelFamily, config: RateLimitConfig) => {
+  const rpm = config.rpm[family];
+  if (!rpm) return;
+  const state = familyState(family);
+  const now = Date.now();
+  const slot = Math.max(now, state.nextSlotAt);
+  state.nextSlotAt = slot + 60000 / rpm;
+  if (slot > now) await sleep(slot - now);
+};
+
+const backoffDelay = (attempt: number, config: RateLimitConfig) => {
+  const exp = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  return exp / 2 + Math.random() * (exp / 2); // "Equal jitter"
+};
+
+export const withRateLimit = async <T>(family: ModelFamily, call: () => Promise<T>): Promise<T> => {
+  const config = getRateLimitConfig();
+  const state = familyState(family);
+
+  const exhaustedUntil = getExhaustedUntil(family);
+  if (exhaustedUntil) throw new QuotaExhaustedError(family, exhaustedUntil);
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireSlot(family, config);
+    try {
+      return await call();
+    } catch (e: any) {
+      const quota = isQuotaError(e);
+      if (!quota && !isTransientError(e)) throw e;
+
+      const hint = getRetryHintMs(e);
+      const outOfRetries = attempt >= config.maxRetries;
+
+      if (quota && (outOfRetries || (hint !== undefined && hint > config.maxInlineWaitMs))) {
+        state.exhaustedUntil = Date.now() + (hint ?? config.defaultQuotaWindowMs);
+        throw new QuotaExhaustedError(family, state.exhaustedUntil, e);
+      }
+      if (outOfRetries) throw e;
+
+      const delay = Math.min(config.maxInlineWaitMs, hint ?? backoffDelay(attempt, config));
+      console.warn(`${FAMILY_LABELS[family]} request failed (attempt ${attempt + 1}), retrying in ${Math.round(delay)}ms`, e);
+      // Push back the whole family, not just this call
+      state.nextSlotAt = Math.max(state.nextSlotAt, Date.now() + delay);
+    }
+  }
+};
+
+export const withRateLimits = (set: ProviderSet, providers: ProjectProviders): ProviderSet => {
+  const family = (role: ProviderRole) => getModelFamily(role, providers[role]);
+  return {
+    script: {
+      generateScript: (req) => withRateLimit(family('script'), () => set.script.generateScript(req)),
+      parseUserScript: (req) => withRateLimit(family('script'), () => set.script.parseUserScript(req)),
+      translateSubtitles: (req) => withRateLimit(family('script'), () => set.script.translateSubtitles(req)),
+      extractDoctrine: (req) => withRateLimit(family('script'), () => set.script.extractDoctrine(req)),
+    },
+    image: {
+      generateImage: (prompt, aspectRatio) => withRateLimit(family('image'), () => set.image.generateImage(prompt, aspectRatio)),
+    },
+    video: {
+      generateVideo: (prompt, aspectRatio) => withRateLimit(family('video'), () => set.video.generateVideo(prompt, aspectRatio)),
+    },
+    tts: {
+      synthesize: (text, voiceName) => withRateLimit(family('tts'), () => set.tts.synthesize(text, voiceName)),
+    },
+  };
+};
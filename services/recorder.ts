@@ -0,0 +1,108 @@
+import { ProjectProviders, ProviderRole, AspectRatio } from "../types";
+import { ProviderSet } from "./providers";
+import { saveRecording, getRecording } from "./storageService";
+import { hashString } from "./hash";
+
+// --- Record / Replay ---
+// 'record' passes calls through to the real providers and stores every response in IndexedDB.
+// 'replay' answers from those recordings only (no network, no key), failing loudly on a miss.
+// The mode is a per-browser developer setting, not part of the project.
+
+export type BackendMode = 'live' | 'record' | 'replay';
+
+const MODE_KEY = 'zencreate_backend_mode_v1';
+
+export const getBackendMode = (): BackendMode => {
+  const mode = localStorage.getItem(MODE_KEY);
+  return mode === 'record' || mode === 'replay' ? mode : 'live';
+};
+
+export const setBackendMode = (mode: BackendMode) => {
+  localStorage.setItem(MODE_KEY, mode);
+};
+
+export class ReplayMissError extends Error {
+  constructor(role: ProviderRole) {
+    super(`回放模式下没有找到对应的录制内容 (No ${role} recording for this request)`);
+    this.name = 'ReplayMissError';
+  }
+}
+
+// Requests are keyed by role, backend, model and arguments so a changed prompt is a miss, not a stale hit
+const recordingKey = (role: ProviderRole, providers: ProjectProviders, args: unknown[]) => {
+  const { provider, model } = providers[role];
+  return `${role}:${provider}:${model}:${hashString(JSON.stringify(args)).toString(16)}`;
+};
+
+const replayOrRecord = async <T>(
+  mode: Exclude<BackendMode, 'live'>,
+  role: ProviderRole,
+  providers: ProjectProviders,
+  args: unknown[],
+  call: () => Promise<T>,
+  serialize: (result: T) => Promise<{ json?: unknown; blob?: Blob; duration?: number }>,
+  deserialize: (record: { json?: unknown; blob?: Blob; duration?: number }) => T
+): Promise<T> => {
+  const key = recordingKey(role, providers, args);
+
+  if (mode === 'replay') {
+    const record = await getRecording(key);
+    if (!record) throw new ReplayMissError(role);
+    return deserialize(record);
+  }
+
+  const result = await call();
+  try {
+    await saveRecording({ key, role, createdAt: Date.now(), ...(await serialize(result)) });
+  } catch (e) {
+    console.error("Failed to store recording", e);
+  }
+  return result;
+};
+
+const blobFromUrl = async (url: string) => (await fetch(url)).blob();
+
+// Landscape keeps the original key so recordings made before aspect ratios still replay
+const visualArgs = (prompt: string, aspectRatio?: AspectRatio): unknown[] =>
+  aspectRatio && aspectRatio !== '16:9' ? [prompt, aspectRatio] : [prompt];
+
+export const withRecording = (set: ProviderSet, providers: ProjectProviders, mode: BackendMode): ProviderSet => {
+  if (mode === 'live') return set;
+
+  const script = <T>(args: unknown[], call: () => Promise<T>) =>
+    replayOrRecord<T>(
+      mode, 'script', providers, args, call,
+      async (json) => ({ json }),
+      (record) => record.json as T
+    );
+
+  const media = (role: 'image' | 'video', args: unknown[], call: () => Promise<string>) =>
+    replayOrRecord<string>(
+      mode, role, providers, args, call,
+      async (url) => ({ blob: await blobFromUrl(url) }),
+      (record) => URL.createObjectURL(record.blob!)
+    );
+
+  return {
+    script: {
+      generateScript: (req) => script(['generateScript', req], () => set.script.generateScript(req)),
+      parseUserScript: (req) => script(['parseUserScript', req], () => set.script.parseUserScript(req)),
+      translateSubtitles: (req) => script(['translateSubtitles', req], () => set.script.translateSubtitles(req)),
+      extractDoctrine: (req) => script(['extractDoctrine', req], () => set.script.extractDoctrine(req)),
+    },
+    image: {
+      generateImage: (prompt, aspectRatio) => media('image', visualArgs(prompt, aspectRatio), () => set.image.generateImage(prompt, aspectRatio)),
+    },
+    video: {
+      generateVideo: (prompt, aspectRatio) => media('video', visualArgs(prompt, aspectRatio), () => set.video.generateVideo(prompt, aspectRatio)),
+    },
+    tts: {
+      synthesize: (text, voiceName) => replayOrRecord(
+        mode, 'tts', providers, [text, voiceName],
+        () => set.tts.synthesize(text, voiceName),
+        async (res) => ({ blob: await blobFromUrl(res.url), duration: res.duration }),
+        (record) => ({ url: URL.createObjectURL(record.blob!), duration: record.duration || 0 })
+      ),
+    },
+  };
+};
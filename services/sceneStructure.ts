@@ -0,0 +1,169 @@
+import { Project, Scene } from "../types";
+import { EditCommand } from "./editHistory";
+
+// --- Scene Structure Edits ---
+// Insert / delete / split / merge / move, as undoable commands. Assets stay valid unless the
+// text they were made from changes: splitting or merging rewrites narration, so the affected
+// scene loses its active audio (its takes are kept) and the next production run redoes only that.
+// Media of removed scenes stays in the store so undo can bring the scene back intact.
+// Commands patch the scenes as they are when applied or reverted, not as they were when the edit
+// was made, so takes, assets and errors a background job added in between survive undo / redo.
+
+export const createBlankScene = (): Scene => ({
+  id: `scene-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+  narration: '',
+  visualPrompt: '',
+  isGeneratingImage: false,
+  isGeneratingVideo: false,
+  isGeneratingAudio: false,
+});
+
+const CLEARED_AUDIO: Partial<Scene> = {
+  audioUrl: undefined,
+  audioAssetId: undefined,
+  audioDuration: undefined,
+  subtitleTimings: undefined,
+};
+
+const withoutAudioError = (scene: Scene): Scene['errors'] => {
+  if (!scene.errors?.audio) return scene.errors;
+  const { audio, ...rest } = scene.errors;
+  return Object.keys(rest).length > 0 ? rest : undefined;
+};
+
+const insertAt = (scenes: Scene[], index: number, scene: Scene) => {
+  const next = [...scenes];
+  next.splice(Math.max(0, Math.min(index, next.length)), 0, scene);
+  return next;
+};
+
+const patchScene = (project: Project, sceneId: string, patch: (scene: Scene) => Scene): Project => ({
+  ...project,
+  scenes: project.scenes.map(s => s.id === sceneId ? patch(s) : s),
+});
+
+// The scene with its narration changed, so its active audio (and any audio error) no longer applies
+const withNarration = (scene: Scene, narration: string): Scene =>
+  ({ ...scene, ...CLEARED_AUDIO, narration, errors: withoutAudioError(scene) });
+
+// The scene back on `source`'s narration, with the active audio (and audio error) that went with it
+const withNarrationOf = (scene: Scene, source: Scene): Scene => {
+  const { audio, ...otherErrors } = scene.errors || {};
+  const errors = source.errors?.audio ? { ...otherErrors, audio: source.errors.audio } : otherErrors;
+  return {
+    ...scene,
+    narration: source.narration,
+    audioUrl: source.audioUrl,
+    audioAssetId: source.audioAssetId,
+    audioDuration: source.audioDuration,
+    subtitleTimings: source.subtitleTimings,
+    errors: Object.keys(errors).length > 0 ? errors : undefined,
+  };
+};
+
+const removeScene = (project: Project, sceneId: string): Project => ({
+  ...project,
+  scenes: project.scenes.filter(s => s.id !== sceneId),
+});
+
+const indexOf = (project: Project, sceneId: string) => project.scenes.findIndex(s => s.id === sceneId);
+
+const findScene = (project: Project, sceneId: string) => project.scenes.find(s => s.id === sceneId);
+
+export const insertSceneCommand = (index: number, scene: Scene = createBlankScene()): EditCommand => {
+  let inserted = scene; // As last removed, so redo brings back what production added to it
+  return {
+    label: '插入分镜',
+    apply: (project) => ({ ...project, scenes: insertAt(project.scenes, index, inserted) }),
+    revert: (project) => {
+      inserted = findScene(project, scene.id) || inserted;
+      return removeScene(project, scene.id);
+    },
+    at: Date.now(),
+  };
+};
+
+export const deleteSceneCommand = (project: Project, sceneId: string): EditCommand => {
+  const index = indexOf(project, sceneId);
+  let scene = project.scenes[index];
+  return {
+    label: '删除分镜',
+    apply: (p) => {
+      scene = findScene(p, sceneId) || scene;
+      return removeScene(p, sceneId);
+    },
+    revert: (p) => ({ ...p, scenes: insertAt(p.scenes, index, scene) }),
+    at: Date.now(),
+  };
+};
+
+// Splits the narration at `position`; the second half becomes a new scene with the same visual
+// prompt but no visual yet (assets are never shared between scenes).
+export const splitSceneCommand = (project: Project, sceneId: string, position: number): EditCommand | null => {
+  const original = project.scenes.find(s => s.id === sceneId);
+  if (!original) return null;
+  const head = original.narration.slice(0, position).trim();
+  const tail = original.narration.slice(position).trim();
+  if (!head || !tail) return null;
+
+  let second: Scene = { ...createBlankScene(), narration: tail, visualPrompt: original.visualPrompt };
+
+  return {
+    label: '拆分分镜',
+    apply: (p) => {
+      const split = patchScene(p, sceneId, s => withNarration(s, head));
+      return { ...split, scenes: insertAt(split.scenes, indexOf(split, sceneId) + 1, second) };
+    },
+    revert: (p) => {
+      second = findScene(p, second.id) || second;
+      return patchScene(removeScene(p, second.id), sceneId, s => withNarrationOf(s, original));
+    },
+    at: Date.now(),
+  };
+};
+
+const joinNarration = (a: string, b: string) => {
+  const needsSpace = /[A-Za-z0-9.,!?;:]$/.test(a) && /^[A-Za-z0-9]/.test(b);
+  return `${a}${needsSpace ? ' ' : ''}${b}`;
+};
+
+// Merges a scene with the one after it: narration is joined (so audio must be redone),
+// the first scene's visual is kept and the second scene goes away.
+export const mergeWithNextCommand = (project: Project, sceneId: string): EditCommand | null => {
+  const index = indexOf(project, sceneId);
+  const first = project.scenes[index];
+  let second = project.scenes[index + 1];
+  if (!first || !second) return null;
+  const narration = joinNarration(first.narration, second.narration);
+  const visualPrompt = first.visualPrompt || second.visualPrompt;
+
+  return {
+    label: '合并分镜',
+    apply: (p) => {
+      second = findScene(p, second.id) || second;
+      return patchScene(removeScene(p, second.id), first.id, s => ({ ...withNarration(s, narration), visualPrompt }));
+    },
+    revert: (p) => {
+      const restored = patchScene(p, first.id, s => ({ ...withNarrationOf(s, first), visualPrompt: first.visualPrompt }));
+      return { ...restored, scenes: insertAt(restored.scenes, indexOf(restored, first.id) + 1, second) };
+    },
+    at: Date.now(),
+  };
+};
+
+const moveTo = (project: Project, sceneId: string, index: number): Project => {
+  const scene = findScene(project, sceneId);
+  if (!scene) return project;
+  return { ...project, scenes: insertAt(project.scenes.filter(s => s.id !== sceneId), index, scene) };
+};
+
+export const moveSceneCommand = (project: Project, sceneId: string, toIndex: number): EditCommand | null => {
+  const fromIndex = indexOf(project, sceneId);
+  if (fromIndex < 0 || fromIndex === toIndex) return null;
+  return {
+    label: '调整分镜顺序',
+    apply: (p) => moveTo(p, sceneId, toIndex),
+    revert: (p) => moveTo(p, sceneId, fromIndex),
+    at: Date.now(),
+  };
+};
@@ -1,7 +1,359 @@
-import { Project } from "../types";
+import { Project, Scene, MediaKind, BgmTrack, SutraText } from "../types";
 
 const STORAGE_KEY = 'zencreate_projects_v1';
 
+// --- Media Store (IndexedDB) ---
+// localStorage only holds the project JSON. Generated audio / images / videos
+// live in IndexedDB and scenes reference them by asset ID, so they survive a reload.
+
+const MEDIA_DB_NAME = 'zencreate_media';
+const MEDIA_DB_VERSION = 4;
+const ASSET_STORE = 'assets';
+const RECORDING_STORE = 'recordings'; // v2: provider responses captured in record mode
+const BGM_STORE = 'bgm_tracks';       // v3: background music library, shared by all projects
+const SUTRA_STORE = 'sutra_texts';    // v4: sutra corpus for citation checking, shared by all projects
+
+export interface MediaAssetRecord {
+  id: string;
+  projectId: string;
+  sceneId: string;
+  kind: MediaKind;
+  blob: Blob;
+  createdAt: number;
+}
+
+// Which Scene fields hold the playable URL and the stored asset ID for each media kind
+export const MEDIA_FIELDS: Record<MediaKind, { url: 'audioUrl' | 'imageUrl' | 'videoUrl'; assetId: 'audioAssetId' | 'imageAssetId' | 'videoAssetId' }> = {
+  audio: { url: 'audioUrl', assetId: 'audioAssetId' },
+  image: { url: 'imageUrl', assetId: 'imageAssetId' },
+  video: { url: 'videoUrl', assetId: 'videoAssetId' },
+};
+
+const MEDIA_KINDS = Object.keys(MEDIA_FIELDS) as MediaKind[];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Object URLs created this session, keyed by asset ID (avoids leaking a new URL per render)
+const objectUrlCache = new Map<string, string>();
+
+const openMediaDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    let blocked = false;
+    const request = indexedDB.open(MEDIA_DB_NAME, MEDIA_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ASSET_STORE)) {
+        const store = db.createObjectStore(ASSET_STORE, { keyPath: 'id' });
+        store.createIndex('projectId', 'projectId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+        db.createObjectStore(RECORDING_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(BGM_STORE)) {
+        db.createObjectStore(BGM_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SUTRA_STORE)) {
+        db.createObjectStore(SUTRA_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      if (blocked) {
+        db.close(); // Opened once the other tab went away, but callers were already told to reload
+        return;
+      }
+      // A newer version is opening in another tab: step aside instead of blocking its upgrade
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    // Another tab still holds the old version open (one from before it closed itself on upgrade)
+    request.onblocked = () => {
+      blocked = true;
+      dbPromise = null;
+      reject(new Error("Media storage upgrade is blocked by another open tab of this app. Close the other tabs and reload."));
+    };
+  });
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const saveMediaAsset = async (projectId: string, sceneId: string, kind: MediaKind, blob: Blob): Promise<string> => {
+  const db = await openMediaDb();
+  const record: MediaAssetRecord = {
+    id: `${projectId}/${sceneId}/${kind}-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+    projectId,
+    sceneId,
+    kind,
+    blob,
+    createdAt: Date.now(),
+  };
+  await promisifyRequest(db.transaction(ASSET_STORE, 'readwrite').objectStore(ASSET_STORE).put(record));
+  return record.id;
+};
+
+// Convenience for the generation services, which hand back blob URLs
+export const saveMediaFromUrl = async (projectId: string, sceneId: string, kind: MediaKind, url: string): Promise<string> => {
+  const res = await fetch(url);
+  const blob = await res.blob();
+  const assetId = await saveMediaAsset(projectId, sceneId, kind, blob);
+  if (url.startsWith('blob:')) objectUrlCache.set(assetId, url);
+  return assetId;
+};
+
+export const getMediaAsset = async (assetId: string): Promise<MediaAssetRecord | null> => {
+  try {
+    const db = await openMediaDb();
+    const record = await promisifyRequest(db.transaction(ASSET_STORE, 'readonly').objectStore(ASSET_STORE).get(assetId));
+    return (record as MediaAssetRecord) || null;
+  } catch (e) {
+    console.error("Failed to read media asset", e);
+    return null;
+  }
+};
+
+export const getMediaUrl = async (assetId: string): Promise<string | undefined> => {
+  const cached = objectUrlCache.get(assetId);
+  if (cached) return cached;
+
+  const record = await getMediaAsset(assetId);
+  if (!record) return undefined;
+
+  const url = URL.createObjectURL(record.blob);
+  objectUrlCache.set(assetId, url);
+  return url;
+};
+
+export const deleteMediaAsset = async (assetId: string) => {
+  try {
+    const db = await openMediaDb();
+    await promisifyRequest(db.transaction(ASSET_STORE, 'readwrite').objectStore(ASSET_STORE).delete(assetId));
+    const cached = objectUrlCache.get(assetId);
+    if (cached) {
+      URL.revokeObjectURL(cached);
+      objectUrlCache.delete(assetId);
+    }
+  } catch (e) {
+    console.error("Failed to delete media asset", e);
+  }
+};
+
+export const deleteProjectMedia = async (projectId: string) => {
+  try {
+    const db = await openMediaDb();
+    const index = db.transaction(ASSET_STORE, 'readonly').objectStore(ASSET_STORE).index('projectId');
+    const ids = await promisifyRequest(index.getAllKeys(IDBKeyRange.only(projectId)));
+    for (const id of ids) {
+      await deleteMediaAsset(id as string);
+    }
+  } catch (e) {
+    console.error("Failed to delete project media", e);
+  }
+};
+
+// --- Provider Recordings (record / replay mode) ---
+
+export interface RecordingRecord {
+  key: string;
+  role: string;
+  createdAt: number;
+  json?: unknown;      // Script responses
+  blob?: Blob;         // Media responses
+  duration?: number;   // TTS responses
+}
+
+export const saveRecording = async (record: RecordingRecord) => {
+  const db = await openMediaDb();
+  await promisifyRequest(db.transaction(RECORDING_STORE, 'readwrite').objectStore(RECORDING_STORE).put(record));
+};
+
+export const getRecording = async (key: string): Promise<RecordingRecord | null> => {
+  const db = await openMediaDb();
+  const record = await promisifyRequest(db.transaction(RECORDING_STORE, 'readonly').objectStore(RECORDING_STORE).get(key));
+  return (record as RecordingRecord) || null;
+};
+
+export const countRecordings = async (): Promise<number> => {
+  try {
+    const db = await openMediaDb();
+    return await promisifyRequest(db.transaction(RECORDING_STORE, 'readonly').objectStore(RECORDING_STORE).count());
+  } catch (e) {
+    console.error("Failed to count recordings", e);
+    return 0;
+  }
+};
+
+export const clearRecordings = async () => {
+  try {
+    const db = await openMediaDb();
+    await promisifyRequest(db.transaction(RECORDING_STORE, 'readwrite').objectStore(RECORDING_STORE).clear());
+  } catch (e) {
+    console.error("Failed to clear recordings", e);
+  }
+};
+
+// --- Background Music Library ---
+
+export interface BgmTrackRecord extends BgmTrack {
+  blob: Blob;
+}
+
+const bgmUrlKey = (trackId: string) => `bgm:${trackId}`;
+
+export const saveBgmTrack = async (record: BgmTrackRecord) => {
+  const db = await openMediaDb();
+  await promisifyRequest(db.transaction(BGM_STORE, 'readwrite').objectStore(BGM_STORE).put(record));
+};
+
+export const getBgmTrack = async (trackId: string): Promise<BgmTrackRecord | null> => {
+  try {
+    const db = await openMediaDb();
+    const record = await promisifyRequest(db.transaction(BGM_STORE, 'readonly').objectStore(BGM_STORE).get(trackId));
+    return (record as BgmTrackRecord) || null;
+  } catch (e) {
+    console.error("Failed to read music track", e);
+    return null;
+  }
+};
+
+// Metadata only, newest first
+export const listBgmTracks = async (): Promise<BgmTrack[]> => {
+  try {
+    const db = await openMediaDb();
+    const records = await promisifyRequest(db.transaction(BGM_STORE, 'readonly').objectStore(BGM_STORE).getAll()) as BgmTrackRecord[];
+    return records.map(({ blob, ...track }) => track).sort((a, b) => b.createdAt - a.createdAt);
+  } catch (e) {
+    console.error("Failed to list music tracks", e);
+    return [];
+  }
+};
+
+export const getBgmTrackUrl = async (trackId: string): Promise<string | undefined> => {
+  const key = bgmUrlKey(trackId);
+  const cached = objectUrlCache.get(key);
+  if (cached) return cached;
+
+  const record = await getBgmTrack(trackId);
+  if (!record) return undefined;
+
+  const url = URL.createObjectURL(record.blob);
+  objectUrlCache.set(key, url);
+  return url;
+};
+
+export const deleteBgmTrack = async (trackId: string) => {
+  try {
+    const db = await openMediaDb();
+    await promisifyRequest(db.transaction(BGM_STORE, 'readwrite').objectStore(BGM_STORE).delete(trackId));
+    const cached = objectUrlCache.get(bgmUrlKey(trackId));
+    if (cached) {
+      URL.revokeObjectURL(cached);
+      objectUrlCache.delete(bgmUrlKey(trackId));
+    }
+  } catch (e) {
+    console.error("Failed to delete music track", e);
+  }
+};
+
+// --- Sutra Corpus ---
+
+export interface SutraTextRecord extends SutraText {
+  text: string;
+}
+
+export const saveSutraText = async (record: SutraTextRecord) => {
+  const db = await openMediaDb();
+  await promisifyRequest(db.transaction(SUTRA_STORE, 'readwrite').objectStore(SUTRA_STORE).put(record));
+};
+
+// Full texts, for matching quotations
+export const getSutraTexts = async (): Promise<SutraTextRecord[]> => {
+  try {
+    const db = await openMediaDb();
+    return await promisifyRequest(db.transaction(SUTRA_STORE, 'readonly').objectStore(SUTRA_STORE).getAll()) as SutraTextRecord[];
+  } catch (e) {
+    console.error("Failed to read sutra corpus", e);
+    return [];
+  }
+};
+
+// Metadata only, by title
+export const listSutraTexts = async (): Promise<SutraText[]> =>
+  (await getSutraTexts()).map(({ text, ...sutra }) => sutra).sort((a, b) => a.title.localeCompare(b.title, 'zh'));
+
+export const deleteSutraText = async (sutraId: string) => {
+  try {
+    const db = await openMediaDb();
+    await promisifyRequest(db.transaction(SUTRA_STORE, 'readwrite').objectStore(SUTRA_STORE).delete(sutraId));
+  } catch (e) {
+    console.error("Failed to delete sutra text", e);
+  }
+};
+
+// Turn stored asset IDs back into playable URLs.
+// Legacy blob URLs without an asset ID died with the session that created them, so they are dropped.
+export const hydrateProjectMedia = async (project: Project): Promise<Project> => {
+  const scenes = await Promise.all(project.scenes.map(async (scene) => {
+    const hydrated: Scene = { ...scene };
+    for (const kind of MEDIA_KINDS) {
+      const { url, assetId } = MEDIA_FIELDS[kind];
+      const id = scene[assetId];
+      if (id) {
+        hydrated[url] = await getMediaUrl(id);
+      } else if (scene[url]?.startsWith('blob:')) {
+        hydrated[url] = undefined;
+      }
+    }
+    if (scene.takes) {
+      hydrated.takes = {};
+      for (const kind of MEDIA_KINDS) {
+        const takes = scene.takes[kind];
+        if (!takes) continue;
+        hydrated.takes[kind] = await Promise.all(takes.map(async take => ({
+          ...take,
+          url: take.assetId ? await getMediaUrl(take.assetId) : take.url?.startsWith('blob:') ? undefined : take.url,
+        })));
+      }
+    }
+    return hydrated;
+  }));
+  return { ...project, scenes };
+};
+
+// Blob URLs are only valid for the current session; the asset IDs are what gets persisted
+const stripSessionUrls = (project: Project): Project => ({
+  ...project,
+  scenes: project.scenes.map(scene => {
+    const stripped: Scene = { ...scene };
+    for (const kind of MEDIA_KINDS) {
+      const { url } = MEDIA_FIELDS[kind];
+      if (stripped[url]?.startsWith('blob:')) stripped[url] = undefined;
+    }
+    if (scene.takes) {
+      stripped.takes = Object.fromEntries(Object.entries(scene.takes).map(([kind, takes]) => [
+        kind,
+        takes!.map(take => take.url?.startsWith('blob:') ? { ...take, url: undefined } : take),
+      ]));
+    }
+    return stripped;
+  })
+});
+
+// --- Projects (localStorage) ---
+
 export const saveProjectToStorage = (project: Project) => {
   try {
     const existing = getProjectsFromStorage();
@@ -10,10 +362,11 @@ export const saveProjectToStorage = (project: Project) => {
     // Update timestamp
     project.updatedAt = Date.now();
 
+    const stored = stripSessionUrls(project);
     if (index >= 0) {
-      existing[index] = project;
+      existing[index] = stored;
     } else {
-      existing.unshift(project); // Add to top
+      existing.unshift(stored); // Add to top
     }
     
     localStorage.setItem(STORAGE_KEY, JSON.stringify(existing));
@@ -22,6 +375,35 @@ export const saveProjectToStorage = (project: Project) => {
   }
 };
 
+// Merge changes into one stored scene. Used by background jobs, which may finish
+// while their project is not the one open in the editor.
+const mergePerKind = <T>(current: Partial<Record<MediaKind, T>> | undefined, updates: Partial<Record<MediaKind, T>>) => {
+  const merged = { ...current, ...updates };
+  (Object.keys(merged) as MediaKind[]).forEach(kind => { if (!merged[kind]) delete merged[kind]; });
+  return Object.keys(merged).length > 0 ? merged : undefined;
+};
+
+// `errors` and `takes` are merged per asset kind (an undefined entry clears that kind) so
+// concurrent audio and visual updates don't overwrite each other
+export const mergeSceneUpdates = (scene: Scene, updates: Partial<Scene>): Scene => {
+  const merged = { ...scene, ...updates };
+  if (updates.errors) merged.errors = mergePerKind(scene.errors, updates.errors);
+  if (updates.takes) merged.takes = mergePerKind(scene.takes, updates.takes);
+  return merged;
+};
+
+export const getStoredScene = (projectId: string, sceneId: string): Scene | undefined =>
+  getProjectsFromStorage().find(p => p.id === projectId)?.scenes.find(s => s.id === sceneId);
+
+export const updateStoredScene = (projectId: string, sceneId: string, updates: Partial<Scene>) => {
+  const project = getProjectsFromStorage().find(p => p.id === projectId);
+  if (!project) return;
+  saveProjectToStorage({
+    ...project,
+    scenes: project.scenes.map(s => s.id === sceneId ? mergeSceneUpdates(s, updates) : s),
+  });
+};
+
 export const getProjectsFromStorage = (): Project[] => {
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
@@ -36,6 +418,7 @@ export const deleteProjectFromStorage = (id: string) => {
     const existing = getProjectsFromStorage();
     const filtered = existing.filter(p => p.id !== id);
     localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+    deleteProjectMedia(id);
     return filtered;
   } catch (e) {
     console.error("Failed to delete project", e);
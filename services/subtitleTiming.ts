@@ -0,0 +1,133 @@
+import { CastMember, SubtitleTimings } from "../types";
+import { decodeAudioBlob } from "./audioUtils";
+import { stripSpeakerTags } from "./dialogue";
+import { splitSubtitleText } from "./subtitles";
+
+// --- Audio-Driven Subtitle Timing ---
+// Finds the pauses in a narration track with a simple energy / silence detector and moves
+// subtitle chunk boundaries onto them, instead of sharing time out by character count
+// (which drifts badly with slow delivery and long pauses at commas). Runs locally on the WAV.
+
+export interface Segment {
+  start: number;
+  end: number;
+}
+
+export interface SpeechAnalysis {
+  duration: number;
+  speech: Segment[]; // Voiced stretches, in order
+  pauses: Segment[]; // Silences between voiced stretches
+}
+
+const FRAME_SECONDS = 0.02;
+const MIN_PAUSE_SECONDS = 0.15;  // Shorter gaps are just the space between syllables
+const LEAD_IN_SECONDS = 0.1;     // Show a chunk slightly before its first word
+const MIN_CUE_SECONDS = 0.3;
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+
+// Also tells the mix where to duck the music (audioMix.ts)
+export const analyzeSpeech = (buffer: AudioBuffer): SpeechAnalysis => {
+  const frameLength = Math.max(1, Math.round(buffer.sampleRate * FRAME_SECONDS));
+  const frameCount = Math.ceil(buffer.length / frameLength);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+
+  // Frame loudness in dB (RMS over all channels)
+  const levels = new Array<number>(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    const from = f * frameLength;
+    const to = Math.min(buffer.length, from + frameLength);
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = from; i < to; i++) sum += data[i] * data[i];
+    }
+    const rms = Math.sqrt(sum / Math.max(1, (to - from) * channels.length));
+    levels[f] = 20 * Math.log10(rms + 1e-9);
+  }
+
+  // Threshold between the noise floor and the speech level, adapted to each track
+  const sorted = [...levels].sort((a, b) => a - b);
+  const floor = percentile(sorted, 0.1);
+  const loud = percentile(sorted, 0.95);
+  const threshold = Math.max(floor + (loud - floor) * 0.35, loud - 40);
+
+  const speech: Segment[] = [];
+  let runStart = -1;
+  for (let f = 0; f <= frameCount; f++) {
+    const voiced = f < frameCount && levels[f] > threshold;
+    if (voiced && runStart < 0) runStart = f;
+    if (!voiced && runStart >= 0) {
+      const segment = { start: runStart * FRAME_SECONDS, end: Math.min(f * FRAME_SECONDS, buffer.duration) };
+      const last = speech[speech.length - 1];
+      // Bridge gaps too short to be a pause
+      if (last && segment.start - last.end < MIN_PAUSE_SECONDS) last.end = segment.end;
+      else speech.push(segment);
+      runStart = -1;
+    }
+  }
+
+  const pauses = speech.slice(1).map((s, i) => ({ start: speech[i].end, end: s.start }));
+  return { duration: buffer.duration, speech, pauses };
+};
+
+// Walks the chunk boundaries in order: each is first estimated by character share of the
+// speech still left, then snapped to the best nearby pause (closest, and longer is better).
+const alignToPauses = (texts: string[], analysis: SpeechAnalysis): SubtitleTimings['cues'] | undefined => {
+  const { speech, pauses, duration } = analysis;
+  if (speech.length === 0 || texts.length === 0) return undefined;
+
+  const speechStart = speech[0].start;
+  const speechEnd = speech[speech.length - 1].end;
+  const lengths = texts.map(t => Math.max(1, t.length));
+
+  const boundaries: number[] = [];
+  let cursor = speechStart;
+  const used = new Set<Segment>();
+  for (let i = 0; i < texts.length - 1; i++) {
+    const remaining = lengths.slice(i).reduce((a, b) => a + b, 0);
+    const estimate = cursor + (speechEnd - cursor) * (lengths[i] / remaining);
+    const window = Math.max(0.6, (estimate - cursor) * 0.5);
+
+    let best: Segment | undefined;
+    let bestScore = Infinity;
+    for (const pause of pauses) {
+      if (used.has(pause) || pause.start <= cursor + MIN_CUE_SECONDS) continue;
+      const center = (pause.start + pause.end) / 2;
+      if (Math.abs(center - estimate) > window) continue;
+      const score = Math.abs(center - estimate) - (pause.end - pause.start) * 0.5;
+      if (score < bestScore) {
+        best = pause;
+        bestScore = score;
+      }
+    }
+
+    if (best) {
+      used.add(best);
+      boundaries.push(Math.max(best.start, best.end - LEAD_IN_SECONDS));
+      cursor = best.end;
+    } else {
+      boundaries.push(estimate);
+      cursor = estimate;
+    }
+  }
+
+  const starts = [Math.max(0, speechStart - LEAD_IN_SECONDS), ...boundaries];
+  const ends = [...boundaries, duration];
+  const ms = (t: number) => Math.round(t * 1000) / 1000;
+  return texts.map((_, i) => ({ start: ms(starts[i]), end: ms(Math.max(ends[i], starts[i])) }));
+};
+
+// Measures timings for a narration's audio; undefined when the audio can't be read or is silent
+// (callers then fall back to proportional timing).
+export const measureSubtitleTimings = async (audioUrl: string, narration: string, cast?: CastMember[]): Promise<SubtitleTimings | undefined> => {
+  try {
+    const blob = await (await fetch(audioUrl)).blob();
+    const buffer = await decodeAudioBlob(blob);
+    const texts = splitSubtitleText(stripSpeakerTags(narration, cast));
+    const cues = alignToPauses(texts, analyzeSpeech(buffer));
+    return cues ? { narration, cues } : undefined;
+  } catch (e) {
+    console.warn("Subtitle timing analysis failed", e);
+    return undefined;
+  }
+};
@@ -0,0 +1,306 @@
+import { Scene, CastMember, AspectRatio, Project, SubtitleStyle, NarrationLanguage } from "../types";
+import { stripSpeakerTags } from "./dialogue";
+import { ASPECT_RATIOS, DEFAULT_ASPECT_RATIO, getFrameSize } from "./aspectRatio";
+
+// --- Subtitles ---
+// One timing model for the burned-in subtitles drawn by the Player and the sidecar files
+// (SRT / WebVTT / ASS) editors load into CapCut, Premiere, Bilibili or YouTube.
+
+export interface SubtitleChunk {
+  text: string;
+  secondary?: string; // Translated line shown under the text (bilingual subtitles)
+  start: number; // seconds
+  end: number;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  fontFamily: 'Merriweather',
+  fontSize: 48,
+  bold: true,
+  color: '#ffffff',
+  outlineColor: '#000000',
+  outlineWidth: 6,
+  box: false,
+  boxColor: '#000000',
+  boxOpacity: 0.5,
+  position: 'bottom',
+  layout: 'horizontal',
+  margin: 60,
+  karaoke: false,
+  highlightColor: '#f5c242',
+};
+
+// Families loaded from Google Fonts in index.html. The CJK ones carry their own Chinese glyphs;
+// Merriweather falls back to the system's Chinese serif.
+export const SUBTITLE_FONTS: { family: string; label: string }[] = [
+  { family: 'Merriweather', label: '默认 (Merriweather)' },
+  { family: 'Noto Serif SC', label: '思源宋体' },
+  { family: 'Noto Serif TC', label: '思源宋體 (繁体)' },
+  { family: 'Noto Sans SC', label: '思源黑体' },
+  { family: 'LXGW WenKai TC', label: '霞鹜文楷' },
+  { family: 'Ma Shan Zheng', label: '马善政楷书 (毛笔)' },
+  { family: 'Zhi Mang Xing', label: '志莽行书' },
+  { family: 'Liu Jian Mao Cao', label: '刘建毛草 (草书)' },
+  { family: 'Long Cang', label: '龙藏体 (手写)' },
+  { family: 'ZCOOL XiaoWei', label: '站酷小薇' },
+];
+
+// Older projects have no style, and styles saved before a field existed lack it
+export const getProjectSubtitleStyle = (project: Pick<Project, 'subtitleStyle'>): SubtitleStyle =>
+  ({ ...DEFAULT_SUBTITLE_STYLE, ...project.subtitleStyle });
+
+// Scenes without narration audio are shown for this long (matches the Player's fallback timer)
+export const DEFAULT_SCENE_SECONDS = 5;
+
+export const getSceneDuration = (scene: Scene) => scene.audioDuration || DEFAULT_SCENE_SECONDS;
+
+// Splits narration into subtitle chunks at punctuation and line breaks
+export const splitSubtitleText = (text: string): string[] => {
+  const parts = text.split(/([，。！？；：,.!?\n]+)/).reduce((acc, curr, i, arr) => {
+    if (i % 2 === 0 && curr.trim()) {
+      const punct = (arr[i + 1] || '').replace(/\n/g, '');
+      acc.push(curr.trim() + punct);
+    }
+    return acc;
+  }, [] as string[]);
+  return parts.length > 0 ? parts : [text];
+};
+
+// Fallback timing: each chunk gets a share of the scene proportional to its length.
+// Times are relative to the start of the scene.
+export const splitSubtitleChunks = (text: string, duration: number): SubtitleChunk[] => {
+  const parts = splitSubtitleText(text);
+  const totalChars = parts.join('').length;
+  const chunks: SubtitleChunk[] = [];
+  let currentTime = 0;
+
+  parts.forEach(part => {
+    const partDuration = totalChars > 0 ? (part.length / totalChars) * duration : duration;
+    chunks.push({ text: part, start: currentTime, end: currentTime + partDuration });
+    currentTime += partDuration;
+  });
+
+  return chunks;
+};
+
+// Measured timings still describe this scene: same text, same chunking
+export const hasCurrentTimings = (scene: Scene, cast?: CastMember[]) => {
+  const timings = scene.subtitleTimings;
+  return !!timings && timings.narration === scene.narration
+    && timings.cues.length === splitSubtitleText(stripSpeakerTags(scene.narration || '', cast)).length;
+};
+
+// The scene's subtitle lines, which is also what gets translated line by line
+export const getSubtitleLines = (scene: Scene, cast?: CastMember[]) =>
+  splitSubtitleText(stripSpeakerTags(scene.narration || '', cast));
+
+// The translation was made from this narration, into this language
+export const hasCurrentTranslation = (scene: Scene, language: NarrationLanguage) => {
+  const translation = scene.translation;
+  return !!translation && translation.language === language && translation.narration === scene.narration;
+};
+
+// With a secondary language, chunks carry the scene's current translation (if any)
+export const getSceneSubtitles = (scene: Scene, cast?: CastMember[], secondaryLanguage?: NarrationLanguage): SubtitleChunk[] => {
+  const text = stripSpeakerTags(scene.narration || '', cast);
+  let chunks: SubtitleChunk[];
+  if (scene.subtitleTimings && hasCurrentTimings(scene, cast)) {
+    const cues = scene.subtitleTimings.cues;
+    chunks = splitSubtitleText(text).map((part, i) => ({ text: part, start: cues[i].start, end: cues[i].end }));
+  } else {
+    chunks = splitSubtitleChunks(text, getSceneDuration(scene));
+  }
+  if (!secondaryLanguage || !hasCurrentTranslation(scene, secondaryLanguage)) return chunks;
+  const lines = scene.translation!.lines;
+  return chunks.map((chunk, i) => ({ ...chunk, secondary: lines[i]?.trim() || undefined }));
+};
+
+// --- Karaoke ---
+
+// Punctuation and spaces light up with the character before them rather than taking a turn
+const isUnsung = (char: string) => /[\s\p{P}]/u.test(char);
+
+// How far into its chunk the narration is, 0..1
+export const getChunkProgress = (chunk: SubtitleChunk, time: number) =>
+  chunk.end > chunk.start ? Math.max(0, Math.min(1, (time - chunk.start) / (chunk.end - chunk.start))) : 1;
+
+// How many of the text's non-space characters are lit at this progress. Characters share the
+// chunk's time equally: the timing model has no finer alignment than the chunk.
+export const getKaraokeCut = (text: string, progress: number) => {
+  const chars = Array.from(text).filter(c => !/\s/.test(c));
+  const lit = Math.floor(progress * chars.filter(c => !isUnsung(c)).length);
+  let sung = 0;
+  let cut = 0;
+  while (cut < chars.length && (sung < lit || (sung > 0 && isUnsung(chars[cut])))) {
+    if (!isUnsung(chars[cut])) sung++;
+    cut++;
+  }
+  return cut;
+};
+
+// Whole-video timeline: each scene's chunks shifted by the total duration of the scenes before it
+export const buildSubtitleTimeline = (scenes: Scene[], cast?: CastMember[], secondaryLanguage?: NarrationLanguage): SubtitleChunk[] => {
+  const timeline: SubtitleChunk[] = [];
+  let offset = 0;
+  for (const scene of scenes) {
+    for (const chunk of getSceneSubtitles(scene, cast, secondaryLanguage)) {
+      if (chunk.text.trim()) {
+        timeline.push({ ...chunk, start: offset + chunk.start, end: offset + chunk.end });
+      }
+    }
+    offset += getSceneDuration(scene);
+  }
+  return timeline;
+};
+
+// --- Formats ---
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+// hh:mm:ss + separator + milliseconds (SRT uses ',', WebVTT '.')
+const formatMsTimestamp = (seconds: number, separator: string) => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor(totalMs / 60000) % 60;
+  const s = Math.floor(totalMs / 1000) % 60;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+// ASS uses h:mm:ss.cc (centiseconds)
+const formatAssTimestamp = (seconds: number) => {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const h = Math.floor(totalCs / 360000);
+  const m = Math.floor(totalCs / 6000) % 60;
+  const s = Math.floor(totalCs / 100) % 60;
+  return `${h}:${pad(m)}:${pad(s)}.${pad(totalCs % 100)}`;
+};
+
+// Bilingual cues are two lines: original, then translation
+const cueText = (c: SubtitleChunk) => c.secondary ? `${c.text}\n${c.secondary}` : c.text;
+
+export const toSrt = (chunks: SubtitleChunk[]): string =>
+  chunks.map((c, i) =>
+    `${i + 1}\n${formatMsTimestamp(c.start, ',')} --> ${formatMsTimestamp(c.end, ',')}\n${cueText(c)}\n`
+  ).join('\n');
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const toWebVtt = (chunks: SubtitleChunk[]): string =>
+  'WEBVTT\n\n' + chunks.map(c =>
+    `${formatMsTimestamp(c.start, '.')} --> ${formatMsTimestamp(c.end, '.')}\n${escapeVtt(cueText(c))}\n`
+  ).join('\n');
+
+// #rrggbb -> &HAABBGGRR (ASS stores colours little-endian with alpha 00 = opaque)
+const toAssColor = (hex: string, opacity = 1) => {
+  const rgb = hex.replace('#', '').padStart(6, '0').toUpperCase();
+  const alpha = Math.round((1 - opacity) * 255).toString(16).toUpperCase().padStart(2, '0');
+  return `&H${alpha}${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}`;
+};
+
+// Braces start override blocks in ASS, so literal ones are swapped for full-width forms
+const escapeAss = (text: string) => text.replace(/\{/g, '｛').replace(/\}/g, '｝').replace(/\r?\n/g, '\\N');
+
+// Where subtitles may sit in a frame: clear of the platform UI, with the style's margin on the
+// edge the text is placed against
+export const getSubtitleMargins = (style: SubtitleStyle, aspectRatio: AspectRatio) => {
+  const { width, height } = getFrameSize(aspectRatio);
+  const safe = ASPECT_RATIOS[aspectRatio].safeArea;
+  return {
+    top: Math.round(Math.max(style.position === 'top' ? style.margin : 40, safe.top * height)),
+    bottom: Math.round(Math.max(style.position === 'bottom' ? style.margin : 40, safe.bottom * height)),
+    left: Math.round(Math.max(40, safe.left * width)),
+    right: Math.round(Math.max(40, safe.right * width)),
+  };
+};
+
+// ASS karaoke: each character gets an equal share of the line in \k centiseconds
+const toAssKaraoke = (chunk: SubtitleChunk) => {
+  const chars = Array.from(chunk.text);
+  const sung = chars.filter(c => !isUnsung(c)).length;
+  const totalCs = Math.round((chunk.end - chunk.start) * 100);
+  let done = 0;
+  let n = 0;
+  return chars.map(c => {
+    if (isUnsung(c)) return escapeAss(c);
+    n++;
+    const until = Math.round((totalCs * n) / sung);
+    const cs = until - done;
+    done = until;
+    return `{\\k${cs}}${escapeAss(c)}`;
+  }).join('');
+};
+
+const ASS_ALIGNMENT = { bottom: 2, middle: 5, top: 8 }; // Numpad positions, centred
+
+// Relative size of the translation line under bilingual subtitles (also used on the canvas)
+export const SECONDARY_SUBTITLE_SCALE = 0.65;
+
+export const toAss = (
+  chunks: SubtitleChunk[],
+  title: string,
+  style: SubtitleStyle = DEFAULT_SUBTITLE_STYLE,
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
+): string => {
+  // ASS has no right-to-left vertical layout, so vertical styles export as horizontal lines
+  const frame = getFrameSize(aspectRatio);
+  const margins = getSubtitleMargins(style, aspectRatio);
+  const styleLine = [
+    'Default', style.fontFamily, style.fontSize,
+    // Karaoke fills from SecondaryColour (not yet spoken) to PrimaryColour
+    toAssColor(style.karaoke ? style.highlightColor : style.color), toAssColor(style.color),
+    // BorderStyle 3 draws an opaque box in OutlineColour instead of the text outline
+    style.box ? toAssColor(style.boxColor, style.boxOpacity) : toAssColor(style.outlineColor), '&H00000000',
+    style.bold ? -1 : 0, 0, 0, 0, 100, 100, 0, 0,
+    style.box ? 3 : 1, style.box ? Math.round(style.fontSize * 0.3) : style.outlineWidth / 2, 0,
+    ASS_ALIGNMENT[style.position], margins.left, margins.right, style.position === 'top' ? margins.top : margins.bottom,
+    1,
+  ].join(',');
+
+  return [
+    '[Script Info]',
+    `Title: ${title}`,
+    'ScriptType: v4.00+',
+    `PlayResX: ${frame.width}`,
+    `PlayResY: ${frame.height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: ${styleLine}`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...chunks.map(c => {
+      const text = style.karaoke ? toAssKaraoke(c) : escapeAss(c.text);
+      // The translation takes no part in karaoke: a zero-length syllable pinned to the base colour
+      const overrides = `${style.karaoke ? `\\k0\\1c&H${toAssColor(style.color).slice(4)}&` : ''}\\fs${Math.round(style.fontSize * SECONDARY_SUBTITLE_SCALE)}`;
+      const secondary = c.secondary ? `\\N{${overrides}}${escapeAss(c.secondary)}` : '';
+      return `Dialogue: 0,${formatAssTimestamp(c.start)},${formatAssTimestamp(c.end)},Default,,0,0,0,,${text}${secondary}`;
+    }),
+    '',
+  ].join('\n');
+};
+
+const MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ass: 'text/x-ssa',
+};
+
+export const exportSubtitles = (
+  scenes: Scene[],
+  format: SubtitleFormat,
+  title: string,
+  cast?: CastMember[],
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO,
+  style: SubtitleStyle = DEFAULT_SUBTITLE_STYLE,
+  secondaryLanguage?: NarrationLanguage
+): Blob => {
+  const chunks = buildSubtitleTimeline(scenes, cast, secondaryLanguage);
+  const text = format === 'srt' ? toSrt(chunks) : format === 'vtt' ? toWebVtt(chunks) : toAss(chunks, title, style, aspectRatio);
+  // BOM so Windows tools (Premiere, Aegisub) read the Chinese text as UTF-8
+  return new Blob(['\uFEFF', text], { type: `${MIME_TYPES[format]};charset=utf-8` });
+};
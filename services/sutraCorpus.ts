@@ -0,0 +1,65 @@
+import { SutraText } from "../types";
+import { saveSutraText, getSutraTexts } from "./storageService";
+
+// --- Sutra Corpus ---
+// Users load the sutra texts they trust as plain-text files; the doctrinal review checks every
+// quotation in a script against them. Like the music library, the corpus lives in IndexedDB and
+// is shared by all projects.
+
+// Common short names, offered as aliases when a text with a matching title is added
+const KNOWN_ALIASES: [string, string[]][] = [
+  ['心经', ['心经', '般若心经', '般若波罗蜜多心经']],
+  ['金刚', ['金刚经', '金刚般若经']],
+  ['法华', ['法华经', '妙法莲华经', '莲华经']],
+  ['莲华', ['法华经', '妙法莲华经', '莲华经']],
+  ['阿弥陀经', ['阿弥陀经', '弥陀经']],
+  ['无量寿', ['无量寿经']],
+  ['坛经', ['坛经', '六祖坛经', '六祖', '惠能', '慧能']],
+  ['华严', ['华严经']],
+  ['楞严', ['楞严经', '首楞严经']],
+  ['地藏', ['地藏经', '地藏菩萨本愿经']],
+  ['维摩', ['维摩经', '维摩诘经']],
+  ['法句', ['法句经']],
+  ['遗教', ['遗教经', '佛遗教经']],
+  ['四十二章', ['四十二章经']],
+  ['普门品', ['普门品', '观世音菩萨普门品']],
+  ['药师', ['药师经']],
+];
+
+export const suggestAliases = (title: string): string[] => {
+  const found = KNOWN_ALIASES.filter(([key]) => title.includes(key)).flatMap(([, aliases]) => aliases);
+  return [...new Set(found)].filter(alias => alias !== title);
+};
+
+// Aliases typed as "心经，般若心经" or one per line
+export const parseAliases = (value: string): string[] =>
+  [...new Set(value.split(/[,，、;；\n]/).map(a => a.trim()).filter(Boolean))];
+
+// Sutra files downloaded from Chinese sites are often GBK rather than UTF-8
+export const readTextFile = async (file: Blob): Promise<string> => {
+  const bytes = await file.arrayBuffer();
+  const utf8 = new TextDecoder('utf-8').decode(bytes);
+  if (!utf8.includes('\uFFFD')) return utf8;
+  try {
+    return new TextDecoder('gbk').decode(bytes);
+  } catch {
+    return utf8;
+  }
+};
+
+export const addSutraText = async (text: string, title: string, aliases: string[]): Promise<SutraText> => {
+  const sutra: SutraText = {
+    id: `sutra-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+    title,
+    aliases,
+    length: Array.from(text).length,
+    createdAt: Date.now(),
+  };
+  await saveSutraText({ ...sutra, text });
+  return sutra;
+};
+
+export const updateSutraInfo = async (sutraId: string, info: Partial<Pick<SutraText, 'title' | 'aliases'>>) => {
+  const record = (await getSutraTexts()).find(r => r.id === sutraId);
+  if (record) await saveSutraText({ ...record, ...info });
+};
@@ -0,0 +1,90 @@
+import { Project, Scene, SceneTransition, TransitionType } from "../types";
+import { EditCommand } from "./editHistory";
+import { getSceneDuration } from "./subtitles";
+
+// --- Scene Transitions ---
+// A transition belongs to the scene it leads into and is centred on the boundary: the first
+// half plays over the end of the previous scene, the second half over the start of this one.
+// The timeline length never changes, so subtitle timing and exports stay where they were.
+
+export const TRANSITION_LABELS: Record<TransitionType, string> = {
+  cut: '硬切',
+  crossfade: '叠化',
+  fadeBlack: '黑场过渡',
+  fadeWhite: '白场过渡',
+  inkWipe: '水墨晕染',
+};
+
+export const TRANSITION_DURATIONS = [0.5, 1, 1.5, 2, 3];
+
+export const DEFAULT_TRANSITION: SceneTransition = { type: 'crossfade', duration: 1 };
+
+// Narration fades with the picture, but never over more than this at either end, so the fade
+// mostly touches the silence around the speech rather than the last words
+const MAX_NARRATION_FADE_SECONDS = 0.5;
+
+// The transition into scenes[index], or undefined for a hard cut. Each scene can spend at most
+// half its length in the transitions at either end.
+export const getTransitionIn = (scenes: Scene[], index: number): SceneTransition | undefined => {
+  const transition = scenes[index]?.transition;
+  if (index <= 0 || !transition || transition.type === 'cut' || transition.duration <= 0) return undefined;
+  const longest = Math.min(getSceneDuration(scenes[index - 1]), getSceneDuration(scenes[index]));
+  return { type: transition.type, duration: Math.min(transition.duration, longest) };
+};
+
+export interface TransitionPhase {
+  type: TransitionType;
+  progress: number;  // 0..1 across the whole transition; the boundary is at 0.5
+  role: 'incoming' | 'outgoing'; // What scenes[index] is in it
+}
+
+// Whether scenes[index] is in a transition at `localTime` seconds into it
+export const getTransitionPhase = (scenes: Scene[], index: number, localTime: number): TransitionPhase | undefined => {
+  const into = getTransitionIn(scenes, index);
+  if (into && localTime < into.duration / 2) {
+    return { type: into.type, progress: 0.5 + localTime / into.duration, role: 'incoming' };
+  }
+  const out = getTransitionIn(scenes, index + 1);
+  const remaining = getSceneDuration(scenes[index]) - localTime;
+  if (out && remaining < out.duration / 2) {
+    return { type: out.type, progress: Math.min(0.5, 0.5 - remaining / out.duration), role: 'outgoing' };
+  }
+  return undefined;
+};
+
+export interface NarrationFades {
+  fadeIn: number;  // Seconds
+  fadeOut: number;
+}
+
+export const getNarrationFades = (scenes: Scene[], index: number): NarrationFades => {
+  const into = getTransitionIn(scenes, index);
+  const out = getTransitionIn(scenes, index + 1);
+  return {
+    fadeIn: into ? Math.min(into.duration / 2, MAX_NARRATION_FADE_SECONDS) : 0,
+    fadeOut: out ? Math.min(out.duration / 2, MAX_NARRATION_FADE_SECONDS) : 0,
+  };
+};
+
+// Narration volume (0..1) at `localTime` seconds into a scene `duration` seconds long
+export const getNarrationGain = (fades: NarrationFades, localTime: number, duration: number) => {
+  let gain = 1;
+  if (fades.fadeIn > 0) gain = Math.min(gain, localTime / fades.fadeIn);
+  if (fades.fadeOut > 0) gain = Math.min(gain, (duration - localTime) / fades.fadeOut);
+  return Math.max(0, Math.min(1, gain));
+};
+
+// Gives every scene boundary the same transition, as one undoable edit
+export const setAllTransitionsCommand = (project: Project, transition: SceneTransition): EditCommand => {
+  const before = new Map(project.scenes.map(s => [s.id, s.transition]));
+  const setEach = (p: Project, get: (scene: Scene) => SceneTransition | undefined): Project => ({
+    ...p,
+    scenes: p.scenes.map(s => before.has(s.id) ? { ...s, transition: get(s) } : s),
+  });
+  return {
+    label: '统一转场',
+    apply: (p) => setEach(p, () => transition),
+    revert: (p) => setEach(p, s => before.get(s.id)),
+    at: Date.now(),
+  };
+};
@@ -0,0 +1,49 @@
+import { NarrationLanguage, Project, Scene, SceneTranslation } from "../types";
+import { EditCommand } from "./editHistory";
+import { ScriptProvider } from "./providers";
+import { getProjectLanguage } from "./languages";
+import { getSubtitleLines, hasCurrentTranslation } from "./subtitles";
+
+// --- Bilingual Subtitles ---
+// The secondary track holds one translated line per subtitle chunk, so each translation shows
+// exactly while its original line is spoken. Scenes are translated together by the project's
+// script provider; a translation goes stale (and is hidden) when its narration is edited.
+
+export const needsTranslation = (scene: Scene, language: NarrationLanguage) =>
+  !!scene.narration.trim() && !hasCurrentTranslation(scene, language);
+
+// Models don't always keep the line count: extra lines join the last one, missing ones stay empty
+const fitLines = (lines: string[], count: number): string[] => {
+  if (lines.length <= count) return [...lines, ...Array(count - lines.length).fill('')];
+  return [...lines.slice(0, count - 1), lines.slice(count - 1).join(' ')];
+};
+
+// Translations for every scene that lacks a current one, by scene ID
+export const translateScenes = async (
+  script: ScriptProvider,
+  project: Project,
+  language: NarrationLanguage
+): Promise<Map<string, SceneTranslation>> => {
+  const scenes = project.scenes.filter(s => needsTranslation(s, language));
+  if (scenes.length === 0) return new Map();
+  const sources = scenes.map(s => getSubtitleLines(s, project.cast));
+  const result = await script.translateSubtitles({ from: getProjectLanguage(project), to: language, scenes: sources });
+  return new Map(scenes.map((s, i) => [
+    s.id,
+    { language, narration: s.narration, lines: fitLines((result[i] || []).map(line => line.trim()), sources[i].length) },
+  ]));
+};
+
+export const setTranslationsCommand = (project: Project, translations: Map<string, SceneTranslation>): EditCommand => {
+  const before = new Map(project.scenes.filter(s => translations.has(s.id)).map(s => [s.id, s.translation]));
+  const setEach = (p: Project, get: (id: string) => SceneTranslation | undefined): Project => ({
+    ...p,
+    scenes: p.scenes.map(s => before.has(s.id) ? { ...s, translation: get(s.id) } : s),
+  });
+  return {
+    label: '生成译文',
+    apply: (p) => setEach(p, id => translations.get(id)),
+    revert: (p) => setEach(p, id => before.get(id)),
+    at: Date.now(),
+  };
+};
@@ -0,0 +1,314 @@
+import { createFile, MP4BoxBuffer, Movie, VisualSampleEntry } from "mp4box";
+
+// --- Video Frame Decoding ---
+// The offline renderer needs a scene's clip frame after frame. Seeking a <video> element for each
+// one makes the browser decode again from the previous keyframe every time, which is slower than
+// playing the clip. Instead the clip is demuxed here (MP4 with mp4box, WebM with a small EBML
+// reader) and decoded front to back with a VideoDecoder, so each frame is decoded once per pass.
+
+interface ClipSample {
+  key: boolean;
+  timestamp: number; // µs from the clip's first frame
+  duration: number;  // µs
+  data: Uint8Array;
+}
+
+interface DemuxedClip {
+  config: VideoDecoderConfig;
+  samples: ClipSample[]; // In decode order
+}
+
+// --- MP4 ---
+
+const isMp4 = (bytes: Uint8Array) =>
+  bytes.length >= 8 && String.fromCharCode(bytes[4], bytes[5], bytes[6], bytes[7]) === 'ftyp';
+
+const demuxMp4 = (buffer: ArrayBuffer): DemuxedClip | undefined => {
+  const file = createFile();
+  let movie: Movie | undefined;
+  file.onReady = (info) => { movie = info; };
+  file.appendBuffer(MP4BoxBuffer.fromArrayBuffer(buffer, 0));
+  file.flush();
+  const track = movie?.videoTracks[0];
+  if (!track) return undefined;
+
+  // H.264 / HEVC / AV1 decoders are configured with the codec box's body (VP9 needs none)
+  const entry = file.getTrackById(track.id).mdia.minf.stbl.stsd.entries[0] as VisualSampleEntry;
+  const box = entry.avcC || entry.hvcC || entry.av1C;
+  const description = box?.start !== undefined && box.hdr_size !== undefined
+    ? new Uint8Array(buffer, box.start + box.hdr_size, box.size - box.hdr_size)
+    : undefined;
+
+  const samples = file.getTrackSamplesInfo(track.id) || [];
+  const firstCts = Math.min(...samples.map(s => s.cts));
+  return {
+    config: { codec: track.codec, codedWidth: track.video?.width, codedHeight: track.video?.height, description },
+    samples: samples.map(s => ({
+      key: s.is_sync,
+      timestamp: Math.round(((s.cts - firstCts) / s.timescale) * 1e6),
+      duration: Math.round((s.duration / s.timescale) * 1e6),
+      data: new Uint8Array(buffer, s.offset, s.size),
+    })),
+  };
+};
+
+// --- WebM ---
+// Only what clips from the mock provider, MediaRecorder and video APIs use: the first video
+// track's codec and its frames. Segments and clusters may have unknown sizes (live recordings),
+// so they are read through rather than skipped by size.
+
+const EBML_ID = 0x1A45DFA3;
+const SEGMENT = 0x18538067;
+const INFO = 0x1549A966;
+const TIMECODE_SCALE = 0x2AD7B1;
+const TRACKS = 0x1654AE6B;
+const TRACK_ENTRY = 0xAE;
+const TRACK_NUMBER = 0xD7;
+const TRACK_TYPE = 0x83;
+const CODEC_ID = 0x86;
+const CODEC_PRIVATE = 0x63A2;
+const VIDEO = 0xE0;
+const PIXEL_WIDTH = 0xB0;
+const PIXEL_HEIGHT = 0xBA;
+const CLUSTER = 0x1F43B675;
+const CLUSTER_TIMECODE = 0xE7;
+const SIMPLE_BLOCK = 0xA3;
+const BLOCK_GROUP = 0xA0;
+const BLOCK = 0xA1;
+
+// Elements whose children are read in place
+const WEBM_CONTAINERS = new Set([SEGMENT, INFO, TRACKS, TRACK_ENTRY, VIDEO, CLUSTER, BLOCK_GROUP]);
+
+const WEBM_CODECS: Record<string, string> = {
+  V_VP8: 'vp8',
+  V_VP9: 'vp09.00.10.08',
+  V_AV1: 'av01.0.08M.08',
+};
+
+const isWebm = (bytes: Uint8Array) =>
+  bytes.length >= 4 && ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0 === EBML_ID;
+
+// EBML variable-length integer at `pos`: its length, and its value with the length marker kept
+// (element IDs) or removed (sizes, where all ones means "unknown")
+const readVint = (bytes: Uint8Array, pos: number, keepMarker: boolean) => {
+  const first = bytes[pos];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8 || pos + length > bytes.length) return undefined;
+  let value = keepMarker ? first : first & (0xFF >> length);
+  let allOnes = value === (0xFF >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[pos + i];
+    allOnes = allOnes && bytes[pos + i] === 0xFF;
+  }
+  return { length, value, unknown: !keepMarker && allOnes };
+};
+
+const readUint = (bytes: Uint8Array) => bytes.reduce((value, byte) => value * 256 + byte, 0);
+
+const hex = (byte: number) => byte.toString(16).padStart(2, '0');
+
+const demuxWebm = (buffer: ArrayBuffer): DemuxedClip | undefined => {
+  const bytes = new Uint8Array(buffer);
+  const tracks: { number?: number; type?: number; codecId?: string; codecPrivate?: Uint8Array; width?: number; height?: number }[] = [];
+  const blocks: { track: number; time: number; key: boolean; data: Uint8Array }[] = [];
+  let timecodeScale = 1_000_000; // ns per timecode unit
+  let clusterTime = 0;
+
+  for (let pos = 0; pos < bytes.length;) {
+    const id = readVint(bytes, pos, true);
+    const size = id && readVint(bytes, pos + id.length, false);
+    if (!id || !size) break;
+    const start = pos + id.length + size.length;
+    if (WEBM_CONTAINERS.has(id.value)) {
+      if (id.value === TRACK_ENTRY) tracks.push({});
+      pos = start;
+      continue;
+    }
+    if (size.unknown) break; // Only containers may have unknown sizes
+    const body = bytes.subarray(start, start + size.value);
+    pos = start + size.value;
+
+    const track = tracks[tracks.length - 1];
+    switch (id.value) {
+      case TIMECODE_SCALE: timecodeScale = readUint(body); break;
+      case TRACK_NUMBER: if (track) track.number = readUint(body); break;
+      case TRACK_TYPE: if (track) track.type = readUint(body); break;
+      case CODEC_ID: if (track) track.codecId = new TextDecoder().decode(body); break;
+      case CODEC_PRIVATE: if (track) track.codecPrivate = body; break;
+      case PIXEL_WIDTH: if (track) track.width = readUint(body); break;
+      case PIXEL_HEIGHT: if (track) track.height = readUint(body); break;
+      case CLUSTER_TIMECODE: clusterTime = readUint(body); break;
+      case SIMPLE_BLOCK:
+      case BLOCK: {
+        const number = readVint(body, 0, false);
+        if (!number) break;
+        const relative = (body[number.length] << 24 >> 16) | body[number.length + 1]; // Signed 16-bit
+        const flags = body[number.length + 2];
+        if (flags & 0x06) break; // Laced frames aren't used for video
+        blocks.push({
+          track: number.value,
+          time: clusterTime + relative,
+          // Blocks in a BlockGroup don't carry the flag; only the track's first is assumed a keyframe
+          key: id.value === SIMPLE_BLOCK ? !!(flags & 0x80) : !blocks.some(b => b.track === number.value),
+          data: body.subarray(number.length + 3),
+        });
+        break;
+      }
+    }
+  }
+
+  const track = tracks.find(t => t.type === 1);
+  if (!track?.number || !track.codecId) return undefined;
+  let codec = WEBM_CODECS[track.codecId];
+  let description: Uint8Array | undefined;
+  if (track.codecId === 'V_MPEG4/ISO/AVC' && track.codecPrivate && track.codecPrivate.length >= 4) {
+    codec = `avc1.${hex(track.codecPrivate[1])}${hex(track.codecPrivate[2])}${hex(track.codecPrivate[3])}`;
+    description = track.codecPrivate;
+  } else if (track.codecId === 'V_AV1') {
+    description = track.codecPrivate;
+  }
+  if (!codec) return undefined;
+
+  const frames = blocks.filter(b => b.track === track.number);
+  if (frames.length === 0) return undefined;
+  const toMicros = (time: number) => Math.round((time * timecodeScale) / 1000);
+  const firstTime = Math.min(...frames.map(f => f.time));
+  const times = frames.map(f => f.time).sort((a, b) => a - b);
+  // A frame lasts until the next one; the last gets the average frame length
+  const averageDuration = times.length > 1 ? (times[times.length - 1] - times[0]) / (times.length - 1) : 0;
+  return {
+    config: { codec, codedWidth: track.width, codedHeight: track.height, description },
+    samples: frames.map(f => {
+      const next = times.find(t => t > f.time);
+      return {
+        key: f.key,
+        timestamp: toMicros(f.time - firstTime),
+        duration: toMicros((next ?? f.time + averageDuration) - f.time),
+        data: f.data,
+      };
+    }),
+  };
+};
+
+// --- Decoding ---
+
+export interface VideoClip {
+  duration: number; // seconds
+  // The frame showing at `time` (seconds; past the end the clip loops, like in the Player).
+  // It stays valid until the next call or close().
+  frameAt: (time: number) => Promise<VideoFrame | undefined>;
+  close: () => void;
+}
+
+// Chunks handed to the decoder ahead of the frames it has output
+const MAX_DECODE_QUEUE = 4;
+
+const createClipDecoder = (clip: DemuxedClip): VideoClip => {
+  const { config, samples } = clip;
+  const durationUs = Math.max(0, ...samples.map(s => s.timestamp + s.duration));
+  const chunks = samples.map(s => new EncodedVideoChunk({
+    type: s.key ? 'key' : 'delta',
+    timestamp: s.timestamp,
+    duration: s.duration,
+    data: s.data,
+  }));
+
+  let frames: VideoFrame[] = []; // Decoded and not yet passed, in presentation order
+  let nextChunk = 0;
+  let position = -1; // Last time asked for, µs
+  let flushed = false;
+  let failure: unknown;
+  let wake: (() => void) | undefined;
+  const notify = () => { const resolve = wake; wake = undefined; resolve?.(); };
+
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      const index = frames.findIndex(f => f.timestamp > frame.timestamp);
+      frames.splice(index < 0 ? frames.length : index, 0, frame);
+      notify();
+    },
+    error: (e) => { failure = e; notify(); },
+  });
+  decoder.ondequeue = notify;
+  decoder.configure(config);
+
+  const closeFrames = () => {
+    frames.forEach(f => f.close());
+    frames = [];
+  };
+
+  // Start decoding again from the last keyframe at or before `target`
+  const restart = (keyIndex: number) => {
+    decoder.reset();
+    decoder.configure(config);
+    closeFrames();
+    nextChunk = keyIndex;
+    flushed = false;
+  };
+
+  const keyIndexFor = (target: number) => {
+    let found = 0;
+    chunks.forEach((chunk, i) => { if (chunk.type === 'key' && chunk.timestamp <= target) found = i; });
+    return found;
+  };
+
+  // Drop frames before the one showing at `target`
+  const prune = (target: number) => {
+    while (frames.length > 1 && frames[1].timestamp <= target) frames.shift()!.close();
+  };
+
+  return {
+    duration: durationUs / 1e6,
+    frameAt: async (time) => {
+      if (chunks.length === 0) return undefined;
+      const target = durationUs > 0 ? Math.round(time * 1e6) % durationUs : 0;
+
+      // Backwards (the clip looped) or beyond the keyframes fed so far: start again from the keyframe
+      const keyIndex = keyIndexFor(target);
+      if (target < position || keyIndex > nextChunk) restart(keyIndex);
+      position = target;
+
+      prune(target);
+      while (!failure && !frames.some(f => f.timestamp > target)) {
+        if (nextChunk >= chunks.length) {
+          if (!flushed) await decoder.flush();
+          flushed = true;
+          break;
+        }
+        if (decoder.decodeQueueSize < MAX_DECODE_QUEUE) decoder.decode(chunks[nextChunk++]);
+        await new Promise<void>(resolve => { wake = resolve; });
+        prune(target);
+      }
+      if (failure) throw failure;
+      prune(target);
+      return frames[0];
+    },
+    close: () => {
+      closeFrames();
+      if (decoder.state !== 'closed') decoder.close();
+    },
+  };
+};
+
+// The clip at `url` ready to be read frame by frame, or undefined if its container or codec
+// can't be decoded here (the caller falls back to seeking a <video> element)
+export const openVideoClip = async (url: string): Promise<VideoClip | undefined> => {
+  if (typeof VideoDecoder === 'undefined') return undefined;
+  const buffer = await (await fetch(url)).arrayBuffer();
+  const head = new Uint8Array(buffer, 0, Math.min(16, buffer.byteLength));
+  const clip = isMp4(head) ? demuxMp4(buffer) : isWebm(head) ? demuxWebm(buffer) : undefined;
+  if (!clip || clip.samples.length === 0 || !clip.samples[0].key) return undefined;
+  const { supported } = await VideoDecoder.isConfigSupported(clip.config);
+  if (!supported) return undefined;
+
+  const decoder = createClipDecoder(clip);
+  try {
+    // A clip that won't decode is found out now, while the <video> fallback is still possible
+    if (!(await decoder.frameAt(0))) throw new Error("No frames decoded");
+    return decoder;
+  } catch (e) {
+    decoder.close();
+    throw e;
+  }
+};
@@ -4,6 +4,89 @@ export enum MediaType {
   VIDEO = 'VIDEO'
 }
 
+export type MediaKind = 'audio' | 'image' | 'video';
+
+export type GenerationErrorKind = 'quota' | 'safety' | 'timeout' | 'empty' | 'download' | 'auth' | 'unknown';
+
+// Last failure of a scene's asset, kept until that asset is generated successfully
+export interface SceneError {
+  kind: GenerationErrorKind;
+  message: string;
+  at: number;
+}
+
+// Subtitle chunk times measured from the narration audio (see subtitleTiming.ts)
+export interface SubtitleTimings {
+  narration: string; // Text they were measured for; stale once the narration is edited
+  cues: { start: number; end: number }[]; // One per subtitle chunk, seconds from scene start
+}
+
+// One generated version of a scene asset. The active take is mirrored into the scene's
+// url / assetId fields, which is what the Player reads.
+export interface AssetTake {
+  id: string;
+  assetId?: string;      // IndexedDB media store ID (missing if storing failed)
+  url?: string;          // Session blob URL, rebuilt from assetId on load
+  prompt: string;        // Narration for audio, visual prompt for image/video
+  voiceName?: string;    // Audio only: narrator voice
+  speakerVoices?: Record<string, string>; // Audio only: cast member name -> voice, for dialogue lines
+  provider?: ProviderKind;
+  model: string;
+  duration?: number;     // Audio only, seconds
+  subtitleTimings?: SubtitleTimings; // Audio only
+  createdAt: number;
+}
+
+export type TransitionType = 'cut' | 'crossfade' | 'fadeBlack' | 'fadeWhite' | 'inkWipe';
+
+// How a scene is entered from the one before it, centred on the boundary between them
+export interface SceneTransition {
+  type: TransitionType;
+  duration: number; // Seconds
+}
+
+// Camera motion over a still image ("Ken Burns"). Focus points are fractions of the image
+// (0,0 top-left) that stay put on screen while the frame zooms or pans around them.
+export type KenBurnsMotion = 'zoomIn' | 'zoomOut' | 'panLeft' | 'panRight' | 'panUp' | 'panDown' | 'none';
+export type KenBurnsEasing = 'linear' | 'easeInOut' | 'easeOut';
+
+export interface KenBurnsConfig {
+  motion: KenBurnsMotion;
+  easing: KenBurnsEasing;
+  from?: { x: number; y: number }; // Start focus; defaults follow the motion
+  to?: { x: number; y: number };   // End focus
+}
+
+export type NarrationLanguage = 'zh-Hans' | 'zh-Hant' | 'en' | 'ja';
+
+// Secondary subtitle track: one translated line per subtitle chunk of the narration it was made
+// from (stale once the narration changes, like SubtitleTimings)
+export interface SceneTranslation {
+  language: NarrationLanguage;
+  narration: string;
+  lines: string[];
+}
+
+// How a quotation in the narration compares with the local sutra corpus (see doctrinalReview.ts)
+export type QuoteVerdict = 'verified' | 'approximate' | 'misattributed' | 'unverified';
+
+export interface QuoteCheck {
+  text: string;
+  attributedTo?: string; // Source the narration credits, e.g. 心经
+  verdict: QuoteVerdict;
+  source?: string;       // Title of the corpus text with the closest passage
+  passage?: string;      // That passage
+  score: number;         // 0..1 similarity between the quotation and the passage
+}
+
+// Doctrinal review of the narration it was made from (stale once the narration changes)
+export interface SceneReview {
+  narration: string;
+  quotes: QuoteCheck[];
+  claims: string[];   // Doctrinal statements the corpus can't settle; for a reviewer to read
+  approved?: boolean; // A reviewer signed the scene off despite its flags
+}
+
 export interface Scene {
   id: string;
   narration: string;
@@ -12,9 +95,94 @@ export interface Scene {
   videoUrl?: string;
   audioUrl?: string; // Blob URL for the audio
   audioDuration?: number; // Duration in seconds
+  subtitleTimings?: SubtitleTimings; // Of the active audio take
+  // Stable IDs into the IndexedDB media store (URLs above are rebuilt from these on load)
+  imageAssetId?: string;
+  videoAssetId?: string;
+  audioAssetId?: string;
   isGeneratingImage: boolean;
   isGeneratingVideo: boolean;
   isGeneratingAudio: boolean;
+  errors?: Partial<Record<MediaKind, SceneError>>;
+  voiceName?: string; // Overrides the project's narrator voice for this scene
+  takes?: Partial<Record<MediaKind, AssetTake[]>>;
+  transition?: SceneTransition; // Into this scene from the previous one; a hard cut when unset
+  kenBurns?: KenBurnsConfig; // Unset: the project's automatic motion
+  translation?: SceneTranslation;
+  review?: SceneReview;
+}
+
+// --- Generation Backends ---
+
+export type ProviderKind = 'gemini' | 'http' | 'mock';
+export type ProviderRole = 'script' | 'image' | 'video' | 'tts';
+
+export interface ProviderSelection {
+  provider: ProviderKind;
+  model: string;
+  endpoint?: string; // Base URL for 'http' providers, e.g. "http://localhost:8000/v1"
+  apiKey?: string;   // Optional bearer token for 'http' providers
+}
+
+export type ProjectProviders = Record<ProviderRole, ProviderSelection>;
+
+export type AspectRatio = '16:9' | '9:16' | '1:1';
+
+// A recurring character. Narration lines tagged "名字：台词" are spoken with their voice.
+export interface CastMember {
+  id: string;
+  name: string;
+  description: string; // Visual description, used to keep the character consistent in prompts
+  voiceName: string;
+}
+
+export type SubtitlePosition = 'bottom' | 'middle' | 'top';
+export type SubtitleLayout = 'horizontal' | 'vertical'; // Vertical: columns read right to left
+
+// How subtitles are drawn onto the video; the ASS export carries the same look.
+// Sizes are px at 720p (short side 720) and scale with the frame.
+export interface SubtitleStyle {
+  fontFamily: string;
+  fontSize: number;
+  bold: boolean;
+  color: string;        // #rrggbb
+  outlineColor: string; // #rrggbb
+  outlineWidth: number; // canvas stroke width; half of it falls outside the glyph; 0 = none
+  box: boolean;         // Background box behind the text
+  boxColor: string;     // #rrggbb
+  boxOpacity: number;   // 0..1
+  position: SubtitlePosition;
+  layout: SubtitleLayout;
+  margin: number;       // px from the top / bottom edge the text sits against (at least the safe area)
+  karaoke: boolean;     // Characters light up in highlightColor as they are spoken
+  highlightColor: string; // #rrggbb
+}
+
+// A background music track in the local library (audio itself lives in IndexedDB)
+export interface BgmTrack {
+  id: string;
+  title: string;
+  mood: string;     // e.g. 宁静 / 庄严
+  license: string;  // Source and terms, e.g. "Pixabay License" or "自录，可商用"
+  duration?: number; // Seconds
+  createdAt: number;
+}
+
+// A sutra in the local citation corpus (the text itself lives in IndexedDB)
+export interface SutraText {
+  id: string;
+  title: string;
+  aliases: string[]; // Other names quotations may credit, e.g. 心经 for 般若波罗蜜多心经
+  length: number;    // Characters
+  createdAt: number;
+}
+
+// A project's soundtrack. trackId is a library track or BUILTIN_BGM_ID; missing means no music.
+export interface ProjectBgm {
+  trackId?: string;
+  offset: number;  // Seconds into the track where the video starts
+  loop: boolean;   // Repeat from the offset when the track ends before the video
+  volume: number;  // 0..1
 }
 
 export interface Project {
@@ -28,10 +196,41 @@ export interface Project {
   // Consistency Settings
   globalCharacter: string; // e.g. "A young monk named Yichen with a gentle smile"
   globalStyle: string;     // e.g. "Traditional Chinese Ink Painting style"
+  narratorVoice?: string;  // Default TTS voice (missing on older projects -> first of AVAILABLE_VOICES)
+  cast?: CastMember[];
+  aspectRatio?: AspectRatio; // Output frame shape (missing on older projects -> 16:9)
+  autoVaryMotion?: boolean;  // Stills without their own Ken Burns settings take turns between motions
+  bgm?: ProjectBgm;          // Missing on older projects -> the built-in online track
+  subtitleStyle?: SubtitleStyle; // Missing on older projects -> DEFAULT_SUBTITLE_STYLE
+  language?: NarrationLanguage;  // Missing on older projects -> zh-Hans
+  secondaryLanguage?: NarrationLanguage; // Bilingual subtitles in this language; none when missing
+
+  // Which backend + model produces each asset type (missing on older projects -> Gemini defaults)
+  providers?: ProjectProviders;
   
   scenes: Scene[];
 }
 
+// --- Production Queue ---
+
+export type JobKind = 'AUDIO' | 'VISUAL';
+export type JobState = 'queued' | 'running' | 'paused' | 'failed' | 'done' | 'cancelled';
+
+export interface ProductionJob {
+  id: string;
+  projectId: string;
+  sceneId: string;
+  kind: JobKind;
+  state: JobState;
+  priority: number;          // Lower runs first
+  visualMode?: 'VIDEO' | 'IMAGE';
+  attempts: number;
+  error?: string;
+  notBefore?: number;        // Deferred until the provider's quota window resets
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface ScriptGenerationResponse {
   title: string;
   scenes: {
@@ -40,6 +239,13 @@ export interface ScriptGenerationResponse {
   }[];
 }
 
+// Quotations and doctrinal claims a script provider found in one scene's narration
+export interface SceneDoctrine {
+  scene: number; // 1-based scene number echoed by the model, so answers can't shift between scenes
+  quotes: { text: string; attributedTo?: string }[];
+  claims: string[];
+}
+
 // Helper to define available voices
 // Strictly using supported voices: Puck, Charon, Kore, Fenrir, Zephyr
 export const AVAILABLE_VOICES = [